@@ -0,0 +1,57 @@
+import { MultiCanvasManager } from './MultiCanvasManager';
+import { GlobalElementManager } from './GlobalElementManager';
+import { Alignment, AlignReference } from './types';
+
+// Toolbar buttons for aligning and distributing the selection against the chosen reference
+export class AlignmentToolbar {
+    private multiCanvasManager: MultiCanvasManager;
+    private globalManager: GlobalElementManager;
+    private referenceSelect: HTMLSelectElement;
+    private alignButtons: HTMLButtonElement[];
+    private distributeButtons: HTMLButtonElement[];
+
+    constructor(multiCanvasManager: MultiCanvasManager) {
+        this.multiCanvasManager = multiCanvasManager;
+        this.globalManager = multiCanvasManager.getGlobalElementManager();
+        this.referenceSelect = document.getElementById('alignReference') as HTMLSelectElement;
+        this.alignButtons = Array.from(document.querySelectorAll<HTMLButtonElement>('#alignControls [data-align]'));
+        this.distributeButtons = Array.from(document.querySelectorAll<HTMLButtonElement>('#alignControls [data-distribute]'));
+        this.setupEventListeners();
+        this.updateButtons();
+    }
+
+    private setupEventListeners(): void {
+        this.alignButtons.forEach(button => {
+            button.addEventListener('click', () => {
+                this.multiCanvasManager.alignSelection(button.dataset.align as Alignment, this.getReference());
+            });
+        });
+        this.distributeButtons.forEach(button => {
+            button.addEventListener('click', () => {
+                const axis = button.dataset.distribute === 'vertical' ? 'vertical' : 'horizontal';
+                this.multiCanvasManager.distributeSelection(axis, this.getReference());
+            });
+        });
+
+        this.referenceSelect?.addEventListener('change', () => this.updateButtons());
+        this.globalManager.subscribe(() => this.updateButtons());
+        document.addEventListener('selection-changed', () => this.updateButtons());
+    }
+
+    private getReference(): AlignReference {
+        return (this.referenceSelect?.value || 'selection') as AlignReference;
+    }
+
+    // Against the selection itself, aligning needs two elements and distributing three;
+    // against a canvas or the grid one and two are enough
+    private updateButtons(): void {
+        const count = this.globalManager.getSelectionWithGroups().length;
+        const relative = this.getReference() === 'selection';
+        this.alignButtons.forEach(button => {
+            button.disabled = count < (relative ? 2 : 1);
+        });
+        this.distributeButtons.forEach(button => {
+            button.disabled = count < (relative ? 3 : 2);
+        });
+    }
+}
@@ -0,0 +1,234 @@
+import { MultiCanvasManager } from './MultiCanvasManager';
+import { ProjectStorage, ProjectSummary } from './ProjectStorage';
+import { ProjectDocument } from './types';
+
+const LAST_PROJECT_KEY = 'dynamic-canvas:last-project';
+
+// Debounced autosave of the whole project into IndexedDB, plus switching between local projects
+export class AutosaveManager {
+    private multiCanvasManager: MultiCanvasManager;
+    private storage: ProjectStorage;
+    private projectId: string;
+    private projectName: string;
+    private saveTimer: number | null = null;
+    private saving: Promise<void> | null = null;
+    private pendingSave: boolean = false;
+    private loading: boolean = false;  // Suppress saves while a project is being swapped in
+    private debounceMs: number = 1500;
+
+    constructor(multiCanvasManager: MultiCanvasManager, storage: ProjectStorage = new ProjectStorage()) {
+        this.multiCanvasManager = multiCanvasManager;
+        this.storage = storage;
+        this.projectId = this.createProjectId();
+        this.projectName = '새 프로젝트';
+        console.log('[AUTOSAVE] AutosaveManager initialized');
+    }
+
+    // Start listening for changes; call after any recovery prompt has been answered
+    public start(): void {
+        // Element edits arrive through the history (one entry per finished gesture); the element
+        // manager's own subscription also fires on selection changes, which are not worth a save
+        document.addEventListener('history-changed', (e) => {
+            if ((e as CustomEvent).detail?.action !== 'clear') this.scheduleSave();
+        });
+        document.addEventListener('canvas-structure-changed', () => this.scheduleSave());
+        document.addEventListener('links-changed', () => this.scheduleSave());
+        document.addEventListener('spreads-changed', () => this.scheduleSave());
+        document.addEventListener('guides-changed', (e) => {
+            if ((e as CustomEvent).detail?.documentChanged) this.scheduleSave();
+        });
+
+        // Flush on tab close so the last few edits are not lost
+        window.addEventListener('beforeunload', () => {
+            if (this.saveTimer !== null) {
+                this.saveNow();
+            }
+        });
+    }
+
+    public getProjectName(): string {
+        return this.projectName;
+    }
+
+    public getProjectId(): string {
+        return this.projectId;
+    }
+
+    public listProjects(): Promise<ProjectSummary[]> {
+        return this.storage.listProjects();
+    }
+
+    // The project that was open when the last session ended, if it still exists
+    public async getRecoverableProject(): Promise<ProjectSummary | null> {
+        const lastId = localStorage.getItem(LAST_PROJECT_KEY);
+        if (!lastId) return null;
+        return this.storage.getProject(lastId);
+    }
+
+    public async openProject(projectId: string): Promise<void> {
+        await this.flush();
+        const { summary, document } = await this.storage.loadProject(projectId);
+
+        this.loading = true;
+        try {
+            await this.multiCanvasManager.importDocument(document);
+        } finally {
+            this.loading = false;
+        }
+
+        this.projectId = summary.id;
+        this.projectName = summary.name;
+        localStorage.setItem(LAST_PROJECT_KEY, summary.id);
+        this.dispatchStatus('loaded');
+    }
+
+    public async newProject(name: string = '새 프로젝트'): Promise<void> {
+        await this.flush();
+        await this.resetProject(name);
+    }
+
+    // Swap in an empty document under a fresh id; the caller has dealt with pending saves
+    private async resetProject(name: string): Promise<void> {
+        this.loading = true;
+        try {
+            await this.multiCanvasManager.resetDocument();
+        } finally {
+            this.loading = false;
+        }
+
+        this.projectId = this.createProjectId();
+        this.projectName = name;
+        localStorage.setItem(LAST_PROJECT_KEY, this.projectId);
+        this.dispatchStatus('loaded');
+    }
+
+    // Bring an external document in as a new local project (e.g. a .json file)
+    public async importProject(doc: ProjectDocument, name: string): Promise<void> {
+        await this.flush();
+
+        this.loading = true;
+        try {
+            await this.multiCanvasManager.importDocument(doc);
+        } finally {
+            this.loading = false;
+        }
+
+        this.projectId = this.createProjectId();
+        this.projectName = name;
+        this.dispatchStatus('loaded');
+        await this.saveNow();
+    }
+
+    // Keep the current session under a fresh id (recovery declined)
+    public startFresh(): void {
+        localStorage.setItem(LAST_PROJECT_KEY, this.projectId);
+    }
+
+    public async renameProject(projectId: string, name: string): Promise<void> {
+        if (projectId === this.projectId) {
+            this.projectName = name;
+            this.dispatchStatus('renamed');
+        }
+        await this.storage.renameProject(projectId, name);
+    }
+
+    public async deleteProject(projectId: string): Promise<void> {
+        if (projectId !== this.projectId) {
+            await this.storage.deleteProject(projectId);
+            return;
+        }
+
+        // The open project: drop its pending saves and hold new ones off, so nothing writes it back
+        this.loading = true;
+        try {
+            await this.discardPendingSaves();
+            await this.storage.deleteProject(projectId);
+        } finally {
+            this.loading = false;
+        }
+        await this.resetProject('새 프로젝트');
+    }
+
+    public scheduleSave(): void {
+        if (this.loading) return;
+
+        if (this.saveTimer !== null) {
+            clearTimeout(this.saveTimer);
+        }
+        this.saveTimer = window.setTimeout(() => {
+            this.saveTimer = null;
+            this.saveNow();
+        }, this.debounceMs);
+    }
+
+    // Wait for pending work so switching projects never writes one project's state under another id
+    private async flush(): Promise<void> {
+        if (this.saveTimer !== null) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+            await this.saveNow();
+        }
+        while (this.saving) {
+            await this.saving;
+        }
+    }
+
+    // Cancel the debounced save and wait out a running one without queueing another
+    private async discardPendingSaves(): Promise<void> {
+        if (this.saveTimer !== null) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+        }
+        this.pendingSave = false;
+        while (this.saving) {
+            await this.saving;
+            this.pendingSave = false;
+        }
+    }
+
+    private saveNow(): Promise<void> {
+        if (this.saving) {
+            // Coalesce: one more save after the running one finishes
+            this.pendingSave = true;
+            return this.saving;
+        }
+
+        const projectId = this.projectId;
+        const projectName = this.projectName;
+        const doc = this.multiCanvasManager.exportDocument();
+
+        this.saving = this.storage.saveProject(projectId, projectName, doc)
+            .then(() => {
+                localStorage.setItem(LAST_PROJECT_KEY, projectId);
+                this.dispatchStatus('saved');
+            })
+            .catch(error => {
+                console.error('[AUTOSAVE] Failed to save project', error);
+                this.dispatchStatus('error');
+            })
+            .finally(() => {
+                this.saving = null;
+                if (this.pendingSave) {
+                    this.pendingSave = false;
+                    this.saveNow();
+                }
+            });
+
+        return this.saving;
+    }
+
+    private dispatchStatus(status: 'saved' | 'loaded' | 'renamed' | 'error'): void {
+        document.dispatchEvent(new CustomEvent('autosave-status', {
+            detail: {
+                status,
+                projectId: this.projectId,
+                projectName: this.projectName,
+                time: Date.now()
+            }
+        }));
+    }
+
+    private createProjectId(): string {
+        return `project-${Date.now()}`;
+    }
+}
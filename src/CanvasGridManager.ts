@@ -1,21 +1,12 @@
-// Grid-based canvas layout manager for dynamic linking between adjacent canvases
+// Grid-based canvas layout: which canvas sits in which cell. Links between neighbours live in LinkManager.
 export interface GridPosition {
     row: number;
     col: number;
 }
 
-export interface CanvasLink {
-    from: string;  // canvas ID
-    to: string;    // canvas ID
-    direction: 'horizontal' | 'vertical' | 'diagonal-tl' | 'diagonal-tr' | 'diagonal-bl' | 'diagonal-br';
-    enabled: boolean;
-}
-
 export class CanvasGridManager {
     private grid: Map<string, string> = new Map(); // "row,col" -> canvasId
     private canvasPositions: Map<string, GridPosition> = new Map(); // canvasId -> position
-    private links: Map<string, CanvasLink> = new Map(); // linkId -> CanvasLink
-    private linkStates: Map<string, boolean> = new Map(); // "canvasId1-canvasId2" -> enabled
     
     constructor() {
         console.log('[GRID] Canvas Grid Manager initialized');
@@ -27,9 +18,6 @@ export class CanvasGridManager {
         this.grid.set(key, canvasId);
         this.canvasPositions.set(canvasId, { row, col });
         console.log(`[GRID] Added canvas ${canvasId} at position (${row}, ${col})`);
-        
-        // Automatically create links with adjacent canvases
-        this.createAdjacentLinks(canvasId, row, col);
     }
     
     // Remove canvas from grid
@@ -39,12 +27,24 @@ export class CanvasGridManager {
             const key = `${position.row},${position.col}`;
             this.grid.delete(key);
             this.canvasPositions.delete(canvasId);
-            
-            // Remove all links involving this canvas
-            this.removeCanvasLinks(canvasId);
         }
     }
     
+    // Place canvases in new cells at once (a swap is two moves)
+    public moveCanvases(positions: Map<string, GridPosition>): void {
+        positions.forEach((_, canvasId) => {
+            const position = this.canvasPositions.get(canvasId);
+            if (position && this.grid.get(`${position.row},${position.col}`) === canvasId) {
+                this.grid.delete(`${position.row},${position.col}`);
+            }
+        });
+        positions.forEach((position, canvasId) => {
+            this.grid.set(`${position.row},${position.col}`, canvasId);
+            this.canvasPositions.set(canvasId, { ...position });
+            console.log(`[GRID] Moved canvas ${canvasId} to position (${position.row}, ${position.col})`);
+        });
+    }
+
     // Get canvas at specific grid position
     public getCanvasAt(row: number, col: number): string | null {
         const key = `${row},${col}`;
@@ -78,63 +78,10 @@ export class CanvasGridManager {
         return adjacent;
     }
     
-    // Create links with adjacent canvases
-    private createAdjacentLinks(canvasId: string, row: number, col: number): void {
-        const adjacent = this.getAdjacentCanvases(canvasId);
-        
-        adjacent.forEach((adjacentId, direction) => {
-            const linkKey = this.getLinkKey(canvasId, adjacentId);
-            
-            // Check if link already exists
-            if (!this.linkStates.has(linkKey)) {
-                // Create new link (enabled by default)
-                this.linkStates.set(linkKey, true);
-                console.log(`[GRID] Created link between ${canvasId} and ${adjacentId} (${direction})`);
-            }
-        });
-    }
-    
-    // Remove all links for a canvas
-    private removeCanvasLinks(canvasId: string): void {
-        const keysToRemove: string[] = [];
-        
-        this.linkStates.forEach((_, key) => {
-            if (key.includes(canvasId)) {
-                keysToRemove.push(key);
-            }
-        });
-        
-        keysToRemove.forEach(key => this.linkStates.delete(key));
-    }
-    
-    // Toggle link between two canvases
-    public toggleLink(canvas1: string, canvas2: string): boolean {
-        const key = this.getLinkKey(canvas1, canvas2);
-        const currentState = this.linkStates.get(key) || false;
-        const newState = !currentState;
-        this.linkStates.set(key, newState);
-        
-        console.log(`[GRID] Link between ${canvas1} and ${canvas2}: ${newState ? 'ENABLED' : 'DISABLED'}`);
-        return newState;
-    }
-    
-    // Set link state directly
-    public setLinkState(canvas1: string, canvas2: string, enabled: boolean): void {
-        const key = this.getLinkKey(canvas1, canvas2);
-        this.linkStates.set(key, enabled);
-        console.log(`[GRID] Link between ${canvas1} and ${canvas2} set to: ${enabled ? 'ENABLED' : 'DISABLED'}`);
-    }
-    
-    // Check if two canvases are linked
-    public areCanvasesLinked(canvas1: string, canvas2: string): boolean {
-        const key = this.getLinkKey(canvas1, canvas2);
-        return this.linkStates.get(key) || false;
-    }
-    
-    // Get a consistent key for a link between two canvases
-    private getLinkKey(canvas1: string, canvas2: string): string {
-        // Sort IDs to ensure consistent key regardless of order
-        return [canvas1, canvas2].sort().join('-');
+    // Remove every canvas
+    public clear(): void {
+        this.grid.clear();
+        this.canvasPositions.clear();
     }
     
     // Find next available position relative to a specific canvas
@@ -191,26 +138,12 @@ export class CanvasGridManager {
         return { row: 0, col: 0 };
     }
     
+    public getCanvasIds(): string[] {
+        return Array.from(this.canvasPositions.keys());
+    }
+    
     // Get canvas position
     public getCanvasPosition(canvasId: string): GridPosition | null {
         return this.canvasPositions.get(canvasId) || null;
     }
-    
-    // Check if element can move between canvases
-    public canElementMoveBetweenCanvases(fromCanvas: string, toCanvas: string): boolean {
-        // Check if canvases are adjacent
-        const fromPos = this.canvasPositions.get(fromCanvas);
-        const toPos = this.canvasPositions.get(toCanvas);
-        
-        if (!fromPos || !toPos) return false;
-        
-        // Check if adjacent (within 1 cell distance)
-        const rowDiff = Math.abs(fromPos.row - toPos.row);
-        const colDiff = Math.abs(fromPos.col - toPos.col);
-        
-        if (rowDiff > 1 || colDiff > 1) return false;
-        
-        // Check if link is enabled
-        return this.areCanvasesLinked(fromCanvas, toCanvas);
-    }
-}
\ No newline at end of file
+}
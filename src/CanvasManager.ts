@@ -1,5 +1,10 @@
-import { CanvasElement, Point, DragState, ResizeState, ResizeHandle } from './types';
+import { CanvasElement, Point, DragState, ResizeState, ResizeHandle, RotateState, GroupTransformState, ShapeType, PenState, AnchorDragState, PathPart, PathPoint, Alignment, SpanMode, CanvasLink } from './types';
 import { GlobalElementManager } from './GlobalElementManager';
+import { ElementRenderer } from './ElementRenderer';
+import { ElementGeometry } from './ElementGeometry';
+import { PathGeometry } from './PathGeometry';
+import type { SnapManager } from './SnapManager';
+import { GuideManager } from './GuideManager';
 
 export class CanvasManager {
     private canvas: HTMLCanvasElement;
@@ -9,6 +14,7 @@ export class CanvasManager {
     private offsetY: number = 0;
     private scale: number = 1;
     private zoomLevel: number = 1;  // Global zoom level from MultiCanvasManager
+    private displayScale: number | null = null;  // Scale shared by the whole grid; null = fit this canvas alone
     // Linking state is tracked by checking link button status
     // private editingElementId: string | null = null; // Removed - not needed anymore  // Track element being edited
     private cropMode: boolean = false;  // Track crop mode
@@ -36,10 +42,27 @@ export class CanvasManager {
         startPoint: { x: 0, y: 0 },
         originalBounds: { x: 0, y: 0, width: 0, height: 0 }
     };
+    private rotateState: RotateState = {
+        isRotating: false,
+        element: null,
+        center: { x: 0, y: 0 },
+        startAngle: 0,
+        originalRotation: 0
+    };
+    private groupTransform: GroupTransformState = this.createGroupTransformState();
+    private penState: PenState = { isDrawing: false, elementId: null, samples: [] };
+    private anchorDrag: AnchorDragState = this.createAnchorDragState();
+    private draggingGuideId: string | null = null;  // Ruler guide being moved from this canvas
+    private readonly rotateHandleOffset: number = 30;  // Distance of the rotate handle above the selection
     private textToolbar: HTMLElement;
+    private shapeToolbar: HTMLElement;
     private contextMenu: HTMLElement;
-    private clipboard: CanvasElement | null = null;
+    private clipboard: CanvasElement[] = [];
     private lastContextMenuPosition: Point = { x: 0, y: 0 };
+    private exporting: boolean = false;  // True while render() draws into an export surface
+    private elementRenderer: ElementRenderer = new ElementRenderer();
+    // Listeners attached to shared targets (document, window, toolbars) - removed in destroy()
+    private externalListeners: { target: EventTarget; type: string; handler: (e: any) => void }[] = [];
 
     constructor(canvasId: string, globalManager: GlobalElementManager, offsetX: number = 0, offsetY: number = 0) {
         this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
@@ -52,21 +75,17 @@ export class CanvasManager {
         this.offsetX = offsetX;
         this.offsetY = offsetY;
         this.textToolbar = document.getElementById('textToolbar') as HTMLElement;
+        this.shapeToolbar = document.getElementById('shapeToolbar') as HTMLElement;
         this.contextMenu = document.getElementById('contextMenu') as HTMLElement;
         this.setupCanvas();
         this.setupEventListeners();
         this.setupTextToolbar();
+        this.setupShapeToolbar();
         this.setupContextMenu();
         
-        // Listen for linking state changes
-        document.addEventListener('linking-state-changed', (e) => {
-            const customEvent = e as CustomEvent;
-            this.render(); // Re-render when linking state changes
-        });
-        
-        // Listen for directional link changes
-        document.addEventListener('directional-link-changed', (e) => {
-            this.render(); // Re-render when directional links change
+        // Re-render when canvas links change
+        this.listen(document, 'links-changed', () => {
+            this.render();
         });
     }
     
@@ -74,25 +93,107 @@ export class CanvasManager {
         return this.canvas;
     }
     
-    private isLinkingEnabled(): boolean {
-        // Check if any link button is active (has 'active' class)
-        const linkButtons = document.querySelectorAll('.canvas-link-button');
-        return Array.from(linkButtons).some(btn => btn.classList.contains('active'));
+    // Register a listener on a target this canvas does not own so it can be detached later
+    private listen<K extends keyof DocumentEventMap>(target: EventTarget | null, type: K, handler: (e: DocumentEventMap[K]) => void): void;
+    private listen(target: EventTarget | null, type: string, handler: (e: Event) => void): void;
+    private listen(target: EventTarget | null, type: string, handler: (e: any) => void): void {
+        if (!target) return;
+        target.addEventListener(type, handler);
+        this.externalListeners.push({ target, type, handler });
     }
     
-    // Check if linking is enabled for a specific direction from this canvas
-    private isLinkEnabledForDirection(direction: 'left' | 'right' | 'top' | 'bottom'): boolean {
-        // Get the grid manager to check adjacent canvas and link state
-        const gridManager = (window as any).canvasGridManager;
-        if (!gridManager) return false;
-        
-        const adjacent = gridManager.getAdjacentCanvases(this.canvas.id);
-        const adjacentCanvasId = adjacent.get(direction);
-        
-        if (!adjacentCanvasId) return false;
+    // Detach every shared listener so a removed canvas stops reacting to global events
+    public destroy(): void {
+        this.externalListeners.forEach(({ target, type, handler }) => {
+            target.removeEventListener(type, handler);
+        });
+        this.externalListeners = [];
+    }
+    
+    // Keys typed into a text editor, form field or contenteditable title are not shortcuts
+    private isTyping(e: KeyboardEvent): boolean {
+        const target = e.target as HTMLElement | null;
+        return !!document.querySelector('.text-editor-active') ||
+            !!(target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable));
+    }
+    
+    private isActiveCanvas(): boolean {
+        const multiCanvasManager = (window as any).multiCanvasManager;
+        return !multiCanvasManager || multiCanvasManager.getActiveCanvas() === this;
+    }
+    
+    private getSnapManager(): SnapManager | null {
+        return (window as any).multiCanvasManager?.getSnapManager() || null;
+    }
+    
+    private getGuideManager(): GuideManager | null {
+        return (window as any).multiCanvasManager?.getGuideManager() || null;
+    }
+    
+    // Ruler guide under a local point (a few screen pixels either side)
+    private getGuideAtPoint(localPoint: Point): string | null {
+        const guideManager = this.getGuideManager();
+        if (!guideManager) return null;
+        const globalPoint = this.localToGlobal(localPoint.x, localPoint.y);
+        const guide = guideManager.getGuideAt(this.canvas.id, globalPoint.x, globalPoint.y, 4 / (this.scale * this.zoomLevel));
+        return guide ? guide.id : null;
+    }
+    
+    // Snap distance is fixed on screen, so it grows in global units as the view zooms out
+    private getSnapThreshold(): number {
+        return this.getSnapManager()?.getThreshold(this.scale * this.zoomLevel) ?? 0;
+    }
+    
+    // Extra offset that snaps the dragged elements' combined bounds; clears the guides when off
+    private snapDrag(elements: CanvasElement[], dx: number, dy: number, enabled: boolean): { dx: number; dy: number } {
+        const snapManager = this.getSnapManager();
+        if (!snapManager) return { dx: 0, dy: 0 };
+        if (!enabled) {
+            snapManager.clear();
+            return { dx: 0, dy: 0 };
+        }
         
-        // Check if link is enabled between these canvases
-        return gridManager.areCanvasesLinked(this.canvas.id, adjacentCanvasId);
+        // Bounds at the drag start, moved by the raw pointer delta
+        const boxes = elements.map(element => {
+            const start = this.originalPositions.get(element.id) ||
+                (element.id === this.dragState.element?.id ? this.dragState.elementStartPoint : { x: element.x, y: element.y });
+            const bounds = ElementGeometry.getBounds(element);
+            return { ...bounds, x: bounds.x + start.x - element.x + dx, y: bounds.y + start.y - element.y + dy };
+        });
+        const left = Math.min(...boxes.map(b => b.x));
+        const top = Math.min(...boxes.map(b => b.y));
+        const rect = {
+            x: left,
+            y: top,
+            width: Math.max(...boxes.map(b => b.x + b.width)) - left,
+            height: Math.max(...boxes.map(b => b.y + b.height)) - top
+        };
+        return snapManager.snapRect(rect, elements.map(element => element.id), this.getSnapThreshold());
+    }
+    
+    private isPenMode(): boolean {
+        const multiCanvasManager = (window as any).multiCanvasManager;
+        return !!multiCanvasManager?.isPenMode();
+    }
+    
+    private isLinkingEnabled(): boolean {
+        // Any enabled link out of this canvas, to a neighbour or through a portal
+        const multiCanvasManager = (window as any).multiCanvasManager;
+        if (!multiCanvasManager) return false;
+        return multiCanvasManager.getLinkManager().getLinksFrom(this.canvas.id).some((link: CanvasLink) => link.enabled);
+    }
+    
+    // The dragged element jumped through a portal; carry on the drag from where it landed
+    public shiftDrag(dx: number, dy: number): void {
+        if (!this.dragState.isDragging) return;
+        this.dragState.elementStartPoint = {
+            x: this.dragState.elementStartPoint.x + dx,
+            y: this.dragState.elementStartPoint.y + dy
+        };
+        this.originalPositions.forEach(position => {
+            position.x += dx;
+            position.y += dy;
+        });
     }
     
     public setOffset(offsetX: number, offsetY: number): void {
@@ -106,7 +207,7 @@ export class CanvasManager {
     }
     
     // Convert global coordinates to local canvas coordinates
-    private globalToLocal(globalX: number, globalY: number): Point {
+    public globalToLocal(globalX: number, globalY: number): Point {
         return {
             x: globalX - this.offsetX,
             y: globalY - this.offsetY
@@ -114,7 +215,7 @@ export class CanvasManager {
     }
     
     // Convert local canvas coordinates to global coordinates
-    private localToGlobal(localX: number, localY: number): Point {
+    public localToGlobal(localX: number, localY: number): Point {
         return {
             x: localX + this.offsetX,
             y: localY + this.offsetY
@@ -141,18 +242,32 @@ export class CanvasManager {
         this.zoomLevel = zoom;
     }
     
+    // Canvases of different sizes must share one scale or their seams would not meet on screen
+    public setDisplayScale(scale: number | null): void {
+        this.displayScale = scale;
+        this.updateCanvasDisplaySize();
+        this.render();
+    }
+    
     private updateCanvasDisplaySize(): void {
         const canvasContent = this.canvas.parentElement; // canvas-content
         if (!canvasContent) return;
         
+        // Final scale for mouse position calculations
+        this.scale = this.displayScale ?? this.getFitScale();
+        
+        // Apply calculated dimensions to canvas display
+        this.canvas.style.width = `${this.canvas.width * this.scale}px`;
+        this.canvas.style.height = `${this.canvas.height * this.scale}px`;
+    }
+    
+    // Display scale that fits this canvas in the viewport on its own
+    public getFitScale(): number {
         // Maximum available space (accounting for UI elements)
         // Subtract space for toolbar (approx 70px), thumbnail bar (120px), title (30px), and some padding
         const maxAvailableWidth = window.innerWidth - 80; // Some padding for scrollbar
         const maxAvailableHeight = window.innerHeight - 300; // Toolbar + thumbnail bar + title + padding
         
-        // Calculate the ideal display size
-        const canvasAspectRatio = this.canvas.width / this.canvas.height;
-        
         let displayWidth: number;
         let displayHeight: number;
         
@@ -182,12 +297,7 @@ export class CanvasManager {
             displayHeight = this.canvas.height * minScale;
         }
         
-        // Final scale for mouse position calculations
-        this.scale = displayWidth / this.canvas.width;
-        
-        // Apply calculated dimensions to canvas display
-        this.canvas.style.width = `${displayWidth}px`;
-        this.canvas.style.height = `${displayHeight}px`;
+        return displayWidth / this.canvas.width;
     }
 
     private setupEventListeners(): void {
@@ -196,8 +306,11 @@ export class CanvasManager {
         this.canvas.addEventListener('contextmenu', this.handleContextMenu.bind(this));
         
         // Use document-level mouse move and up for better cross-canvas dragging
-        document.addEventListener('mousemove', this.handleMouseMove.bind(this));
-        document.addEventListener('mouseup', this.handleMouseUp.bind(this));
+        this.listen(document, 'mousemove', this.handleMouseMove.bind(this));
+        this.listen(document, 'mouseup', this.handleMouseUp.bind(this));
+        // A release outside the window never arrives as a mouseup; end the gesture when the window
+        // loses focus so its history transaction does not swallow every later edit
+        this.listen(window, 'blur', () => this.handleMouseUp(null));
         
         // Add click event to activate canvas when clicked
         this.canvas.addEventListener('click', (e) => {
@@ -209,7 +322,7 @@ export class CanvasManager {
         });
         
         // Add keyboard event listener for crop mode
-        document.addEventListener('keydown', (e) => {
+        this.listen(document, 'keydown', (e) => {
             if (this.cropMode) {
                 if (e.key === 'Enter') {
                     e.preventDefault();
@@ -225,30 +338,34 @@ export class CanvasManager {
         });
         
         // Add window resize listener for responsive canvas
-        window.addEventListener('resize', () => {
+        this.listen(window, 'resize', () => {
             this.updateCanvasDisplaySize();
         });
         
-        // Listen for linking state changes
-        document.addEventListener('linking-state-changed', (e) => {
-            const customEvent = e as CustomEvent;
-            // Linking state changed, re-render
-            this.render();
-            // Re-render when linking state changes
-            this.render();
-        });
-        
         // Hide context menu when clicking elsewhere
-        document.addEventListener('click', (e) => {
+        this.listen(document, 'click', (e) => {
             if (!this.contextMenu.contains(e.target as Node)) {
                 this.contextMenu.style.display = 'none';
             }
         });
         
         // Keyboard shortcuts
-        document.addEventListener('keydown', (e) => {
+        this.listen(document, 'keydown', (e) => {
             if (e.ctrlKey || e.metaKey) {
-                if (e.key === 'c') {
+                // Every canvas listens on document; only the active one handles shortcuts
+                if (!this.isActiveCanvas()) return;
+                
+                // Leave undo/copy to the browser while typing in an editor or form field
+                if (this.isTyping(e)) return;
+                
+                if (e.key.toLowerCase() === 'z') {
+                    e.preventDefault();
+                    if (e.shiftKey) {
+                        this.globalManager.getHistory().redo();
+                    } else {
+                        this.globalManager.getHistory().undo();
+                    }
+                } else if (e.key === 'c') {
                     e.preventDefault();
                     this.copyElement();
                 } else if (e.key === 'v') {
@@ -257,6 +374,28 @@ export class CanvasManager {
                 } else if (e.key === 'd') {
                     e.preventDefault();
                     this.duplicateElement();
+                } else if (e.key.toLowerCase() === 'g') {
+                    e.preventDefault();
+                    if (e.shiftKey) {
+                        this.ungroupSelected();
+                    } else {
+                        this.groupSelected();
+                    }
+                }
+            }
+            
+            // Arrow keys nudge the selection by 1px, or 10px with Shift
+            const nudge: { [key: string]: [number, number] } = {
+                ArrowLeft: [-1, 0], ArrowRight: [1, 0], ArrowUp: [0, -1], ArrowDown: [0, 1]
+            };
+            if (nudge[e.key] && !e.ctrlKey && !e.metaKey && !e.altKey && !this.cropMode &&
+                this.isActiveCanvas() && !this.isTyping(e)) {
+                const ids = this.getSelectedIds();
+                if (ids.length > 0) {
+                    e.preventDefault();
+                    const step = e.shiftKey ? 10 : 1;
+                    this.globalManager.nudgeElements(ids, nudge[e.key][0] * step, nudge[e.key][1] * step);
+                    document.dispatchEvent(new CustomEvent('element-moved'));
                 }
             }
             
@@ -266,6 +405,10 @@ export class CanvasManager {
                 this.applyCrop();
             }
             
+            if (e.key === 'Escape' && !this.cropMode && this.isActiveCanvas() && this.globalManager.getEditingPath()) {
+                this.stopPathEditing();
+            }
+            
             // Escape key to cancel crop
             if (e.key === 'Escape' && this.cropMode) {
                 e.preventDefault();
@@ -285,41 +428,60 @@ export class CanvasManager {
         const alignRight = document.getElementById('alignRight');
         const textColor = document.getElementById('textColor') as HTMLInputElement;
 
-        fontFamily?.addEventListener('change', () => {
+        this.listen(fontFamily, 'change', () => {
+            // Toolbar controls are shared by every canvas; only the active one applies the change
+            if (!this.isActiveCanvas()) return;
             const selectedElement = this.globalManager.getSelectedElement();
             if (selectedElement?.type === 'text') {
                 this.globalManager.updateElement(selectedElement.id, { fontFamily: fontFamily.value });
-                this.render();
+                document.dispatchEvent(new CustomEvent('element-moved')); // Re-render every canvas
             }
         });
 
-        fontSize?.addEventListener('input', () => {
+        // Slider-style inputs fire continuously; collapse each adjustment into one history entry.
+        // Every control tracks its own adjustment and ends it on its own change or blur.
+        const history = this.globalManager.getHistory();
+        const adjusting: Set<HTMLElement> = new Set();
+        const beginAdjustment = (control: HTMLElement, label: string) => {
+            if (adjusting.has(control)) return;
+            adjusting.add(control);
+            history.beginTransaction(label);
+        };
+        const endAdjustment = (control: HTMLElement) => {
+            if (adjusting.delete(control)) history.endTransaction();
+        };
+        
+        this.listen(fontSize, 'input', () => {
+            if (!this.isActiveCanvas()) return;
             const selectedElement = this.globalManager.getSelectedElement();
             if (selectedElement?.type === 'text') {
+                beginAdjustment(fontSize, 'font-size');
                 this.globalManager.updateElement(selectedElement.id, { fontSize: parseInt(fontSize.value) });
-                this.render();
+                document.dispatchEvent(new CustomEvent('element-moved'));
             }
         });
 
-        boldBtn?.addEventListener('click', () => {
+        this.listen(boldBtn, 'click', () => {
+            if (!this.isActiveCanvas()) return;
             const selectedElement = this.globalManager.getSelectedElement();
             if (selectedElement?.type === 'text') {
                 this.globalManager.updateElement(selectedElement.id, {
                     fontWeight: selectedElement.fontWeight === 'bold' ? 'normal' : 'bold'
                 });
-                boldBtn.classList.toggle('active');
-                this.render();
+                boldBtn?.classList.toggle('active');
+                document.dispatchEvent(new CustomEvent('element-moved'));
             }
         });
 
-        italicBtn?.addEventListener('click', () => {
+        this.listen(italicBtn, 'click', () => {
+            if (!this.isActiveCanvas()) return;
             const selectedElement = this.globalManager.getSelectedElement();
             if (selectedElement?.type === 'text') {
                 this.globalManager.updateElement(selectedElement.id, {
                     fontStyle: selectedElement.fontStyle === 'italic' ? 'normal' : 'italic'
                 });
-                italicBtn.classList.toggle('active');
-                this.render();
+                italicBtn?.classList.toggle('active');
+                document.dispatchEvent(new CustomEvent('element-moved'));
             }
         });
 
@@ -327,27 +489,150 @@ export class CanvasManager {
         const alignValues: ('left' | 'center' | 'right')[] = ['left', 'center', 'right'];
         
         alignButtons.forEach((btn, index) => {
-            btn?.addEventListener('click', () => {
+            this.listen(btn, 'click', () => {
+                if (!this.isActiveCanvas()) return;
                 const selectedElement = this.globalManager.getSelectedElement();
                 if (selectedElement?.type === 'text') {
                     this.globalManager.updateElement(selectedElement.id, { textAlign: alignValues[index] });
                     alignButtons.forEach(b => b?.classList.remove('active'));
-                    btn.classList.add('active');
-                    this.render();
+                    btn?.classList.add('active');
+                    document.dispatchEvent(new CustomEvent('element-moved'));
                 }
             });
         });
 
-        textColor?.addEventListener('input', () => {
+        this.listen(textColor, 'input', () => {
+            if (!this.isActiveCanvas()) return;
             const selectedElement = this.globalManager.getSelectedElement();
             if (selectedElement?.type === 'text') {
+                beginAdjustment(textColor, 'text-color');
                 this.globalManager.updateElement(selectedElement.id, { color: textColor.value });
-                this.render();
+                document.dispatchEvent(new CustomEvent('element-moved'));
             }
         });
+        
+        [fontSize, textColor].forEach(control => {
+            this.listen(control, 'change', () => endAdjustment(control));
+            this.listen(control, 'blur', () => endAdjustment(control));
+        });
+    }
+
+    private setupShapeToolbar(): void {
+        const shapeFill = document.getElementById('shapeFill') as HTMLInputElement;
+        const shapeNoFill = document.getElementById('shapeNoFill') as HTMLInputElement;
+        const shapeStroke = document.getElementById('shapeStroke') as HTMLInputElement;
+        const shapeStrokeWidth = document.getElementById('shapeStrokeWidth') as HTMLInputElement;
+        const shapeDash = document.getElementById('shapeDash') as HTMLSelectElement;
+        const shapeRadius = document.getElementById('shapeRadius') as HTMLInputElement;
+        const arrowStartBtn = document.getElementById('arrowStartBtn');
+        const arrowEndBtn = document.getElementById('arrowEndBtn');
+
+        const getSelectedShape = (): CanvasElement | null => {
+            if (!this.isActiveCanvas()) return null;
+            const selectedElement = this.globalManager.getSelectedElement();
+            return selectedElement && ElementGeometry.hasStroke(selectedElement) ? selectedElement : null;
+        };
+        const apply = (updates: Partial<CanvasElement>) => {
+            const shape = getSelectedShape();
+            if (!shape) return;
+            this.globalManager.updateElement(shape.id, updates);
+            document.dispatchEvent(new CustomEvent('element-moved')); // Re-render every canvas
+        };
+
+        // Same as the text toolbar: one history entry per slider or color-picker adjustment,
+        // tracked per control
+        const history = this.globalManager.getHistory();
+        const adjusting: Set<HTMLElement> = new Set();
+        const adjust = (control: HTMLElement, label: string, updates: () => Partial<CanvasElement>) => {
+            if (!getSelectedShape()) return;
+            if (!adjusting.has(control)) {
+                adjusting.add(control);
+                history.beginTransaction(label);
+            }
+            apply(updates());
+        };
+        const endAdjustment = (control: HTMLElement) => {
+            if (adjusting.delete(control)) history.endTransaction();
+        };
+
+        this.listen(shapeFill, 'input', () => {
+            adjust(shapeFill, 'shape-fill', () => ({ fillColor: shapeFill.value }));
+            if (shapeNoFill) shapeNoFill.checked = false;
+        });
+        this.listen(shapeNoFill, 'change', () => {
+            apply({ fillColor: shapeNoFill.checked ? undefined : shapeFill.value });
+        });
+        this.listen(shapeStroke, 'input', () => {
+            adjust(shapeStroke, 'shape-stroke', () => ({ strokeColor: shapeStroke.value }));
+        });
+        this.listen(shapeStrokeWidth, 'input', () => {
+            const value = parseFloat(shapeStrokeWidth.value);
+            if (isNaN(value) || value < 0) return;
+            adjust(shapeStrokeWidth, 'shape-stroke-width', () => ({ strokeWidth: value }));
+        });
+        this.listen(shapeDash, 'change', () => {
+            apply({ strokeDash: shapeDash.value as CanvasElement['strokeDash'] });
+        });
+        this.listen(shapeRadius, 'input', () => {
+            const value = parseFloat(shapeRadius.value);
+            if (isNaN(value) || value < 0) return;
+            adjust(shapeRadius, 'shape-radius', () => ({ cornerRadius: value }));
+        });
+        this.listen(arrowStartBtn, 'click', () => {
+            const shape = getSelectedShape();
+            if (!shape || !ElementGeometry.isLine(shape)) return;
+            apply({ arrowStart: !shape.arrowStart });
+            arrowStartBtn?.classList.toggle('active', !shape.arrowStart);
+        });
+        this.listen(arrowEndBtn, 'click', () => {
+            const shape = getSelectedShape();
+            if (!shape || !ElementGeometry.isLine(shape)) return;
+            apply({ arrowEnd: !shape.arrowEnd });
+            arrowEndBtn?.classList.toggle('active', !shape.arrowEnd);
+        });
+
+        [shapeFill, shapeStroke, shapeStrokeWidth, shapeRadius].forEach(control => {
+            this.listen(control, 'change', () => endAdjustment(control));
+            this.listen(control, 'blur', () => endAdjustment(control));
+        });
+    }
+
+    private updateShapeToolbar(): void {
+        if (!this.shapeToolbar) return;
+        const selectedElement = this.globalManager.getSelectedElement();
+        if (!selectedElement || !ElementGeometry.hasStroke(selectedElement)) {
+            this.shapeToolbar.style.display = 'none';
+            return;
+        }
+        this.shapeToolbar.style.display = 'block';
+
+        const isLine = ElementGeometry.isLine(selectedElement);
+        const shapeFill = document.getElementById('shapeFill') as HTMLInputElement;
+        const shapeNoFill = document.getElementById('shapeNoFill') as HTMLInputElement;
+        const shapeStroke = document.getElementById('shapeStroke') as HTMLInputElement;
+        const shapeStrokeWidth = document.getElementById('shapeStrokeWidth') as HTMLInputElement;
+        const shapeDash = document.getElementById('shapeDash') as HTMLSelectElement;
+        const shapeRadius = document.getElementById('shapeRadius') as HTMLInputElement;
+        const fillControl = document.getElementById('shapeFillControl');
+        const radiusControl = document.getElementById('shapeRadiusControl');
+        const arrowControls = document.getElementById('shapeArrowControls');
+
+        if (shapeFill && selectedElement.fillColor) shapeFill.value = selectedElement.fillColor;
+        if (shapeNoFill) shapeNoFill.checked = !selectedElement.fillColor;
+        if (shapeStroke) shapeStroke.value = selectedElement.strokeColor || '#000000';
+        if (shapeStrokeWidth) shapeStrokeWidth.value = (selectedElement.strokeWidth ?? 2).toString();
+        if (shapeDash) shapeDash.value = selectedElement.strokeDash || 'solid';
+        if (shapeRadius) shapeRadius.value = (selectedElement.cornerRadius || 0).toString();
+
+        if (fillControl) fillControl.style.display = isLine || selectedElement.type === 'path' ? 'none' : '';
+        if (radiusControl) radiusControl.style.display = selectedElement.type === 'rect' ? '' : 'none';
+        if (arrowControls) arrowControls.style.display = isLine ? '' : 'none';
+        document.getElementById('arrowStartBtn')?.classList.toggle('active', !!selectedElement.arrowStart);
+        document.getElementById('arrowEndBtn')?.classList.toggle('active', !!selectedElement.arrowEnd);
     }
 
     private updateTextToolbar(): void {
+        this.updateShapeToolbar();
         const selectedElement = this.globalManager.getSelectedElement();
         if (selectedElement?.type === 'text') {
             this.textToolbar.style.display = 'block';
@@ -396,10 +681,10 @@ export class CanvasManager {
         if (this.cropMode) {
             const selectedElement = this.globalManager.getSelectedElement();
             if (selectedElement && selectedElement.type === 'image' && this.cropBounds) {
-                const localX = selectedElement.x - this.offsetX;
-                const localY = selectedElement.y - this.offsetY;
-                const mouseX = localPoint.x - localX;
-                const mouseY = localPoint.y - localY;
+                // Mouse position in the image's own (unrotated) frame
+                const framePoint = ElementGeometry.toElementFrame(selectedElement, globalPoint);
+                const mouseX = framePoint.x - selectedElement.x;
+                const mouseY = framePoint.y - selectedElement.y;
                 
                 // Check if click is outside the image bounds - if so, apply crop
                 if (mouseX < 0 || mouseY < 0 || 
@@ -452,15 +737,58 @@ export class CanvasManager {
             return;
         }
         
-        // Check for resize handles FIRST if we have a selected element
+        if (this.isPenMode()) {
+            this.startPenStroke(globalPoint);
+            return;
+        }
+        
+        // Ruler guides sit above the artwork; dropping one back on a ruler deletes it
+        const guideId = this.getGuideAtPoint(localPoint);
+        if (guideId) {
+            this.draggingGuideId = guideId;
+            this.getGuideManager()?.beginMove(guideId);
+            return;
+        }
+        
+        // Anchors and handles of the path being edited take priority over everything else
+        const editingPathId = this.globalManager.getEditingPath();
+        if (editingPathId) {
+            if (this.startAnchorDrag(editingPathId, localPoint, globalPoint)) return;
+            if (this.globalManager.getElementAtPoint(globalPoint.x, globalPoint.y)?.id !== editingPathId) {
+                this.stopPathEditing();
+            }
+        }
+        
+        // Check for resize handles FIRST if we have a selected element (or group)
         const selectedElement = this.globalManager.getSelectedElement();
+        const selectedGroupId = this.getSelectedGroupId();
         let handle: ResizeHandle | null = null;
         
-        if (selectedElement && !this.cropMode) {
+        if (selectedGroupId && this.startGroupTransform(selectedGroupId, localPoint, globalPoint)) {
+            return;
+        }
+        
+        if (selectedElement && !selectedElement.locked && !selectedGroupId && !this.cropMode) {
+            // The rotate handle sits outside the element, so check it before anything else
+            if (this.isOverRotateHandle(localPoint, selectedElement)) {
+                const center = ElementGeometry.getCenter(selectedElement);
+                this.globalManager.getHistory().beginTransaction('rotate');
+                this.rotateState = {
+                    isRotating: true,
+                    element: selectedElement,
+                    center,
+                    startAngle: this.getAngle(center, globalPoint),
+                    originalRotation: ElementGeometry.getRotation(selectedElement)
+                };
+                this.canvas.style.cursor = 'grabbing';
+                return;
+            }
+            
             // Check if clicking on resize handle (even if outside element bounds)
             handle = this.getResizeHandle(localPoint, selectedElement);
             
             if (handle) {
+                this.globalManager.getHistory().beginTransaction('resize');
                 this.resizeState = {
                     isResizing: true,
                     element: selectedElement,
@@ -483,20 +811,16 @@ export class CanvasManager {
         
         if (element && !this.cropMode) {
             if (!handle) {  // Only process selection if not resizing
-                // Check if Shift or Cmd/Ctrl is held for multi-selection
-                if (e.shiftKey || e.metaKey || e.ctrlKey) {
-                    // Toggle selection
-                    if (this.globalManager.isSelected(element.id)) {
-                        this.globalManager.removeFromSelection(element.id);
-                    } else {
-                        this.globalManager.addToSelection(element.id);
-                    }
-                } else {
-                    // Single selection
-                    this.globalManager.clearSelection();
-                    this.globalManager.setSelectedElement(element.id);
+                // Clicking outside the group being edited closes it
+                const enteredGroupId = this.globalManager.getEnteredGroup();
+                if (enteredGroupId && element.groupId !== enteredGroupId) {
+                    this.globalManager.setEnteredGroup(null);
                 }
                 
+                // Shift or Cmd/Ctrl toggles the element (or its whole group) in the multi-selection
+                this.selectElement(element, e.shiftKey || e.metaKey || e.ctrlKey);
+                
+                this.globalManager.getHistory().beginTransaction('move');
                 this.dragState = {
                     isDragging: true,
                     element: element,
@@ -521,6 +845,7 @@ export class CanvasManager {
         } else if (!this.cropMode) {  // Only allow selection rectangle when NOT in crop mode
             // Start selection rectangle if not clicking on an element
             if (!e.shiftKey && !e.metaKey && !e.ctrlKey) {
+                this.globalManager.setEnteredGroup(null);
                 this.globalManager.clearSelection();
             }
             
@@ -691,6 +1016,12 @@ export class CanvasManager {
     }
 
     private handleMouseMove(e: MouseEvent): void {
+        // The button came up where no mouseup reached us; finish the move/resize/rotate first
+        if (e.buttons === 0 && (this.dragState.isDragging || this.resizeState.isResizing ||
+            this.rotateState.isRotating || this.groupTransform.mode)) {
+            this.handleMouseUp(e);
+        }
+        
         const localPoint = this.getMousePosition(e);
         const globalPoint = this.localToGlobal(localPoint.x, localPoint.y);
         
@@ -698,10 +1029,9 @@ export class CanvasManager {
         if (this.cropMode && this.cropHandle && this.cropBounds) {
             const selectedElement = this.globalManager.getSelectedElement();
             if (selectedElement && selectedElement.type === 'image') {
-                const localX = selectedElement.x - this.offsetX;
-                const localY = selectedElement.y - this.offsetY;
-                const mouseX = Math.max(0, Math.min(localPoint.x - localX, selectedElement.width));
-                const mouseY = Math.max(0, Math.min(localPoint.y - localY, selectedElement.height));
+                const framePoint = ElementGeometry.toElementFrame(selectedElement, globalPoint);
+                const mouseX = Math.max(0, Math.min(framePoint.x - selectedElement.x, selectedElement.width));
+                const mouseY = Math.max(0, Math.min(framePoint.y - selectedElement.y, selectedElement.height));
                 
                 // Update crop bounds based on which handle is being dragged
                 const bounds = { ...this.cropBounds };
@@ -729,6 +1059,20 @@ export class CanvasManager {
             }
         }
         
+        // Pen strokes and anchor drags follow the pointer across canvases like element drags
+        if (this.penState.isDrawing) {
+            this.continuePenStroke(globalPoint);
+            return;
+        }
+        if (this.anchorDrag.isDragging) {
+            this.handleAnchorDrag(globalPoint, e.altKey);
+            return;
+        }
+        if (this.draggingGuideId) {
+            this.moveGuide(this.draggingGuideId, localPoint, globalPoint);
+            return;
+        }
+        
         // Handle selection rectangle dragging
         if (this.isSelectionDragging) {
             this.selectionEndPoint = globalPoint;
@@ -739,13 +1083,14 @@ export class CanvasManager {
             const width = Math.abs(this.selectionEndPoint.x - this.selectionStartPoint.x);
             const height = Math.abs(this.selectionEndPoint.y - this.selectionStartPoint.y);
             
-            // Get all elements in the selection rectangle
+            // Get all elements in the selection rectangle; touching one member selects its whole group
             const elementsInRect = this.globalManager.getElementsInRectangle(x, y, width, height);
+            const ids = this.globalManager.expandToGroups(elementsInRect.map(element => element.id));
             
             // Clear and reselect elements
             this.globalManager.clearSelection();
-            elementsInRect.forEach(element => {
-                this.globalManager.addToSelection(element.id);
+            ids.forEach(id => {
+                this.globalManager.addToSelection(id);
             });
             
             this.render();
@@ -753,17 +1098,17 @@ export class CanvasManager {
         }
         
         // Only handle if we're actively dragging or resizing from this canvas
-        if (!this.dragState.isDragging && !this.resizeState.isResizing && !this.cropDragging && !this.cropResizing) {
+        if (!this.dragState.isDragging && !this.resizeState.isResizing && !this.rotateState.isRotating &&
+            !this.groupTransform.mode && !this.cropDragging && !this.cropResizing) {
             // Check for hover effects
             if (e.target === this.canvas) {
                 if (this.cropMode) {
                     // In crop mode, only change cursor near crop handles
                     const selectedElement = this.globalManager.getSelectedElement();
                     if (selectedElement && selectedElement.type === 'image' && this.cropBounds) {
-                        const localX = selectedElement.x - this.offsetX;
-                        const localY = selectedElement.y - this.offsetY;
-                        const mouseX = localPoint.x - localX;
-                        const mouseY = localPoint.y - localY;
+                        const framePoint = ElementGeometry.toElementFrame(selectedElement, globalPoint);
+                        const mouseX = framePoint.x - selectedElement.x;
+                        const mouseY = framePoint.y - selectedElement.y;
                         
                         const threshold = 20;
                         const bounds = this.cropBounds;
@@ -796,15 +1141,44 @@ export class CanvasManager {
                     } else {
                         this.canvas.style.cursor = 'default';
                     }
+                } else if (this.isPenMode()) {
+                    this.canvas.style.cursor = 'crosshair';
                 } else {
                     // Normal mode - check for resize handles
                     const selectedElement = this.globalManager.getSelectedElement();
                     
-                    // First check if we're over a resize handle (even if outside element bounds)
-                    if (selectedElement) {
+                    const editingPath = this.getEditingPathElement();
+                    if (editingPath && this.getPathPartAt(editingPath, localPoint)) {
+                        this.canvas.style.cursor = 'pointer';
+                        return;
+                    }
+                    
+                    const guideId = this.getGuideAtPoint(localPoint);
+                    if (guideId) {
+                        const guide = this.getGuideManager()?.getGuides().find(g => g.id === guideId);
+                        this.canvas.style.cursor = guide?.axis === 'x' ? 'col-resize' : 'row-resize';
+                        return;
+                    }
+                    
+                    // A selected group has one set of handles around all of its members
+                    const selectedGroupId = this.getSelectedGroupId();
+                    if (selectedGroupId) {
+                        const cursor = this.getGroupHandleCursor(selectedGroupId, localPoint);
+                        if (cursor) {
+                            this.canvas.style.cursor = cursor;
+                            return;
+                        }
+                    }
+                    
+                    // First check if we're over the rotate or a resize handle (even if outside element bounds)
+                    if (selectedElement && !selectedElement.locked && !selectedGroupId) {
+                        if (this.isOverRotateHandle(localPoint, selectedElement)) {
+                            this.canvas.style.cursor = 'grab';
+                            return;
+                        }
                         const handle = this.getResizeHandle(localPoint, selectedElement);
                         if (handle) {
-                            this.canvas.style.cursor = this.getCursorForHandle(handle);
+                            this.canvas.style.cursor = this.getCursorForHandle(handle, ElementGeometry.getRotation(selectedElement));
                             return;
                         }
                     }
@@ -824,17 +1198,28 @@ export class CanvasManager {
         };
         const currentGlobalPoint = this.localToGlobal(currentLocalPoint.x, currentLocalPoint.y);
         
-        if (this.resizeState.isResizing && this.resizeState.element) {
-            this.handleResize(currentGlobalPoint);
+        if (this.groupTransform.mode) {
+            this.handleGroupTransform(currentGlobalPoint, e.shiftKey);
+        } else if (this.rotateState.isRotating && this.rotateState.element) {
+            this.handleRotate(currentGlobalPoint, e.shiftKey);
+        } else if (this.resizeState.isResizing && this.resizeState.element) {
+            this.handleResize(currentGlobalPoint, !e.altKey);
         } else if (this.dragState.isDragging && this.dragState.element) {
-            const dx = currentGlobalPoint.x - this.dragState.startPoint.x;
-            const dy = currentGlobalPoint.y - this.dragState.startPoint.y;
+            let dx = currentGlobalPoint.x - this.dragState.startPoint.x;
+            let dy = currentGlobalPoint.y - this.dragState.startPoint.y;
             
             // Check if we're moving multiple selected elements
             const selectedElements = this.globalManager.getSelectedElements();
+            
+            // Alt drags freely
+            const snap = this.snapDrag(selectedElements.length > 1 ? selectedElements : [this.dragState.element], dx, dy, !e.altKey);
+            dx += snap.dx;
+            dy += snap.dy;
             if (selectedElements.length > 1) {
                 // Move all selected elements together
                 selectedElements.forEach(element => {
+                    if (element.locked) return;
+                    
                     // Calculate new position for each element
                     const originalPos = this.originalPositions.get(element.id) || { x: element.x, y: element.y };
                     let newX = originalPos.x + dx;
@@ -897,10 +1282,10 @@ export class CanvasManager {
         } else {
             // Check for resize handles first
             const selectedElement = this.globalManager.getSelectedElement();
-            if (selectedElement) {
+            if (selectedElement && !selectedElement.locked) {
                 const handle = this.getResizeHandle(localPoint, selectedElement);
                 if (handle) {
-                    this.canvas.style.cursor = this.getCursorForHandle(handle);
+                    this.canvas.style.cursor = this.getCursorForHandle(handle, ElementGeometry.getRotation(selectedElement));
                     this.render();
                     return;
                 }
@@ -931,17 +1316,49 @@ export class CanvasManager {
         document.dispatchEvent(event);
     }
 
-    private handleResize(point: Point): void {
+    private handleResize(point: Point, snap: boolean = false): void {
         if (!this.resizeState.element || !this.resizeState.handle) return;
         
-        const dx = point.x - this.resizeState.startPoint.x;
-        const dy = point.y - this.resizeState.startPoint.y;
         const original = this.resizeState.originalBounds;
         const element = this.resizeState.element;
+        const rotation = ElementGeometry.getRotation(element);
+        
+        // Measure the drag along the element's own axes so handles follow a rotated box
+        const delta = ElementGeometry.rotatePoint(
+            { x: point.x - this.resizeState.startPoint.x, y: point.y - this.resizeState.startPoint.y },
+            { x: 0, y: 0 },
+            -rotation
+        );
+        let dx = delta.x;
+        let dy = delta.y;
         
         // Check if it's a corner handle for proportional resizing
         const isCorner = ['nw', 'ne', 'se', 'sw'].includes(this.resizeState.handle);
         
+        // Snapping works on the axis-aligned box; rotated and cropped elements resize freely
+        const snapManager = this.getSnapManager();
+        const canSnap = snap && !!snapManager && !rotation && element.cropX === undefined;
+        if (canSnap) {
+            const handle = this.resizeState.handle;
+            const movingX = handle.includes('e') ? original.x + original.width + dx : handle.includes('w') ? original.x + dx : null;
+            const movingY = handle.includes('s') ? original.y + original.height + dy : handle.includes('n') ? original.y + dy : null;
+            const offset = snapManager!.snapEdges(
+                movingX === null ? [] : [movingX],
+                movingY === null ? [] : [movingY],
+                [element.id],
+                this.getSnapThreshold()
+            );
+            if (isCorner) {
+                // Height follows width, so a snapped top/bottom edge becomes a width change
+                const fromY = offset.dy * (original.width / original.height) * (handle === 'se' || handle === 'nw' ? 1 : -1);
+                const useX = offset.dx !== 0 && (offset.dy === 0 || Math.abs(offset.dx) <= Math.abs(fromY));
+                dx += useX ? offset.dx : fromY;
+            } else {
+                dx += offset.dx;
+                dy += offset.dy;
+            }
+        }
+        
         let updates: Partial<CanvasElement> = {};
         
         if (isCorner) {
@@ -1004,6 +1421,33 @@ export class CanvasManager {
             if (updates.height !== undefined) updates.height = Math.max(20, updates.height);
         }
         
+        if (rotation) {
+            // The box above is in the original rotated frame; move its center there so the
+            // opposite edge stays put on screen instead of drifting around the new pivot
+            const newWidth = updates.width ?? original.width;
+            const newHeight = updates.height ?? original.height;
+            const newX = updates.x ?? original.x;
+            const newY = updates.y ?? original.y;
+            const center = ElementGeometry.rotatePoint(
+                { x: newX + newWidth / 2, y: newY + newHeight / 2 },
+                { x: original.x + original.width / 2, y: original.y + original.height / 2 },
+                rotation
+            );
+            updates.x = center.x - newWidth / 2;
+            updates.y = center.y - newHeight / 2;
+        }
+        
+        if (!canSnap) {
+            snapManager?.clear();
+        } else {
+            snapManager!.showGuides({
+                x: updates.x ?? original.x,
+                y: updates.y ?? original.y,
+                width: updates.width ?? original.width,
+                height: updates.height ?? original.height
+            }, [element.id]);
+        }
+        
         // Update element through global manager
         this.globalManager.updateElement(element.id, updates);
         
@@ -1011,43 +1455,39 @@ export class CanvasManager {
         document.dispatchEvent(new CustomEvent('element-moved'));
     }
 
-    private getCursorForHandle(handle: ResizeHandle): string {
-        const cursors: Record<ResizeHandle, string> = {
-            'nw': 'nw-resize',
-            'n': 'n-resize',
-            'ne': 'ne-resize',
-            'e': 'e-resize',
-            'se': 'se-resize',
-            's': 's-resize',
-            'sw': 'sw-resize',
-            'w': 'w-resize'
-        };
-        return cursors[handle];
+    private getCursorForHandle(handle: ResizeHandle, rotation: number = 0): string {
+        // Turn the cursor with the element, in 45° steps
+        const handles: ResizeHandle[] = ['n', 'ne', 'e', 'se', 's', 'sw', 'w', 'nw'];
+        const steps = Math.round(rotation / 45);
+        const index = (((handles.indexOf(handle) + steps) % 8) + 8) % 8;
+        return `${handles[index]}-resize`;
     }
 
     private getResizeHandle(localPoint: Point, element: CanvasElement): ResizeHandle | null {
         if (!element) return null;
         
-        // Convert element global position to local for handle calculation
-        const localPos = this.globalToLocal(element.x, element.y);
+        // Compare in the element's unrotated frame, against the handles as drawn (crop-aware)
+        const globalPoint = this.localToGlobal(localPoint.x, localPoint.y);
+        const point = ElementGeometry.toElementFrame(element, globalPoint);
+        const { x, y, width, height } = ElementGeometry.getVisibleRect(element);
         // Increased detection area to 20 pixels for easier clicking
         const handleSize = 20 / this.scale;
         const handles: { handle: ResizeHandle; x: number; y: number }[] = [
-            { handle: 'nw', x: localPos.x, y: localPos.y },
-            { handle: 'n', x: localPos.x + element.width / 2, y: localPos.y },
-            { handle: 'ne', x: localPos.x + element.width, y: localPos.y },
-            { handle: 'e', x: localPos.x + element.width, y: localPos.y + element.height / 2 },
-            { handle: 'se', x: localPos.x + element.width, y: localPos.y + element.height },
-            { handle: 's', x: localPos.x + element.width / 2, y: localPos.y + element.height },
-            { handle: 'sw', x: localPos.x, y: localPos.y + element.height },
-            { handle: 'w', x: localPos.x, y: localPos.y + element.height / 2 }
+            { handle: 'nw', x: x, y: y },
+            { handle: 'n', x: x + width / 2, y: y },
+            { handle: 'ne', x: x + width, y: y },
+            { handle: 'e', x: x + width, y: y + height / 2 },
+            { handle: 'se', x: x + width, y: y + height },
+            { handle: 's', x: x + width / 2, y: y + height },
+            { handle: 'sw', x: x, y: y + height },
+            { handle: 'w', x: x, y: y + height / 2 }
         ];
         
         for (const h of handles) {
             // Calculate distance from point to handle center (circular detection)
             const distance = Math.sqrt(
-                Math.pow(localPoint.x - h.x, 2) + 
-                Math.pow(localPoint.y - h.y, 2)
+                Math.pow(point.x - h.x, 2) + 
+                Math.pow(point.y - h.y, 2)
             );
             if (distance <= handleSize) {
                 return h.handle;
@@ -1057,7 +1497,43 @@ export class CanvasManager {
         return null;
     }
 
-    private handleMouseUp(e: MouseEvent): void {
+    // Rotate handle position in global coordinates, in the element's unrotated frame
+    private getRotateHandlePosition(element: CanvasElement): Point {
+        const rect = ElementGeometry.getVisibleRect(element);
+        return { x: rect.x + rect.width / 2, y: rect.y - this.rotateHandleOffset };
+    }
+    
+    private isOverRotateHandle(localPoint: Point, element: CanvasElement): boolean {
+        const globalPoint = this.localToGlobal(localPoint.x, localPoint.y);
+        const point = ElementGeometry.toElementFrame(element, globalPoint);
+        const handle = this.getRotateHandlePosition(element);
+        return Math.hypot(point.x - handle.x, point.y - handle.y) <= 12 / this.scale;
+    }
+    
+    private getAngle(center: Point, point: Point): number {
+        return Math.atan2(point.y - center.y, point.x - center.x) * 180 / Math.PI;
+    }
+    
+    private handleRotate(point: Point, snap: boolean): void {
+        const element = this.rotateState.element;
+        if (!element) return;
+        
+        let rotation = this.rotateState.originalRotation +
+            this.getAngle(this.rotateState.center, point) - this.rotateState.startAngle;
+        // Shift snaps to 15° steps
+        if (snap) {
+            rotation = Math.round(rotation / 15) * 15;
+        }
+        rotation = ((rotation % 360) + 360) % 360;
+        
+        this.globalManager.updateElement(element.id, { rotation });
+        
+        // Trigger re-render on all canvases
+        document.dispatchEvent(new CustomEvent('element-moved'));
+    }
+
+    // `e` is null when the window lost focus mid-gesture
+    private handleMouseUp(e: MouseEvent | null): void {
         // Reset crop states
         if (this.cropDragging || this.cropResizing || this.cropHandle) {
             this.cropDragging = false;
@@ -1075,8 +1551,33 @@ export class CanvasManager {
             return;
         }
         
-        // Only reset states if this canvas was the one dragging/resizing
-        if (this.dragState.isDragging || this.resizeState.isResizing) {
+        if (this.penState.isDrawing) {
+            this.finishPenStroke();
+            return;
+        }
+        
+        if (this.anchorDrag.isDragging) {
+            this.anchorDrag = this.createAnchorDragState();
+            this.globalManager.getHistory().endTransaction();
+            document.dispatchEvent(new CustomEvent('element-moved'));
+            return;
+        }
+        
+        if (this.draggingGuideId) {
+            const guideManager = this.getGuideManager();
+            const target = e && document.elementFromPoint(e.clientX, e.clientY);
+            if (target?.classList.contains('ruler')) {
+                guideManager?.removeGuide(this.draggingGuideId);
+            } else {
+                guideManager?.endMove();
+            }
+            this.draggingGuideId = null;
+            return;
+        }
+        
+        // Only reset states if this canvas was the one dragging/resizing/rotating
+        if (this.dragState.isDragging || this.resizeState.isResizing || this.rotateState.isRotating ||
+            this.groupTransform.mode) {
             this.dragState = {
                 isDragging: false,
                 element: null,
@@ -1091,6 +1592,21 @@ export class CanvasManager {
                 startPoint: { x: 0, y: 0 },
                 originalBounds: { x: 0, y: 0, width: 0, height: 0 }
             };
+            if (this.rotateState.isRotating) {
+                this.rotateState = {
+                    isRotating: false,
+                    element: null,
+                    center: { x: 0, y: 0 },
+                    startAngle: 0,
+                    originalRotation: 0
+                };
+                this.canvas.style.cursor = 'grab';
+            }
+            this.groupTransform = this.createGroupTransformState();
+            this.getSnapManager()?.clear();
+            
+            // Close the move/resize/rotate gesture as a single history entry
+            this.globalManager.getHistory().endTransaction();
             
             // Re-render all canvases to ensure proper state
             document.dispatchEvent(new CustomEvent('element-moved'));
@@ -1102,6 +1618,19 @@ export class CanvasManager {
         const globalPoint = this.localToGlobal(localPoint.x, localPoint.y);
         const element = this.globalManager.getElementAtPoint(globalPoint.x, globalPoint.y);
         
+        // The first double-click on a grouped element opens the group so its children can be edited
+        if (element && element.groupId && element.groupId !== this.globalManager.getEnteredGroup() && !this.cropMode) {
+            this.globalManager.setEnteredGroup(element.groupId);
+            this.globalManager.clearSelection();
+            this.globalManager.setSelectedElement(element.id);
+            this.updateTextToolbar();
+            document.dispatchEvent(new CustomEvent('selection-changed', {
+                detail: { element: element }
+            }));
+            document.dispatchEvent(new CustomEvent('element-moved')); // Re-render every canvas
+            return;
+        }
+        
         if (element) {
             if (element.type === 'text' && !this.cropMode) {
                 this.startInlineEditing(element);
@@ -1111,6 +1640,8 @@ export class CanvasManager {
                     this.globalManager.setSelectedElement(element.id);
                     this.toggleCropMode();
                 }
+            } else if (element.type === 'path' && !this.cropMode) {
+                this.startPathEditing(element);
             }
         }
     }
@@ -1261,6 +1792,9 @@ export class CanvasManager {
                 content = '텍스트'; // Default text if empty
             }
             
+            // Creation and the follow-up size measurement undo together
+            this.globalManager.getHistory().beginTransaction('add-text');
+            
             // Now create the actual element with the edited content
             const element: CanvasElement = {
                 id: newElementId,
@@ -1286,6 +1820,7 @@ export class CanvasManager {
             
             // Update dimensions
             this.updateTextDimensions(element);
+            this.globalManager.getHistory().endTransaction();
             
             if (document.body.contains(editor)) {
                 document.body.removeChild(editor);
@@ -1588,6 +2123,7 @@ export class CanvasManager {
             
             // 새 엘리먼트 생성 대신 기존 엘리먼트 업데이트로 변경
             // 이유: 새 ID로 교체하면 선택 상태나 다른 참조가 깨질 수 있음
+            this.globalManager.getHistory().beginTransaction('edit-text');
             this.globalManager.updateElement(elementId, { 
                 content: newContent 
             });
@@ -1606,6 +2142,7 @@ export class CanvasManager {
                 this.globalManager.setSelectedElement(elementId);
                 this.updateTextToolbar();
             }
+            this.globalManager.getHistory().endTransaction();
             this.render();
         };
         
@@ -1851,6 +2388,47 @@ export class CanvasManager {
         this.createInlineTextEditor(globalPos.x, globalPos.y, text, baseFontSize);
     }
 
+    // New shapes are centered on this canvas and selected
+    public addShape(type: ShapeType): void {
+        const isLine = type === 'line' || type === 'arrow';
+        const sizes: Record<ShapeType, { width: number; height: number }> = {
+            rect: { width: 160, height: 100 },
+            ellipse: { width: 120, height: 120 },
+            line: { width: 200, height: 20 },
+            arrow: { width: 200, height: 20 }
+        };
+        const { width, height } = sizes[type];
+        
+        const localCenter = {
+            x: this.canvas.width / 2 - width / 2,
+            y: this.canvas.height / 2 - height / 2
+        };
+        const globalPos = this.localToGlobal(localCenter.x, localCenter.y);
+        
+        const element: CanvasElement = {
+            id: `element-${Date.now()}`,
+            type,
+            x: globalPos.x,
+            y: globalPos.y,
+            width,
+            height,
+            content: '',
+            canvasId: this.canvas.id,
+            fillColor: isLine ? undefined : '#bee3f8',
+            strokeColor: isLine ? '#2d3748' : '#3182ce',
+            strokeWidth: isLine ? 3 : 2,
+            strokeDash: 'solid',
+            arrowEnd: type === 'arrow' ? true : undefined
+        };
+        
+        this.globalManager.addElement(element);
+        this.globalManager.clearSelection();
+        this.globalManager.setSelectedElement(element.id);
+        this.updateTextToolbar();
+        document.dispatchEvent(new CustomEvent('selection-changed', { detail: { element } }));
+        this.render();
+    }
+
     public addImage(imageUrl: string): void {
         const img = new Image();
         img.onload = () => {
@@ -1911,9 +2489,11 @@ export class CanvasManager {
         // Delete all selected elements (supports multi-selection)
         const selectedElements = this.globalManager.getSelectedElements();
         if (selectedElements.length > 0) {
+            this.globalManager.getHistory().beginTransaction('delete');
             selectedElements.forEach(element => {
                 this.globalManager.removeElement(element.id);
             });
+            this.globalManager.getHistory().endTransaction();
             this.globalManager.clearSelection();
             this.updateTextToolbar();
             this.render();
@@ -1943,20 +2523,31 @@ export class CanvasManager {
             this.canvas.height
         );
         
+        // A selected group gets one box around all members instead of per-element handles
+        const selectedGroupId = this.exporting ? null : this.getSelectedGroupId();
+        
+        // Parts of elements that crossed a portal into this canvas, already shifted into its frame
+        const multiCanvasManager = (window as any).multiCanvasManager;
+        const portalCopies: CanvasElement[] = multiCanvasManager ? multiCanvasManager.getPortalCopies(this.canvas.id) : [];
+        
         // Render each visible element
-        for (const element of visibleElements) {
-            // Check if element should be rendered based on directional link states
-            if (element.canvasId && element.canvasId !== this.canvas.id) {
-                // Element is from another canvas - check directional link
-                const multiCanvasManager = (window as any).multiCanvasManager;
+        const ordered: CanvasElement[] = multiCanvasManager
+            ? multiCanvasManager.orderWithPortalCopies(visibleElements, portalCopies, (element: CanvasElement) => element)
+            : visibleElements;
+        for (const element of ordered) {
+            if (element.hidden) continue;
+            const isPortalCopy = portalCopies.includes(element);
+            
+            // Check if element should be rendered based on canvas links
+            if (!isPortalCopy && element.canvasId && element.canvasId !== this.canvas.id) {
+                // Element is from another canvas - check the link from its canvas to this one
                 if (multiCanvasManager) {
-                    // Check if the directional link from element's canvas to this canvas is enabled
-                    const isLinkEnabled = multiCanvasManager.isDirectionalLinkEnabled(element.canvasId, this.canvas.id);
+                    const isLinkEnabled = multiCanvasManager.isElementVisibleOnCanvas(element, this.canvas.id);
                     
                     if (!isLinkEnabled) {
                         // Skip rendering if link is disabled
                         // Exception: allow rendering if this element is being dragged
-                        if (!this.dragState.isDragging || this.dragState.element?.id !== element.id) {
+                        if (this.exporting || !this.dragState.isDragging || this.dragState.element?.id !== element.id) {
                             continue;
                         }
                     }
@@ -1969,144 +2560,267 @@ export class CanvasManager {
             // Convert element's global position to local position for rendering
             const localPos = this.globalToLocal(element.x, element.y);
             const localElement = { ...element, x: localPos.x, y: localPos.y };
+            if (element.pathPoints) {
+                localElement.pathPoints = PathGeometry.translate(element.pathPoints, -this.offsetX, -this.offsetY);
+            }
             
+            // Content, selection and handles are all drawn in the element's rotated frame
+            this.elementRenderer.applyRotation(this.ctx, localElement);
             
+            // Opacity applies to the content only, not to the selection UI drawn over it
+            this.ctx.globalAlpha = ElementGeometry.getOpacity(element);
             if (element.type === 'text') {
                 this.renderText(localElement);
             } else if (element.type === 'image' && element.imageElement) {
                 this.renderImage(localElement);
+            } else if (ElementGeometry.isShape(element)) {
+                this.elementRenderer.renderShape(this.ctx, localElement);
+            } else if (element.type === 'path') {
+                this.elementRenderer.renderPath(this.ctx, localElement);
             }
+            this.ctx.globalAlpha = 1;
+            
+            const isEditingPath = !this.exporting && !isPortalCopy && this.globalManager.getEditingPath() === element.id;
             
             // Render selection if this element is selected (either single or multi-selection)
-            if (this.globalManager.isSelected(element.id)) {
+            if (!this.exporting && !selectedGroupId && !isPortalCopy && this.globalManager.isSelected(element.id)) {
                 this.renderSelection(localElement);
                 // Only render resize handles for single selection AND not in crop mode
                 const selectedElements = this.globalManager.getSelectedElements();
-                if (!this.cropMode && (selectedElements.length === 1 || 
+                if (!this.cropMode && !element.locked && !isEditingPath && (selectedElements.length === 1 || 
                     (this.globalManager.getSelectedElement()?.id === element.id))) {
                     this.renderResizeHandles(localElement);
+                    this.renderRotateHandle(ElementGeometry.getVisibleRect(localElement));
                 }
             }
             
+            if (isEditingPath) {
+                this.renderPathAnchors(localElement);
+            }
+            
             this.ctx.restore();
         }
         
+        if (!this.exporting) {
+            const enteredGroupId = this.globalManager.getEnteredGroup();
+            if (enteredGroupId) {
+                this.renderGroupOutline(enteredGroupId);
+            }
+            if (selectedGroupId) {
+                this.renderGroupSelection(selectedGroupId);
+            }
+        }
+        
         // Render selection rectangle if dragging
-        if (this.isSelectionDragging) {
+        if (this.isSelectionDragging && !this.exporting) {
             this.renderSelectionRectangle();
         }
+        
+        if (!this.exporting) {
+            this.renderLayoutGrid();
+            this.renderGuides();
+            this.renderSnapGuides();
+            this.renderPortalSides();
+        }
     }
     
-    private renderSelectionRectangle(): void {
-        const localStart = this.globalToLocal(this.selectionStartPoint.x, this.selectionStartPoint.y);
-        const localEnd = this.globalToLocal(this.selectionEndPoint.x, this.selectionEndPoint.y);
-        
-        const x = Math.min(localStart.x, localEnd.x);
-        const y = Math.min(localStart.y, localEnd.y);
-        const width = Math.abs(localEnd.x - localStart.x);
-        const height = Math.abs(localEnd.y - localStart.y);
-        
+    // Sides of this canvas that lead through a portal (purple; grey while that direction is off)
+    private renderPortalSides(): void {
+        const linkManager = (window as any).multiCanvasManager?.getLinkManager();
+        const portals: CanvasLink[] = linkManager ? linkManager.getLinksFrom(this.canvas.id, 'portal') : [];
+        if (portals.length === 0) return;
+        
+        const { width, height } = this.canvas;
+        const lineWidth = 4 / (this.scale * this.zoomLevel);
         this.ctx.save();
-        this.ctx.strokeStyle = '#0066ff';
-        this.ctx.lineWidth = 1;
-        this.ctx.setLineDash([4, 4]);
-        this.ctx.strokeRect(x, y, width, height);
-        
-        // Draw a semi-transparent fill
-        this.ctx.fillStyle = 'rgba(0, 102, 255, 0.1)';
-        this.ctx.fillRect(x, y, width, height);
-        this.ctx.restore();
+        this.ctx.lineWidth = lineWidth;
+        this.ctx.setLineDash([lineWidth * 2, lineWidth]);
+        portals.forEach(portal => {
+            this.ctx.strokeStyle = portal.enabled ? '#805ad5' : '#a0aec0';
+            const inset = lineWidth / 2;
+            this.ctx.beginPath();
+            if (portal.side === 'left' || portal.side === 'right') {
+                const x = portal.side === 'left' ? inset : width - inset;
+                this.ctx.moveTo(x, 0);
+                this.ctx.lineTo(x, height);
+            } else {
+                const y = portal.side === 'top' ? inset : height - inset;
+                this.ctx.moveTo(0, y);
+                this.ctx.lineTo(width, y);
+            }
+            this.ctx.stroke();
+        });
+        this.ctx.restore();
     }
-
-    private renderText(element: CanvasElement): void {
-        // Don't skip rendering - always show text even during editing
-        // This allows the text to remain visible behind the edit overlay
+    
+    // Per-canvas guides move with the canvas (local position); global guides stay put in the grid
+    private moveGuide(guideId: string, localPoint: Point, globalPoint: Point): void {
+        const guideManager = this.getGuideManager();
+        const guide = guideManager?.getGuides().find(g => g.id === guideId);
+        if (!guideManager || !guide) return;
+        const point = guide.canvasId ? localPoint : globalPoint;
+        guideManager.moveGuide(guideId, guide.axis === 'x' ? point.x : point.y);
+    }
+    
+    // Margin box and column/row bands of this canvas's layout grid
+    private renderLayoutGrid(): void {
+        const guideManager = this.getGuideManager();
+        const data = (window as any).multiCanvasManager?.getCanvasData(this.canvas.id);
+        const grid = data?.layoutGrid;
+        if (!guideManager?.isVisible() || !grid) return;
+        
+        const { width, height } = this.canvas;
+        const { columns, rows } = GuideManager.getLayoutTracks(grid, width, height);
+        this.ctx.save();
+        this.ctx.fillStyle = 'rgba(229, 62, 62, 0.08)';
+        if (grid.columns > 0) {
+            columns.forEach(([start, end]) => this.ctx.fillRect(start, 0, end - start, height));
+        }
+        if (grid.rows > 0) {
+            rows.forEach(([start, end]) => this.ctx.fillRect(0, start, width, end - start));
+        }
+        if (grid.margin > 0) {
+            this.ctx.strokeStyle = 'rgba(229, 62, 62, 0.6)';
+            this.ctx.lineWidth = 1 / (this.scale * this.zoomLevel);
+            this.ctx.setLineDash([4 / (this.scale * this.zoomLevel), 4 / (this.scale * this.zoomLevel)]);
+            this.ctx.strokeRect(grid.margin, grid.margin, width - grid.margin * 2, height - grid.margin * 2);
+        }
+        this.ctx.restore();
+    }
+    
+    // Ruler guides (cyan), including the one being pulled out of a ruler
+    private renderGuides(): void {
+        const guideManager = this.getGuideManager();
+        if (!guideManager) return;
+        const guides = guideManager.getGuidesForCanvas(this.canvas.id);
+        if (guides.length === 0) return;
+        
+        const preview = guideManager.getPreview();
+        this.ctx.save();
+        this.ctx.lineWidth = 1 / (this.scale * this.zoomLevel);
+        guides.forEach(guide => {
+            const position = guide.canvasId ? guide.position : guide.position - (guide.axis === 'x' ? this.offsetX : this.offsetY);
+            this.ctx.strokeStyle = guide === preview ? 'rgba(0, 181, 216, 0.5)' : '#00b5d8';
+            this.ctx.beginPath();
+            if (guide.axis === 'x') {
+                this.ctx.moveTo(position, 0);
+                this.ctx.lineTo(position, this.canvas.height);
+            } else {
+                this.ctx.moveTo(0, position);
+                this.ctx.lineTo(this.canvas.width, position);
+            }
+            this.ctx.stroke();
+        });
+        this.ctx.restore();
+    }
+    
+    // Magenta guides and equal-spacing markers from the current drag or resize (global, shared by all canvases)
+    private renderSnapGuides(): void {
+        const snapManager = this.getSnapManager();
+        if (!snapManager) return;
+        const guides = snapManager.getGuides();
+        const spacings = snapManager.getSpacings();
+        if (guides.length === 0 && spacings.length === 0) return;
         
         this.ctx.save();
+        this.ctx.strokeStyle = '#ff00ff';
+        this.ctx.fillStyle = '#ff00ff';
+        this.ctx.lineWidth = 1;
+        this.ctx.setLineDash([]);
+        
+        guides.forEach(guide => {
+            const from = guide.axis === 'x'
+                ? this.globalToLocal(guide.position, guide.start)
+                : this.globalToLocal(guide.start, guide.position);
+            const to = guide.axis === 'x'
+                ? this.globalToLocal(guide.position, guide.end)
+                : this.globalToLocal(guide.end, guide.position);
+            this.ctx.beginPath();
+            this.ctx.moveTo(from.x, from.y);
+            this.ctx.lineTo(to.x, to.y);
+            this.ctx.stroke();
+        });
         
-        const style = element.fontStyle === 'italic' ? 'italic ' : '';
-        const weight = element.fontWeight === 'bold' ? 'bold ' : '';
-        this.ctx.font = `${style}${weight}${element.fontSize}px ${element.fontFamily}`;
-        this.ctx.fillStyle = element.color || '#000000';
+        this.ctx.font = '11px Arial';
+        this.ctx.textAlign = 'center';
+        this.ctx.textBaseline = 'bottom';
+        spacings.forEach(spacing => {
+            const horizontal = spacing.axis === 'x';
+            const from = horizontal ? this.globalToLocal(spacing.from, spacing.at) : this.globalToLocal(spacing.at, spacing.from);
+            const to = horizontal ? this.globalToLocal(spacing.to, spacing.at) : this.globalToLocal(spacing.at, spacing.to);
+            const tick = 4;
+            this.ctx.beginPath();
+            this.ctx.moveTo(from.x, from.y);
+            this.ctx.lineTo(to.x, to.y);
+            [from, to].forEach(end => {
+                this.ctx.moveTo(end.x - (horizontal ? 0 : tick), end.y - (horizontal ? tick : 0));
+                this.ctx.lineTo(end.x + (horizontal ? 0 : tick), end.y + (horizontal ? tick : 0));
+            });
+            this.ctx.stroke();
+            const label = Math.round(spacing.to - spacing.from).toString();
+            this.ctx.fillText(label, (from.x + to.x) / 2 + (horizontal ? 0 : 14), (from.y + to.y) / 2 - (horizontal ? 3 : -5));
+        });
+        this.ctx.restore();
+    }
+    
+    // Rasterize this canvas into a new surface at the given scale, without selection or crop UI
+    public renderToCanvas(scaleX: number, scaleY: number = scaleX): HTMLCanvasElement {
+        const output = document.createElement('canvas');
+        output.width = Math.max(1, Math.round(this.canvas.width * scaleX));
+        output.height = Math.max(1, Math.round(this.canvas.height * scaleY));
+        const context = output.getContext('2d');
+        if (!context) {
+            throw new Error('Failed to get canvas context');
+        }
+        context.scale(scaleX, scaleY);
         
-        // Handle multi-line text
-        const lines = element.content.split('\n');
-        const lineHeight = (element.fontSize || 24) * 1.2;
+        // Reuse the normal render pipeline by pointing it at the export surface
+        const screenContext = this.ctx;
+        this.ctx = context;
+        this.exporting = true;
+        try {
+            this.render();
+        } finally {
+            this.ctx = screenContext;
+            this.exporting = false;
+        }
+        return output;
+    }
+    
+    private renderSelectionRectangle(): void {
+        const localStart = this.globalToLocal(this.selectionStartPoint.x, this.selectionStartPoint.y);
+        const localEnd = this.globalToLocal(this.selectionEndPoint.x, this.selectionEndPoint.y);
         
-        // Calculate total width and height
-        let maxWidth = 0;
-        lines.forEach(line => {
-            const metrics = this.ctx.measureText(line);
-            maxWidth = Math.max(maxWidth, metrics.width);
-        });
+        const x = Math.min(localStart.x, localEnd.x);
+        const y = Math.min(localStart.y, localEnd.y);
+        const width = Math.abs(localEnd.x - localStart.x);
+        const height = Math.abs(localEnd.y - localStart.y);
         
-        element.width = maxWidth + 10; // Reduced padding
-        element.height = lineHeight * lines.length;
-        
-        // Render each line - allow rendering outside canvas bounds
-        lines.forEach((line, index) => {
-            let textX = element.x + 5;
-            if (element.textAlign === 'center') {
-                textX = element.x + element.width / 2;
-                this.ctx.textAlign = 'center';
-            } else if (element.textAlign === 'right') {
-                textX = element.x + element.width - 5;
-                this.ctx.textAlign = 'right';
-            } else {
-                this.ctx.textAlign = 'left';
-            }
-            
-            const textY = element.y + lineHeight * (index + 0.5);
-            this.ctx.textBaseline = 'middle';
-            
-            // Draw text even if it goes outside canvas bounds
-            this.ctx.fillText(line, textX, textY);
-        });
+        this.ctx.save();
+        this.ctx.strokeStyle = '#0066ff';
+        this.ctx.lineWidth = 1;
+        this.ctx.setLineDash([4, 4]);
+        this.ctx.strokeRect(x, y, width, height);
         
+        // Draw a semi-transparent fill
+        this.ctx.fillStyle = 'rgba(0, 102, 255, 0.1)';
+        this.ctx.fillRect(x, y, width, height);
         this.ctx.restore();
     }
 
+    private renderText(element: CanvasElement): void {
+        // Don't skip rendering - always show text even during editing
+        // This allows the text to remain visible behind the edit overlay
+        this.elementRenderer.renderText(this.ctx, element);
+    }
+
     private renderImage(element: CanvasElement): void {
         if (element.imageElement) {
             const selected = this.globalManager.getSelectedElement();
-            const isBeingCropped = this.cropMode && selected?.id === element.id;
+            const isBeingCropped = !this.exporting && this.cropMode && selected?.id === element.id;
             
             // In crop mode, always show the full image; otherwise show cropped if crop is applied
-            if (!isBeingCropped && element.cropX !== undefined && element.cropY !== undefined && 
-                element.cropWidth !== undefined && element.cropHeight !== undefined) {
-                // Apply clipping mask to show only cropped area
-                this.ctx.save();
-                
-                // Create clipping rectangle for the cropped area
-                this.ctx.beginPath();
-                this.ctx.rect(
-                    element.x + element.cropX,
-                    element.y + element.cropY,
-                    element.cropWidth,
-                    element.cropHeight
-                );
-                this.ctx.clip();
-                
-                // Draw the full image (but only cropped area will be visible due to clipping)
-                this.ctx.drawImage(
-                    element.imageElement,
-                    element.x,
-                    element.y,
-                    element.width,
-                    element.height
-                );
-                
-                this.ctx.restore();
-            } else {
-                // Render full image (always in crop mode, or when no crop is set)
-                this.ctx.drawImage(
-                    element.imageElement,
-                    element.x,
-                    element.y,
-                    element.width,
-                    element.height
-                );
-            }
+            this.elementRenderer.renderImage(this.ctx, element, isBeingCropped);
             
             // Render crop overlay if in crop mode
             if (isBeingCropped) {
@@ -2371,9 +3085,500 @@ export class CanvasManager {
         });
     }
     
+    // Circle on a stem above the top edge of `rect` (local coordinates, current transform)
+    private renderRotateHandle(rect: { x: number; y: number; width: number; height: number }): void {
+        const x = rect.x + rect.width / 2;
+        const y = rect.y - this.rotateHandleOffset;
+        
+        this.ctx.strokeStyle = '#3182ce';
+        this.ctx.lineWidth = 1;
+        this.ctx.beginPath();
+        this.ctx.moveTo(x, rect.y);
+        this.ctx.lineTo(x, y);
+        this.ctx.stroke();
+        
+        this.ctx.fillStyle = 'white';
+        this.ctx.lineWidth = 2;
+        this.ctx.beginPath();
+        this.ctx.arc(x, y, 6, 0, Math.PI * 2);
+        this.ctx.fill();
+        this.ctx.stroke();
+    }
+    
+    // ---- Pen and path editing ----
+    
+    private startPenStroke(point: Point): void {
+        this.globalManager.getHistory().beginTransaction('draw-path');
+        const element: CanvasElement = {
+            id: `element-${Date.now()}`,
+            type: 'path',
+            x: point.x,
+            y: point.y,
+            width: 0,
+            height: 0,
+            content: '',
+            canvasId: this.canvas.id,
+            strokeColor: '#2d3748',
+            strokeWidth: 3,
+            strokeDash: 'solid',
+            pathPoints: [{ x: point.x, y: point.y }]
+        };
+        this.globalManager.addElement(element);
+        this.penState = { isDrawing: true, elementId: element.id, samples: [point] };
+        document.dispatchEvent(new CustomEvent('element-moved'));
+    }
+    
+    // While drawing the raw samples are shown; smoothing happens once on release
+    private continuePenStroke(point: Point): void {
+        const { elementId, samples } = this.penState;
+        const last = samples[samples.length - 1];
+        if (!elementId || Math.hypot(point.x - last.x, point.y - last.y) < 2) return;
+        
+        samples.push(point);
+        const pathPoints = samples.map(sample => ({ x: sample.x, y: sample.y }));
+        this.globalManager.updateElement(elementId, { pathPoints, ...PathGeometry.getBounds(pathPoints) });
+        document.dispatchEvent(new CustomEvent('element-moved'));
+    }
+    
+    private finishPenStroke(): void {
+        const { elementId, samples } = this.penState;
+        this.penState = { isDrawing: false, elementId: null, samples: [] };
+        
+        if (elementId) {
+            const pathPoints = PathGeometry.smooth(samples);
+            this.globalManager.updateElement(elementId, { pathPoints, ...PathGeometry.getBounds(pathPoints) });
+            this.globalManager.clearSelection();
+            this.globalManager.setSelectedElement(elementId);
+        }
+        this.globalManager.getHistory().endTransaction();
+        
+        this.updateTextToolbar();
+        document.dispatchEvent(new CustomEvent('selection-changed', {
+            detail: { element: this.globalManager.getSelectedElement() }
+        }));
+        document.dispatchEvent(new CustomEvent('element-moved'));
+    }
+    
+    private startPathEditing(element: CanvasElement): void {
+        if (element.locked) return;
+        this.globalManager.setEditingPath(element.id);
+        this.globalManager.clearSelection();
+        this.globalManager.setSelectedElement(element.id);
+        this.updateTextToolbar();
+        document.dispatchEvent(new CustomEvent('selection-changed', {
+            detail: { element: element }
+        }));
+        document.dispatchEvent(new CustomEvent('element-moved')); // Re-render every canvas
+    }
+    
+    private stopPathEditing(): void {
+        this.globalManager.setEditingPath(null);
+        document.dispatchEvent(new CustomEvent('element-moved'));
+    }
+    
+    private getEditingPathElement(): CanvasElement | null {
+        const elementId = this.globalManager.getEditingPath();
+        const element = elementId ? this.globalManager.getElement(elementId) : undefined;
+        return element && element.type === 'path' && !element.locked ? element : null;
+    }
+    
+    private createAnchorDragState(): AnchorDragState {
+        return { isDragging: false, part: null, index: -1, original: null, startPoint: { x: 0, y: 0 } };
+    }
+    
+    // Handles are checked before anchors since they are drawn on top
+    private getPathPartAt(element: CanvasElement, localPoint: Point): { index: number; part: PathPart } | null {
+        const globalPoint = this.localToGlobal(localPoint.x, localPoint.y);
+        const point = ElementGeometry.toElementFrame(element, globalPoint);
+        const radius = 8 / this.scale;
+        const points = element.pathPoints || [];
+        const near = (target?: Point) => !!target && Math.hypot(point.x - target.x, point.y - target.y) <= radius;
+        
+        for (let i = points.length - 1; i >= 0; i--) {
+            if (near(points[i].handleOut)) return { index: i, part: 'handleOut' };
+            if (near(points[i].handleIn)) return { index: i, part: 'handleIn' };
+        }
+        for (let i = points.length - 1; i >= 0; i--) {
+            if (near(points[i])) return { index: i, part: 'anchor' };
+        }
+        return null;
+    }
+    
+    private startAnchorDrag(elementId: string, localPoint: Point, globalPoint: Point): boolean {
+        const element = this.getEditingPathElement();
+        if (!element || element.id !== elementId) return false;
+        const hit = this.getPathPartAt(element, localPoint);
+        if (!hit) return false;
+        
+        this.globalManager.getHistory().beginTransaction('edit-path');
+        this.anchorDrag = {
+            isDragging: true,
+            part: hit.part,
+            index: hit.index,
+            original: { ...element },
+            startPoint: ElementGeometry.toElementFrame(element, globalPoint)
+        };
+        return true;
+    }
+    
+    // Moving an anchor carries its handles; moving a handle mirrors the opposite one (Alt breaks the pair)
+    private handleAnchorDrag(globalPoint: Point, breakHandles: boolean): void {
+        const { original, part, index, startPoint } = this.anchorDrag;
+        if (!original || !original.pathPoints || !part) return;
+        
+        const framePoint = ElementGeometry.toElementFrame(original, globalPoint);
+        const dx = framePoint.x - startPoint.x;
+        const dy = framePoint.y - startPoint.y;
+        const move = (p: Point) => ({ x: p.x + dx, y: p.y + dy });
+        
+        const points = original.pathPoints.slice();
+        const source = points[index];
+        let updated: PathPoint;
+        if (part === 'anchor') {
+            updated = {
+                ...move(source),
+                handleIn: source.handleIn && move(source.handleIn),
+                handleOut: source.handleOut && move(source.handleOut)
+            };
+        } else {
+            const opposite = part === 'handleIn' ? 'handleOut' : 'handleIn';
+            const handle = move(source[part]!);
+            updated = { ...source, [part]: handle };
+            const other = source[opposite];
+            if (other && !breakHandles) {
+                const length = Math.hypot(other.x - source.x, other.y - source.y);
+                const angle = Math.atan2(source.y - handle.y, source.x - handle.x);
+                updated[opposite] = { x: source.x + Math.cos(angle) * length, y: source.y + Math.sin(angle) * length };
+            }
+        }
+        points[index] = updated;
+        
+        // The box follows the curve, which moves the rotation pivot; shift everything so
+        // the untouched points stay where they are on screen
+        let pathPoints = points;
+        let bounds = PathGeometry.getBounds(points);
+        const rotation = ElementGeometry.getRotation(original);
+        if (rotation) {
+            const center = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+            const target = ElementGeometry.rotatePoint(center, ElementGeometry.getCenter(original), rotation);
+            const shiftX = target.x - center.x;
+            const shiftY = target.y - center.y;
+            pathPoints = PathGeometry.translate(points, shiftX, shiftY);
+            bounds = { ...bounds, x: bounds.x + shiftX, y: bounds.y + shiftY };
+        }
+        
+        this.globalManager.updateElement(original.id, { pathPoints, ...bounds });
+        document.dispatchEvent(new CustomEvent('element-moved'));
+    }
+    
+    // Anchor squares and handle circles (local coordinates, inside the element's rotated frame)
+    private renderPathAnchors(element: CanvasElement): void {
+        const points = element.pathPoints || [];
+        
+        this.ctx.strokeStyle = '#3182ce';
+        this.ctx.fillStyle = 'white';
+        this.ctx.lineWidth = 1;
+        this.ctx.setLineDash([]);
+        points.forEach(point => {
+            [point.handleIn, point.handleOut].forEach(handle => {
+                if (!handle) return;
+                this.ctx.beginPath();
+                this.ctx.moveTo(point.x, point.y);
+                this.ctx.lineTo(handle.x, handle.y);
+                this.ctx.stroke();
+                this.ctx.beginPath();
+                this.ctx.arc(handle.x, handle.y, 4, 0, Math.PI * 2);
+                this.ctx.fill();
+                this.ctx.stroke();
+            });
+        });
+        points.forEach(point => {
+            this.ctx.fillRect(point.x - 4, point.y - 4, 8, 8);
+            this.ctx.strokeRect(point.x - 4, point.y - 4, 8, 8);
+        });
+    }
+    
+    // ---- Groups ----
+    
+    private createGroupTransformState(): GroupTransformState {
+        return {
+            mode: null,
+            groupId: null,
+            handle: null,
+            startPoint: { x: 0, y: 0 },
+            startAngle: 0,
+            bounds: { x: 0, y: 0, width: 0, height: 0 },
+            originals: new Map()
+        };
+    }
+    
+    // The group whose members make up exactly the current selection (entered groups excluded)
+    private getSelectedGroupId(): string | null {
+        const ids = this.getSelectedIds();
+        if (ids.length < 2) return null;
+        
+        const groupId = this.globalManager.getElement(ids[0])?.groupId;
+        if (!groupId || groupId === this.globalManager.getEnteredGroup()) return null;
+        if (!ids.every(id => this.globalManager.getElement(id)?.groupId === groupId)) return null;
+        return this.globalManager.getGroupMembers(groupId).length === ids.length ? groupId : null;
+    }
+    
+    // Axis-aligned global box around all (rotated) members
+    private getGroupBounds(groupId: string): { x: number; y: number; width: number; height: number } | null {
+        const members = this.globalManager.getGroupMembers(groupId);
+        if (members.length === 0) return null;
+        
+        const boxes = members.map(member => ElementGeometry.getBounds(member));
+        const left = Math.min(...boxes.map(box => box.x));
+        const top = Math.min(...boxes.map(box => box.y));
+        const right = Math.max(...boxes.map(box => box.x + box.width));
+        const bottom = Math.max(...boxes.map(box => box.y + box.height));
+        return { x: left, y: top, width: right - left, height: bottom - top };
+    }
+    
+    private getGroupHandles(bounds: { x: number; y: number; width: number; height: number }): { handle: ResizeHandle; x: number; y: number }[] {
+        const { x, y, width, height } = bounds;
+        return [
+            { handle: 'nw', x: x, y: y },
+            { handle: 'n', x: x + width / 2, y: y },
+            { handle: 'ne', x: x + width, y: y },
+            { handle: 'e', x: x + width, y: y + height / 2 },
+            { handle: 'se', x: x + width, y: y + height },
+            { handle: 's', x: x + width / 2, y: y + height },
+            { handle: 'sw', x: x, y: y + height },
+            { handle: 'w', x: x, y: y + height / 2 }
+        ];
+    }
+    
+    // Which group handle (if any) is under the point: 'rotate' or a resize handle
+    private getGroupHandleAt(groupId: string, localPoint: Point): ResizeHandle | 'rotate' | null {
+        const bounds = this.getGroupBounds(groupId);
+        if (!bounds) return null;
+        
+        const point = this.localToGlobal(localPoint.x, localPoint.y);
+        const rotateX = bounds.x + bounds.width / 2;
+        const rotateY = bounds.y - this.rotateHandleOffset;
+        if (Math.hypot(point.x - rotateX, point.y - rotateY) <= 12 / this.scale) {
+            return 'rotate';
+        }
+        
+        const handleSize = 20 / this.scale;
+        const hit = this.getGroupHandles(bounds).find(h => Math.hypot(point.x - h.x, point.y - h.y) <= handleSize);
+        return hit ? hit.handle : null;
+    }
+    
+    private getGroupHandleCursor(groupId: string, localPoint: Point): string | null {
+        const handle = this.getGroupHandleAt(groupId, localPoint);
+        if (!handle) return null;
+        return handle === 'rotate' ? 'grab' : this.getCursorForHandle(handle);
+    }
+    
+    private startGroupTransform(groupId: string, localPoint: Point, globalPoint: Point): boolean {
+        const handle = this.getGroupHandleAt(groupId, localPoint);
+        const bounds = this.getGroupBounds(groupId);
+        if (!handle || !bounds) return false;
+        
+        const originals: Map<string, CanvasElement> = new Map();
+        this.globalManager.getGroupMembers(groupId).forEach(member => originals.set(member.id, { ...member }));
+        
+        const mode = handle === 'rotate' ? 'rotate' : 'resize';
+        this.globalManager.getHistory().beginTransaction(mode);
+        this.groupTransform = {
+            mode,
+            groupId,
+            handle: handle === 'rotate' ? null : handle,
+            startPoint: globalPoint,
+            startAngle: this.getAngle({ x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 }, globalPoint),
+            bounds,
+            originals
+        };
+        if (mode === 'rotate') {
+            this.canvas.style.cursor = 'grabbing';
+        }
+        return true;
+    }
+    
+    private handleGroupTransform(point: Point, snap: boolean): void {
+        const { mode, bounds, originals } = this.groupTransform;
+        const center = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+        
+        if (mode === 'rotate') {
+            let delta = this.getAngle(center, point) - this.groupTransform.startAngle;
+            // Shift snaps the turn to 15° steps
+            if (snap) {
+                delta = Math.round(delta / 15) * 15;
+            }
+            originals.forEach(original => {
+                if (original.locked) return;
+                const memberCenter = ElementGeometry.rotatePoint(ElementGeometry.getCenter(original), center, delta);
+                const rotation = (((ElementGeometry.getRotation(original) + delta) % 360) + 360) % 360;
+                this.globalManager.updateElement(original.id, {
+                    x: memberCenter.x - original.width / 2,
+                    y: memberCenter.y - original.height / 2,
+                    rotation
+                });
+            });
+        } else if (mode === 'resize' && this.groupTransform.handle) {
+            const box = this.getResizedGroupBox(point);
+            const isCorner = ['nw', 'ne', 'se', 'sw'].includes(this.groupTransform.handle);
+            const scaleX = box.width / bounds.width;
+            const scaleY = box.height / bounds.height;
+            
+            originals.forEach(original => {
+                if (original.locked) return;
+                const memberCenter = ElementGeometry.getCenter(original);
+                const newCenter = {
+                    x: box.x + (memberCenter.x - bounds.x) * scaleX,
+                    y: box.y + (memberCenter.y - bounds.y) * scaleY
+                };
+                
+                // Text size follows its font, so edge handles only move text members
+                const keepSize = original.type === 'text' && !isCorner;
+                const width = keepSize ? original.width : original.width * scaleX;
+                const height = keepSize ? original.height : original.height * scaleY;
+                const updates: Partial<CanvasElement> = {
+                    x: newCenter.x - width / 2,
+                    y: newCenter.y - height / 2,
+                    width,
+                    height
+                };
+                if (original.cropX !== undefined && original.cropY !== undefined &&
+                    original.cropWidth !== undefined && original.cropHeight !== undefined) {
+                    updates.cropX = original.cropX * scaleX;
+                    updates.cropY = original.cropY * scaleY;
+                    updates.cropWidth = original.cropWidth * scaleX;
+                    updates.cropHeight = original.cropHeight * scaleY;
+                }
+                if (original.type === 'text' && original.fontSize && isCorner) {
+                    updates.fontSize = original.fontSize * scaleX;
+                }
+                this.globalManager.updateElement(original.id, updates);
+            });
+        }
+        
+        // Trigger re-render on all canvases
+        document.dispatchEvent(new CustomEvent('element-moved'));
+    }
+    
+    // Same rules as handleResize: corners keep the aspect ratio, edges resize freely, 20px minimum
+    private getResizedGroupBox(point: Point): { x: number; y: number; width: number; height: number } {
+        const { bounds, startPoint } = this.groupTransform;
+        const handle = this.groupTransform.handle!;
+        const dx = point.x - startPoint.x;
+        const dy = point.y - startPoint.y;
+        
+        let width = bounds.width;
+        let height = bounds.height;
+        if (['nw', 'ne', 'se', 'sw'].includes(handle)) {
+            const aspectRatio = bounds.width / bounds.height;
+            width = Math.max(20, handle.includes('w') ? bounds.width - dx : bounds.width + dx);
+            height = width / aspectRatio;
+        } else {
+            if (handle === 'e') width = Math.max(20, bounds.width + dx);
+            if (handle === 'w') width = Math.max(20, bounds.width - dx);
+            if (handle === 's') height = Math.max(20, bounds.height + dy);
+            if (handle === 'n') height = Math.max(20, bounds.height - dy);
+        }
+        
+        return {
+            x: handle.includes('w') ? bounds.x + bounds.width - width : bounds.x,
+            y: handle.includes('n') ? bounds.y + bounds.height - height : bounds.y,
+            width,
+            height
+        };
+    }
+    
+    private renderGroupSelection(groupId: string): void {
+        const bounds = this.getGroupBounds(groupId);
+        if (!bounds) return;
+        
+        const local = this.globalToLocal(bounds.x, bounds.y);
+        const localBounds = { x: local.x, y: local.y, width: bounds.width, height: bounds.height };
+        
+        this.ctx.save();
+        this.ctx.strokeStyle = '#3182ce';
+        this.ctx.lineWidth = 2;
+        this.ctx.setLineDash([5, 5]);
+        this.ctx.strokeRect(localBounds.x, localBounds.y, localBounds.width, localBounds.height);
+        this.ctx.setLineDash([]);
+        
+        this.ctx.fillStyle = '#3182ce';
+        this.ctx.strokeStyle = 'white';
+        this.ctx.lineWidth = 1;
+        this.getGroupHandles(localBounds).forEach(handle => {
+            this.ctx.fillRect(handle.x - 6, handle.y - 6, 12, 12);
+            this.ctx.strokeRect(handle.x - 6, handle.y - 6, 12, 12);
+        });
+        
+        this.renderRotateHandle(localBounds);
+        this.ctx.restore();
+    }
+    
+    // Faint outline around a group opened for editing
+    private renderGroupOutline(groupId: string): void {
+        const bounds = this.getGroupBounds(groupId);
+        if (!bounds) return;
+        
+        const local = this.globalToLocal(bounds.x, bounds.y);
+        this.ctx.save();
+        this.ctx.strokeStyle = 'rgba(113, 128, 150, 0.8)';
+        this.ctx.lineWidth = 1;
+        this.ctx.setLineDash([3, 3]);
+        this.ctx.strokeRect(local.x - 4, local.y - 4, bounds.width + 8, bounds.height + 8);
+        this.ctx.restore();
+    }
+    
+    // Select an element, or its whole group unless that group is being edited
+    private selectElement(element: CanvasElement, toggle: boolean): void {
+        const ids = this.globalManager.expandToGroups([element.id]);
+        if (toggle) {
+            if (this.globalManager.isSelected(element.id)) {
+                ids.forEach(id => this.globalManager.removeFromSelection(id));
+            } else {
+                ids.forEach(id => this.globalManager.addToSelection(id));
+            }
+        } else {
+            this.globalManager.clearSelection();
+            this.globalManager.setSelectedElement(element.id);
+            if (ids.length > 1) {
+                ids.forEach(id => this.globalManager.addToSelection(id));
+            }
+        }
+    }
+    
+    private selectElements(elements: CanvasElement[]): void {
+        if (elements.length === 0) return;
+        
+        this.globalManager.clearSelection();
+        this.globalManager.setSelectedElement(elements[elements.length - 1].id);
+        if (elements.length > 1) {
+            elements.forEach(element => this.globalManager.addToSelection(element.id));
+        }
+        this.updateTextToolbar();
+    }
+    
+    private groupSelected(): void {
+        const groupId = this.globalManager.groupElements(this.getSelectedIds());
+        if (!groupId) return;
+        
+        this.selectElements(this.globalManager.getGroupMembers(groupId));
+        document.dispatchEvent(new CustomEvent('element-moved')); // Re-render every canvas
+    }
+    
+    private ungroupSelected(): void {
+        const ids = this.globalManager.ungroupElements(this.getSelectedIds());
+        if (ids.length === 0) return;
+        
+        // Released members stay selected as a plain multi-selection
+        this.selectElements(ids
+            .map(id => this.globalManager.getElement(id))
+            .filter((element): element is CanvasElement => element !== undefined));
+        document.dispatchEvent(new CustomEvent('element-moved')); // Re-render every canvas
+    }
+    
     private setupContextMenu(): void {
         // Handle menu item clicks using event delegation
-        this.contextMenu.addEventListener('click', (e) => {
+        this.listen(this.contextMenu, 'click', (e) => {
             const target = e.target as HTMLElement;
             const menuItem = target.closest('.context-menu-item');
             
@@ -2382,8 +3587,20 @@ export class CanvasManager {
             }
             
             e.stopPropagation();
+            
+            // The menu is shared; only the canvas it was opened on performs the action
+            if (!this.isActiveCanvas()) return;
             const action = (menuItem as HTMLElement).dataset.action;
             
+            if (action?.startsWith('align-')) {
+                this.alignSelected(action.slice('align-'.length) as Alignment);
+            } else if (action === 'distribute-horizontal' || action === 'distribute-vertical') {
+                this.distributeSelected(action === 'distribute-horizontal' ? 'horizontal' : 'vertical');
+            } else if (action?.startsWith('span-')) {
+                this.globalManager.setSpanMode(this.getSelectedIds(), action.slice('span-'.length) as SpanMode);
+                document.dispatchEvent(new CustomEvent('element-moved')); // Re-render every canvas
+            }
+            
             switch (action) {
                 case 'bring-front':
                     this.bringToFront();
@@ -2400,6 +3617,12 @@ export class CanvasManager {
                 case 'duplicate':
                     this.duplicateElement();
                     break;
+                case 'group':
+                    this.groupSelected();
+                    break;
+                case 'ungroup':
+                    this.ungroupSelected();
+                    break;
                 case 'copy':
                     this.copyElement();
                     break;
@@ -2422,7 +3645,7 @@ export class CanvasManager {
         });
         
         // Prevent context menu from closing when hovering over submenu
-        this.contextMenu.addEventListener('contextmenu', (e) => {
+        this.listen(this.contextMenu, 'contextmenu', (e) => {
             e.preventDefault();
         });
     }
@@ -2435,6 +3658,11 @@ export class CanvasManager {
             return;
         }
         
+        // Activate this canvas so it owns the menu actions
+        document.dispatchEvent(new CustomEvent('canvas-clicked', {
+            detail: { canvasId: this.canvas.id }
+        }));
+        
         const localPoint = this.getMousePosition(e);
         const globalPoint = this.localToGlobal(localPoint.x, localPoint.y);
         const element = this.globalManager.getElementAtPoint(globalPoint.x, globalPoint.y);
@@ -2443,19 +3671,33 @@ export class CanvasManager {
         this.lastContextMenuPosition = globalPoint;
         
         if (element) {
-            // Show full menu for elements
-            this.globalManager.setSelectedElement(element.id);
+            // Show full menu for elements; keep an existing multi-selection the element belongs to
+            if (this.globalManager.isSelected(element.id)) {
+                this.globalManager.setSelectedElement(element.id);
+            } else {
+                this.selectElement(element, false);
+            }
             this.updateTextToolbar();
             
+            const selectedIds = this.getSelectedIds();
+            const canGroup = selectedIds.length > 1 && !this.getSelectedGroupId();
+            const canUngroup = selectedIds.some(id => this.globalManager.getElement(id)?.groupId);
+            const canDistribute = this.getSelectedUnitCount() >= 3;
+            
             // Show all menu items, but hide crop if not an image
             const menuItems = this.contextMenu.querySelectorAll('.context-menu-item');
             menuItems.forEach(item => {
                 const action = (item as HTMLElement).dataset.action;
-                if (action === 'crop' && element.type !== 'image') {
+                if ((action === 'crop' && element.type !== 'image') ||
+                    (action === 'group' && !canGroup) || (action === 'ungroup' && !canUngroup) ||
+                    (action?.startsWith('distribute-') && !canDistribute)) {
                     (item as HTMLElement).style.display = 'none';
                 } else {
                     (item as HTMLElement).style.display = '';
                 }
+                if (action?.startsWith('span-')) {
+                    item.classList.toggle('checked', action === `span-${element.spanMode || 'follow'}`);
+                }
             });
             const separators = this.contextMenu.querySelectorAll('.context-menu-separator');
             separators.forEach(sep => {
@@ -2470,7 +3712,7 @@ export class CanvasManager {
             const menuItems = this.contextMenu.querySelectorAll('.context-menu-item');
             menuItems.forEach(item => {
                 const action = (item as HTMLElement).dataset.action;
-                if (action === 'paste' && this.clipboard) {
+                if (action === 'paste' && this.clipboard.length > 0) {
                     (item as HTMLElement).style.display = '';
                 } else {
                     (item as HTMLElement).style.display = 'none';
@@ -2512,74 +3754,85 @@ export class CanvasManager {
         this.render();
     }
     
+    // Ids the layer and clipboard commands act on: the multi-selection plus the primary selected
+    // element, grown to whole groups, back-to-front
+    private getSelectedIds(): string[] {
+        return this.globalManager.getSelectionWithGroups();
+    }
+    
+    // Closed groups count once, like they move
+    private getSelectedUnitCount(): number {
+        const enteredGroupId = this.globalManager.getEnteredGroup();
+        return new Set(this.getSelectedIds().map(id => {
+            const groupId = this.globalManager.getElement(id)?.groupId;
+            return groupId && groupId !== enteredGroupId ? groupId : id;
+        })).size;
+    }
+    
+    // From the context menu: several units line up with each other, a single one with its canvas
+    private alignSelected(alignment: Alignment): void {
+        const reference = this.getSelectedUnitCount() > 1 ? 'selection' : 'canvas';
+        (window as any).multiCanvasManager?.alignSelection(alignment, reference);
+    }
+    
+    private distributeSelected(axis: 'horizontal' | 'vertical'): void {
+        (window as any).multiCanvasManager?.distributeSelection(axis, 'selection');
+    }
+    
     private bringToFront(): void {
-        const selectedElement = this.globalManager.getSelectedElement();
-        if (!selectedElement) return;
+        const ids = this.getSelectedIds();
+        if (ids.length === 0) return;
         
-        this.globalManager.moveElementToFront(selectedElement.id);
+        this.globalManager.moveElementsToFront(ids);
     }
     
     private bringForward(): void {
-        const selectedElement = this.globalManager.getSelectedElement();
-        if (!selectedElement) return;
+        const ids = this.getSelectedIds();
+        if (ids.length === 0) return;
         
-        // For now, just move to front (can be improved with layer ordering)
-        this.globalManager.moveElementToFront(selectedElement.id);
+        this.globalManager.moveElementsForward(ids);
     }
     
     private sendBackward(): void {
-        const selectedElement = this.globalManager.getSelectedElement();
-        if (!selectedElement) return;
+        const ids = this.getSelectedIds();
+        if (ids.length === 0) return;
         
-        // For now, just move to back (can be improved with layer ordering)
-        this.globalManager.moveElementToBack(selectedElement.id);
+        this.globalManager.moveElementsBackward(ids);
     }
     
     private sendToBack(): void {
-        const selectedElement = this.globalManager.getSelectedElement();
-        if (!selectedElement) return;
+        const ids = this.getSelectedIds();
+        if (ids.length === 0) return;
         
-        this.globalManager.moveElementToBack(selectedElement.id);
+        this.globalManager.moveElementsToBack(ids);
     }
     
     private copyElement(): void {
-        const selectedElement = this.globalManager.getSelectedElement();
-        if (selectedElement) {
-            this.clipboard = { ...selectedElement };
+        const ids = this.getSelectedIds();
+        if (ids.length > 0) {
+            this.clipboard = ids.map(id => ({ ...this.globalManager.getElement(id)! }));
         }
     }
     
     private pasteElement(): void {
-        if (this.clipboard) {
-            const newElement: CanvasElement = {
-                ...this.clipboard,
-                id: `element-${Date.now()}`,
-                x: this.lastContextMenuPosition.x || this.clipboard.x + 20,
-                y: this.lastContextMenuPosition.y || this.clipboard.y + 20,
-                canvasId: this.canvas.id
-            };
-            
-            // If it's an image, clone the image element
-            if (newElement.type === 'image' && this.clipboard.imageElement) {
-                const img = new Image();
-                img.src = this.clipboard.imageElement.src;
-                newElement.imageElement = img;
-            }
-            
-            this.globalManager.addElement(newElement);
-            this.globalManager.setSelectedElement(newElement.id);
-            this.updateTextToolbar();
+        if (this.clipboard.length > 0) {
+            // Place the copied set's top-left corner at the click position
+            const left = Math.min(...this.clipboard.map(element => element.x));
+            const top = Math.min(...this.clipboard.map(element => element.y));
+            const x = this.lastContextMenuPosition.x || left + 20;
+            const y = this.lastContextMenuPosition.y || top + 20;
+            
+            const copies = this.globalManager.addElementCopies(this.clipboard, x - left, y - top, this.canvas.id);
+            this.selectElements(copies);
         }
     }
     
     private duplicateElement(): void {
-        const selectedElement = this.globalManager.getSelectedElement();
-        if (selectedElement) {
-            const duplicate = this.globalManager.duplicateElement(selectedElement.id, 20, 20);
-            if (duplicate) {
-                this.globalManager.setSelectedElement(duplicate.id);
-                this.updateTextToolbar();
-            }
+        const ids = this.getSelectedIds();
+        if (ids.length > 0) {
+            const sources = ids.map(id => this.globalManager.getElement(id)!);
+            const copies = this.globalManager.addElementCopies(sources, 20, 20);
+            this.selectElements(copies);
         }
     }
     
@@ -2596,11 +3849,13 @@ export class CanvasManager {
         this.cropResizing = false;
         
         if (this.cropMode) {
-            // Store original dimensions if not already stored
+            // Store original dimensions if not already stored (bookkeeping only, not an undo step)
             if (!selectedElement.originalWidth) {
-                this.globalManager.updateElement(selectedElement.id, {
-                    originalWidth: selectedElement.width,
-                    originalHeight: selectedElement.height
+                this.globalManager.getHistory().runUntracked(() => {
+                    this.globalManager.updateElement(selectedElement.id, {
+                        originalWidth: selectedElement.width,
+                        originalHeight: selectedElement.height
+                    });
                 });
             }
             
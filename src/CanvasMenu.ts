@@ -0,0 +1,203 @@
+import { MultiCanvasManager } from './MultiCanvasManager';
+import { CanvasSide } from './types';
+
+const SIDE_LABELS: { [side in CanvasSide]: string } = { left: '왼쪽', right: '오른쪽', top: '위쪽', bottom: '아래쪽' };
+
+// Right-click menu for a whole canvas, opened from its thumbnail or its title. Adding a portal
+// picks its side here, then the other canvas with a click on its thumbnail or title. Spreads are
+// made from the Shift-clicked canvas selection.
+export class CanvasMenu {
+    private multiCanvasManager: MultiCanvasManager;
+    private menu: HTMLElement;
+    private portalList: HTMLElement;
+    private canvasId: string | null = null;  // Canvas the open menu acts on
+    private portalSource: { canvasId: string; side: CanvasSide } | null = null;  // Waiting for the other end
+
+    constructor(multiCanvasManager: MultiCanvasManager) {
+        this.multiCanvasManager = multiCanvasManager;
+        this.menu = document.getElementById('canvasMenu') as HTMLElement;
+        this.portalList = document.getElementById('canvasMenuPortals') as HTMLElement;
+        this.setupEventListeners();
+    }
+
+    private setupEventListeners(): void {
+        const open = (e: MouseEvent) => {
+            const canvasId = this.getCanvasId(e.target as HTMLElement);
+            if (!canvasId) return;
+            e.preventDefault();
+            this.open(canvasId, e.clientX, e.clientY);
+        };
+        // While a portal waits for its other end, the next thumbnail or title click completes it
+        const pick = (e: MouseEvent) => {
+            const canvasId = this.portalSource ? this.getCanvasId(e.target as HTMLElement) : null;
+            if (!canvasId) return;
+            e.preventDefault();
+            e.stopPropagation();
+            this.completePortal(canvasId);
+        };
+        ['thumbnailContainer', 'canvasContainer'].forEach(id => {
+            const container = document.getElementById(id);
+            container?.addEventListener('contextmenu', open);
+            container?.addEventListener('click', pick, true);
+        });
+
+        this.menu?.addEventListener('click', (e) => {
+            const item = (e.target as HTMLElement).closest('.context-menu-item') as HTMLElement | null;
+            const canvasId = this.canvasId;
+            if (!item || !canvasId || item.classList.contains('has-submenu')) return;
+            const action = item.dataset.action;
+            const linkManager = this.multiCanvasManager.getLinkManager();
+            if (action?.startsWith('portal-') && action.slice('portal-'.length) in SIDE_LABELS) {
+                this.startPortal(canvasId, action.slice('portal-'.length) as CanvasSide);
+            }
+            switch (action) {
+                case 'duplicate-right':
+                    this.multiCanvasManager.duplicateCanvas(canvasId, 'right');
+                    break;
+                case 'duplicate-bottom':
+                    this.multiCanvasManager.duplicateCanvas(canvasId, 'bottom');
+                    break;
+                case 'portal-toggle':
+                    linkManager.setEnabled(canvasId, item.dataset.to!, !linkManager.isLinked(canvasId, item.dataset.to!));
+                    break;
+                case 'portal-remove':
+                    linkManager.removePortal(canvasId, item.dataset.to!);
+                    break;
+                case 'spread-create':
+                    this.createSpread();
+                    break;
+                case 'spread-rename':
+                    this.renameSpread(canvasId);
+                    break;
+                case 'spread-dissolve': {
+                    const spread = this.multiCanvasManager.getSpreadManager().getSpreadOf(canvasId);
+                    if (spread) this.multiCanvasManager.getSpreadManager().dissolveSpread(spread.id);
+                    break;
+                }
+            }
+            this.close();
+        });
+
+        // Hide when clicking elsewhere
+        document.addEventListener('click', (e) => {
+            if (this.menu && !this.menu.contains(e.target as Node)) {
+                this.close();
+            }
+        });
+        document.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape') {
+                this.close();
+                this.setPortalSource(null);
+            }
+        });
+    }
+
+    // Thumbnails and titles open this menu; the canvas itself keeps the element menu
+    private getCanvasId(target: HTMLElement): string | null {
+        const thumbnail = target.closest('.thumbnail-item');
+        if (thumbnail) return thumbnail.id.replace(/^thumb-/, '');
+        const title = target.closest('.canvas-title');
+        if (title) return title.parentElement?.id.replace(/^wrapper-/, '') || null;
+        return null;
+    }
+
+    private open(canvasId: string, x: number, y: number): void {
+        if (!this.menu) return;
+        this.canvasId = canvasId;
+        this.setPortalSource(null);
+        this.renderPortals(canvasId);
+        this.updateSpreadItems(canvasId);
+        this.menu.style.left = `${x}px`;
+        this.menu.style.top = `${y}px`;
+        this.menu.style.display = 'block';
+
+        // Keep the menu inside the viewport (thumbnails sit at the bottom of the window)
+        const rect = this.menu.getBoundingClientRect();
+        if (rect.right > window.innerWidth) {
+            this.menu.style.left = `${Math.max(0, window.innerWidth - rect.width - 5)}px`;
+        }
+        if (rect.bottom > window.innerHeight) {
+            this.menu.style.top = `${Math.max(0, window.innerHeight - rect.height - 5)}px`;
+        }
+    }
+
+    // One toggle (this direction on/off) and one remove item per portal leaving the canvas
+    private renderPortals(canvasId: string): void {
+        if (!this.portalList) return;
+        this.portalList.innerHTML = '';
+        this.multiCanvasManager.getLinkManager().getLinksFrom(canvasId, 'portal').forEach(portal => {
+            const name = this.multiCanvasManager.getCanvasData(portal.to)?.name || portal.to;
+            const toggle = document.createElement('div');
+            toggle.className = 'context-menu-item';
+            toggle.classList.toggle('checked', portal.enabled);
+            toggle.dataset.action = 'portal-toggle';
+            toggle.dataset.to = portal.to;
+            toggle.textContent = `🌀 ${SIDE_LABELS[portal.side!]} → ${name}`;
+            const remove = document.createElement('div');
+            remove.className = 'context-menu-item';
+            remove.dataset.action = 'portal-remove';
+            remove.dataset.to = portal.to;
+            remove.textContent = `✂ 포털 해제 (${name})`;
+            this.portalList.append(toggle, remove);
+        });
+    }
+
+    // Making a spread needs a selection this canvas is part of; the others need a spread to act on
+    private updateSpreadItems(canvasId: string): void {
+        const selected = this.multiCanvasManager.getSelectedCanvasIds();
+        const canCreate = selected.length >= 2 && selected.includes(canvasId);
+        const inSpread = !!this.multiCanvasManager.getSpreadManager().getSpreadOf(canvasId);
+        this.menu.querySelectorAll('[data-action^="spread-"]').forEach(item => {
+            const action = (item as HTMLElement).dataset.action;
+            (item as HTMLElement).style.display = (action === 'spread-create' ? canCreate : inSpread) ? '' : 'none';
+        });
+    }
+
+    private createSpread(): void {
+        const spreadManager = this.multiCanvasManager.getSpreadManager();
+        const name = prompt('스프레드 이름', `스프레드 ${spreadManager.getSpreads().length + 1}`);
+        if (name === null) return;
+        spreadManager.createSpread(this.multiCanvasManager.getSelectedCanvasIds(), name.trim() || '스프레드');
+        this.multiCanvasManager.clearCanvasSelection();
+    }
+
+    private renameSpread(canvasId: string): void {
+        const spreadManager = this.multiCanvasManager.getSpreadManager();
+        const spread = spreadManager.getSpreadOf(canvasId);
+        if (!spread) return;
+        const name = prompt('스프레드 이름', spread.name);
+        if (name === null || !name.trim()) return;
+        spreadManager.renameSpread(spread.id, name.trim());
+    }
+
+    private startPortal(canvasId: string, side: CanvasSide): void {
+        if (this.multiCanvasManager.getLinkManager().getPortal(canvasId, side)) {
+            alert(`${SIDE_LABELS[side]} 가장자리에는 이미 포털이 있습니다.`);
+            return;
+        }
+        // Set after this click has finished bubbling, so it does not pick a canvas itself
+        setTimeout(() => this.setPortalSource({ canvasId, side }), 0);
+        console.log(`[PORTAL] Pick the canvas to join to the ${side} side of ${canvasId}`);
+    }
+
+    private completePortal(targetId: string): void {
+        const source = this.portalSource;
+        this.setPortalSource(null);
+        if (!source || targetId === source.canvasId) return;
+        if (!this.multiCanvasManager.getLinkManager().addPortal(source.canvasId, source.side, targetId)) {
+            alert('포털을 연결할 수 없습니다. 이웃한 캔버스이거나, 연결할 가장자리에 이미 이웃 캔버스나 포털이 있습니다.');
+        }
+    }
+
+    private setPortalSource(source: { canvasId: string; side: CanvasSide } | null): void {
+        this.portalSource = source;
+        document.body.classList.toggle('portal-picking', !!source);
+    }
+
+    private close(): void {
+        if (this.menu) {
+            this.menu.style.display = 'none';
+        }
+        this.canvasId = null;
+    }
+}
@@ -0,0 +1,129 @@
+import { MultiCanvasManager } from './MultiCanvasManager';
+import { GridPosition } from './CanvasGridManager';
+
+// Drag and drop of thumbnails and canvas titles to rearrange the grid. Dropping on another
+// canvas (thumbnail or wrapper) swaps the two; dropping on an empty slot, shown in the thumbnail
+// bar while dragging, moves the canvas there. The "move with elements" checkbox decides whether
+// the elements owned by the canvas travel along.
+export class CanvasReorderManager {
+    private multiCanvasManager: MultiCanvasManager;
+    private thumbnailContainer: HTMLElement;
+    private canvasContainer: HTMLElement;
+    private withElementsInput: HTMLInputElement;
+    private draggedCanvasId: string | null = null;
+    private dropTarget: HTMLElement | null = null;
+
+    constructor(multiCanvasManager: MultiCanvasManager) {
+        this.multiCanvasManager = multiCanvasManager;
+        this.thumbnailContainer = document.getElementById('thumbnailContainer') as HTMLElement;
+        this.canvasContainer = document.getElementById('canvasContainer') as HTMLElement;
+        this.withElementsInput = document.getElementById('moveWithElements') as HTMLInputElement;
+        this.setupEventListeners();
+    }
+
+    private setupEventListeners(): void {
+        [this.thumbnailContainer, this.canvasContainer].forEach(container => {
+            container?.addEventListener('dragstart', (e) => this.handleDragStart(e));
+            container?.addEventListener('dragover', (e) => this.handleDragOver(e));
+            container?.addEventListener('drop', (e) => this.handleDrop(e));
+            container?.addEventListener('dragend', () => this.endDrag());
+        });
+    }
+
+    private handleDragStart(e: DragEvent): void {
+        const target = e.target as HTMLElement;
+        let canvasId: string | null = null;
+        if (target.classList?.contains('thumbnail-item')) {
+            canvasId = target.id.replace(/^thumb-/, '');
+        } else if (target.classList?.contains('canvas-title')) {
+            // A title being renamed drags its text, not the canvas
+            if (document.activeElement === target) return;
+            canvasId = target.parentElement?.id.replace(/^wrapper-/, '') || null;
+        }
+        if (!canvasId || !this.multiCanvasManager.getCanvasPosition(canvasId)) return;
+
+        this.draggedCanvasId = canvasId;
+        if (e.dataTransfer) {
+            e.dataTransfer.effectAllowed = 'move';
+            e.dataTransfer.setData('text/plain', canvasId);
+        }
+        // Changing the DOM inside dragstart can cancel the drag in some browsers
+        setTimeout(() => this.showSlots(), 0);
+    }
+
+    private handleDragOver(e: DragEvent): void {
+        if (!this.draggedCanvasId) return;
+        const target = this.getDropTarget(e);
+        this.setDropTarget(target?.element || null);
+        if (target) {
+            e.preventDefault();
+            if (e.dataTransfer) e.dataTransfer.dropEffect = 'move';
+        }
+    }
+
+    private handleDrop(e: DragEvent): void {
+        const canvasId = this.draggedCanvasId;
+        const target = this.getDropTarget(e);
+        this.endDrag();
+        if (!canvasId || !target) return;
+
+        e.preventDefault();
+        const withElements = this.withElementsInput ? this.withElementsInput.checked : true;
+        this.multiCanvasManager.moveCanvas(canvasId, target.position.row, target.position.col, withElements);
+    }
+
+    private endDrag(): void {
+        this.draggedCanvasId = null;
+        this.setDropTarget(null);
+        this.thumbnailContainer?.querySelectorAll('.thumbnail-slot').forEach(slot => slot.remove());
+    }
+
+    // The grid cell under the pointer: an empty slot, another canvas's thumbnail or its wrapper
+    private getDropTarget(e: DragEvent): { element: HTMLElement; position: GridPosition } | null {
+        const target = e.target as HTMLElement;
+        const slot = target.closest('.thumbnail-slot') as HTMLElement | null;
+        if (slot) {
+            return { element: slot, position: { row: Number(slot.dataset.row), col: Number(slot.dataset.col) } };
+        }
+
+        const thumbnail = target.closest('.thumbnail-item') as HTMLElement | null;
+        const wrapper = target.closest('.canvas-wrapper') as HTMLElement | null;
+        const element = thumbnail || wrapper;
+        if (!element) return null;
+        const canvasId = thumbnail ? thumbnail.id.replace(/^thumb-/, '') : wrapper!.id.replace(/^wrapper-/, '');
+        if (canvasId === this.draggedCanvasId) return null;
+        const position = this.multiCanvasManager.getCanvasPosition(canvasId);
+        return position ? { element, position } : null;
+    }
+
+    private setDropTarget(element: HTMLElement | null): void {
+        if (this.dropTarget === element) return;
+        this.dropTarget?.classList.remove('drop-target');
+        this.dropTarget = element;
+        this.dropTarget?.classList.add('drop-target');
+    }
+
+    // Empty cells inside the grid and one ring around it become drop slots in the thumbnail bar
+    private showSlots(): void {
+        if (!this.draggedCanvasId || !this.thumbnailContainer) return;
+        const positions = Array.from(this.multiCanvasManager.getAllCanvases().keys())
+            .map(canvasId => this.multiCanvasManager.getCanvasPosition(canvasId))
+            .filter((position): position is GridPosition => !!position);
+        const maxRow = Math.max(...positions.map(p => p.row)) + 1;
+        const maxCol = Math.max(...positions.map(p => p.col)) + 1;
+
+        const gridManager = this.multiCanvasManager.getGridManager();
+        for (let row = 0; row <= maxRow; row++) {
+            for (let col = 0; col <= maxCol; col++) {
+                if (gridManager.getCanvasAt(row, col)) continue;
+                const slot = document.createElement('div');
+                slot.className = 'thumbnail-slot';
+                slot.dataset.row = row.toString();
+                slot.dataset.col = col.toString();
+                slot.style.gridRow = (row + 1).toString();
+                slot.style.gridColumn = (col + 1).toString();
+                this.thumbnailContainer.appendChild(slot);
+            }
+        }
+    }
+}
@@ -0,0 +1,181 @@
+import { CanvasElement, CanvasLink, LinkKind, ProjectDocument, SerializedCanvas, SerializedElement, SerializedImage, DOCUMENT_SCHEMA_VERSION } from './types';
+
+// Converts elements between their runtime form and the versioned JSON project document
+export class DocumentSerializer {
+    // Replace HTMLImageElement handles with references into a de-duplicated image table
+    public serializeElements(elements: CanvasElement[]): { elements: SerializedElement[]; images: SerializedImage[] } {
+        const images: SerializedImage[] = [];
+        const imageIds: Map<string, string> = new Map(); // dataUrl -> image id
+
+        const registerImage = (source: string, imageElement?: HTMLImageElement): string => {
+            const dataUrl = this.toDataUrl(source, imageElement);
+            let id = imageIds.get(dataUrl);
+            if (!id) {
+                id = `image-${images.length + 1}`;
+                imageIds.set(dataUrl, id);
+                images.push({ id, mimeType: this.getMimeType(dataUrl), dataUrl });
+            }
+            return id;
+        };
+
+        const serialized = elements.map(element => {
+            const { imageElement, originalImageElement, ...rest } = element;
+            const result: SerializedElement = { ...rest };
+
+            if (element.type === 'image') {
+                result.imageId = registerImage(element.content, imageElement);
+                result.content = '';
+
+                const originalSource = element.originalContent || originalImageElement?.src;
+                if (originalSource) {
+                    result.originalImageId = registerImage(originalSource, originalImageElement);
+                    delete result.originalContent;
+                }
+            }
+
+            return result;
+        });
+
+        return { elements: serialized, images };
+    }
+
+    // Rebuild runtime elements, waiting for every referenced image to finish loading
+    public async deserializeElements(elements: SerializedElement[], images: SerializedImage[]): Promise<CanvasElement[]> {
+        const imageTable: Map<string, SerializedImage> = new Map();
+        images.forEach(image => imageTable.set(image.id, image));
+
+        const loaded: Map<string, Promise<HTMLImageElement>> = new Map();
+        const loadImage = (imageId: string): Promise<HTMLImageElement> | null => {
+            const image = imageTable.get(imageId);
+            if (!image) {
+                console.error(`[DOCUMENT] Missing image ${imageId}`);
+                return null;
+            }
+            let promise = loaded.get(imageId);
+            if (!promise) {
+                promise = this.loadImage(image.dataUrl);
+                loaded.set(imageId, promise);
+            }
+            return promise;
+        };
+
+        return Promise.all(elements.map(async serialized => {
+            const { imageId, originalImageId, ...rest } = serialized;
+            const element: CanvasElement = { ...rest };
+
+            if (imageId) {
+                const promise = loadImage(imageId);
+                if (promise) {
+                    element.imageElement = await promise;
+                    element.content = imageTable.get(imageId)!.dataUrl;
+                }
+            }
+
+            if (originalImageId) {
+                const promise = loadImage(originalImageId);
+                if (promise) {
+                    // Each element gets its own handle, like duplicateElement does
+                    const original = await promise;
+                    const img = new Image();
+                    img.src = original.src;
+                    element.originalImageElement = img;
+                }
+            }
+
+            return element;
+        }));
+    }
+
+    // Validate a raw document and upgrade it to the current schema version
+    public migrate(raw: any): ProjectDocument {
+        if (!raw || typeof raw !== 'object') {
+            throw new Error('Invalid project document');
+        }
+
+        const version = raw.schemaVersion;
+        if (!Number.isInteger(version) || version < 1) {
+            throw new Error('Project document has no schema version');
+        }
+        if (version > DOCUMENT_SCHEMA_VERSION) {
+            throw new Error(`Project document version ${version} is newer than supported version ${DOCUMENT_SCHEMA_VERSION}`);
+        }
+
+        if (!Array.isArray(raw.canvases) || raw.canvases.length === 0) {
+            throw new Error('Project document has no canvases');
+        }
+
+        return {
+            schemaVersion: DOCUMENT_SCHEMA_VERSION,
+            canvases: raw.canvases,
+            activeCanvasId: raw.activeCanvasId ?? null,
+            elements: Array.isArray(raw.elements) ? raw.elements : [],
+            images: Array.isArray(raw.images) ? raw.images : [],
+            links: version < 2 ? this.migrateLinks(raw.canvases, raw.links) : (Array.isArray(raw.links) ? raw.links : []),
+            spreads: Array.isArray(raw.spreads) ? raw.spreads : [],
+            guides: Array.isArray(raw.guides) ? raw.guides : [],
+            view: {
+                zoom: raw.view?.zoom ?? 1,
+                panX: raw.view?.panX ?? 0,
+                panY: raw.view?.panY ?? 0
+            }
+        };
+    }
+
+    // Version 1 kept an undirected table (drag handoff) next to per-direction states (rendering).
+    // What users saw was the directional state, which defaulted to on, so that is what carries over.
+    private migrateLinks(canvases: SerializedCanvas[], links: any): CanvasLink[] {
+        const directional: Map<string, boolean> = new Map();
+        (links?.directional ?? []).forEach((link: { from: string; to: string; enabled: boolean }) => {
+            directional.set(`${link.from}>${link.to}`, link.enabled);
+        });
+
+        const result: CanvasLink[] = [];
+        canvases.forEach(from => canvases.forEach(to => {
+            const rows = Math.abs(from.row - to.row);
+            const cols = Math.abs(from.col - to.col);
+            if (rows > 1 || cols > 1 || rows + cols === 0) return;
+            const kind: LinkKind = rows + cols === 1 ? 'edge' : 'corner';
+            result.push({ from: from.id, to: to.id, kind, enabled: directional.get(`${from.id}>${to.id}`) ?? true });
+        }));
+        return result;
+    }
+
+    private toDataUrl(source: string, imageElement?: HTMLImageElement): string {
+        if (source.startsWith('data:') || !imageElement) {
+            return source;
+        }
+
+        // Inline remote/blob sources so the document is self-contained
+        try {
+            const canvas = document.createElement('canvas');
+            canvas.width = imageElement.naturalWidth;
+            canvas.height = imageElement.naturalHeight;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return source;
+            ctx.drawImage(imageElement, 0, 0);
+            return canvas.toDataURL('image/png');
+        } catch (error) {
+            // Cross-origin images taint the canvas; keep the URL as a fallback
+            console.error('[DOCUMENT] Could not inline image, storing URL instead', error);
+            return source;
+        }
+    }
+
+    private getMimeType(dataUrl: string): string {
+        const match = /^data:([^;,]+)/.exec(dataUrl);
+        return match ? match[1] : 'application/octet-stream';
+    }
+
+    private loadImage(src: string): Promise<HTMLImageElement> {
+        return new Promise(resolve => {
+            const img = new Image();
+            img.onload = () => resolve(img);
+            img.onerror = () => {
+                // Keep the element so the rest of the document still loads
+                console.error(`[DOCUMENT] Failed to load image`);
+                resolve(img);
+            };
+            img.src = src;
+        });
+    }
+}
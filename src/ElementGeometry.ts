@@ -0,0 +1,198 @@
+import { CanvasElement, Point, ShapeType } from './types';
+import { PathGeometry } from './PathGeometry';
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// Rotation-aware geometry for elements; rotation is in degrees, clockwise, around the element box center
+export class ElementGeometry {
+    public static getRotation(element: CanvasElement): number {
+        return element.rotation || 0;
+    }
+
+    public static getOpacity(element: CanvasElement): number {
+        return Math.max(0, Math.min(1, element.opacity ?? 1));
+    }
+
+    public static getCenter(element: CanvasElement): Point {
+        return { x: element.x + element.width / 2, y: element.y + element.height / 2 };
+    }
+
+    // The drawn area before rotation: the crop rectangle for cropped images, otherwise the box
+    public static getVisibleRect(element: CanvasElement): Rect {
+        if (element.cropX !== undefined && element.cropY !== undefined &&
+            element.cropWidth !== undefined && element.cropHeight !== undefined) {
+            return {
+                x: element.x + element.cropX,
+                y: element.y + element.cropY,
+                width: element.cropWidth,
+                height: element.cropHeight
+            };
+        }
+        return { x: element.x, y: element.y, width: element.width, height: element.height };
+    }
+
+    public static rotatePoint(point: Point, center: Point, degrees: number): Point {
+        if (!degrees) return { x: point.x, y: point.y };
+        const radians = degrees * Math.PI / 180;
+        const cos = Math.cos(radians);
+        const sin = Math.sin(radians);
+        const dx = point.x - center.x;
+        const dy = point.y - center.y;
+        return {
+            x: center.x + dx * cos - dy * sin,
+            y: center.y + dx * sin + dy * cos
+        };
+    }
+
+    // Map a point into the element's unrotated frame, where its box is axis-aligned again
+    public static toElementFrame(element: CanvasElement, point: Point): Point {
+        return this.rotatePoint(point, this.getCenter(element), -this.getRotation(element));
+    }
+
+    public static getCorners(element: CanvasElement, rect: Rect = this.getVisibleRect(element)): Point[] {
+        const center = this.getCenter(element);
+        const rotation = this.getRotation(element);
+        return [
+            { x: rect.x, y: rect.y },
+            { x: rect.x + rect.width, y: rect.y },
+            { x: rect.x + rect.width, y: rect.y + rect.height },
+            { x: rect.x, y: rect.y + rect.height }
+        ].map(corner => this.rotatePoint(corner, center, rotation));
+    }
+
+    // Axis-aligned box around the rotated visible area
+    public static getBounds(element: CanvasElement): Rect {
+        if (!this.getRotation(element)) {
+            return this.getVisibleRect(element);
+        }
+        const corners = this.getCorners(element);
+        const xs = corners.map(corner => corner.x);
+        const ys = corners.map(corner => corner.y);
+        const x = Math.min(...xs);
+        const y = Math.min(...ys);
+        return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+    }
+
+    // Axis-aligned box around the whole rotated element box, crop included; conservative for culling
+    public static getBoxBounds(element: CanvasElement): Rect {
+        const box = { x: element.x, y: element.y, width: element.width, height: element.height };
+        if (!this.getRotation(element)) {
+            return box;
+        }
+        const corners = this.getCorners(element, box);
+        const xs = corners.map(corner => corner.x);
+        const ys = corners.map(corner => corner.y);
+        const x = Math.min(...xs);
+        const y = Math.min(...ys);
+        return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+    }
+
+    public static isShape(element: CanvasElement): boolean {
+        return element.type === 'rect' || element.type === 'ellipse' || element.type === 'line' || element.type === 'arrow';
+    }
+    
+    // Shapes and paths share the stroke controls
+    public static hasStroke(element: CanvasElement): boolean {
+        return this.isShape(element) || element.type === 'path';
+    }
+    
+    public static isLine(element: CanvasElement): boolean {
+        return element.type === 'line' || element.type === 'arrow';
+    }
+    
+    // Unrotated end points of a line or arrow: left and right middle of its box
+    public static getLineEndpoints(element: CanvasElement): { start: Point; end: Point } {
+        const y = element.y + element.height / 2;
+        return { start: { x: element.x, y }, end: { x: element.x + element.width, y } };
+    }
+    
+    public static getArrowSize(element: CanvasElement): number {
+        return Math.max(10, (element.strokeWidth ?? 2) * 4);
+    }
+    
+    // Triangle for an arrowhead whose tip is at `tip`, pointing away from `tail`
+    public static getArrowHead(tip: Point, tail: Point, size: number): Point[] {
+        const angle = Math.atan2(tip.y - tail.y, tip.x - tail.x);
+        const spread = Math.PI / 7;
+        return [
+            tip,
+            { x: tip.x - size * Math.cos(angle - spread), y: tip.y - size * Math.sin(angle - spread) },
+            { x: tip.x - size * Math.cos(angle + spread), y: tip.y - size * Math.sin(angle + spread) }
+        ];
+    }
+    
+    public static containsPoint(element: CanvasElement, x: number, y: number): boolean {
+        const point = this.toElementFrame(element, { x, y });
+        if (element.type === 'path') {
+            return PathGeometry.distanceToPath(element.pathPoints || [], point) <= (element.strokeWidth ?? 2) / 2 + 4;
+        }
+        if (this.isShape(element)) {
+            return this.shapeContainsPoint(element, element.type as ShapeType, point);
+        }
+        const rect = this.getVisibleRect(element);
+        return point.x >= rect.x && point.x <= rect.x + rect.width &&
+            point.y >= rect.y && point.y <= rect.y + rect.height;
+    }
+    
+    // `point` is in the element's unrotated frame. Unfilled shapes only hit on their outline.
+    private static shapeContainsPoint(element: CanvasElement, type: ShapeType, point: Point): boolean {
+        const tolerance = (element.strokeWidth ?? 2) / 2 + 4;
+        
+        if (type === 'line' || type === 'arrow') {
+            const { start, end } = this.getLineEndpoints(element);
+            return PathGeometry.distanceToSegment(point, start, end) <= tolerance;
+        }
+        
+        if (type === 'ellipse') {
+            const rx = element.width / 2;
+            const ry = element.height / 2;
+            const cx = element.x + rx;
+            const cy = element.y + ry;
+            const within = (radiusX: number, radiusY: number) => radiusX > 0 && radiusY > 0 &&
+                Math.pow((point.x - cx) / radiusX, 2) + Math.pow((point.y - cy) / radiusY, 2) <= 1;
+            if (!within(rx + tolerance, ry + tolerance)) return false;
+            return !!element.fillColor || !within(rx - tolerance, ry - tolerance);
+        }
+        
+        // Rectangle; the outline test ignores rounded corners, which is close enough for picking
+        const inside = (inset: number) =>
+            point.x >= element.x + inset && point.x <= element.x + element.width - inset &&
+            point.y >= element.y + inset && point.y <= element.y + element.height - inset;
+        if (!inside(-tolerance)) return false;
+        return !!element.fillColor || !inside(tolerance);
+    }
+
+    // Separating-axis test between the rotated element and an axis-aligned rectangle
+    public static intersectsRect(element: CanvasElement, rect: Rect): boolean {
+        const bounds = this.getBounds(element);
+        if (bounds.x > rect.x + rect.width || bounds.x + bounds.width < rect.x ||
+            bounds.y > rect.y + rect.height || bounds.y + bounds.height < rect.y) {
+            return false;
+        }
+        if (!this.getRotation(element)) return true;
+
+        // Only the element's own axes remain to be checked
+        const corners = this.getCorners(element);
+        const rectCorners = [
+            { x: rect.x, y: rect.y },
+            { x: rect.x + rect.width, y: rect.y },
+            { x: rect.x + rect.width, y: rect.y + rect.height },
+            { x: rect.x, y: rect.y + rect.height }
+        ];
+        for (let i = 0; i < 2; i++) {
+            const axis = { x: corners[i + 1].x - corners[i].x, y: corners[i + 1].y - corners[i].y };
+            const project = (points: Point[]) => points.map(p => p.x * axis.x + p.y * axis.y);
+            const a = project(corners);
+            const b = project(rectCorners);
+            if (Math.max(...a) < Math.min(...b) || Math.max(...b) < Math.min(...a)) {
+                return false;
+            }
+        }
+        return true;
+    }
+}
@@ -0,0 +1,213 @@
+import { CanvasElement } from './types';
+import { ElementGeometry } from './ElementGeometry';
+
+// Draws element content (no editing UI) into any 2D context; shared by the canvases and exporters
+export class ElementRenderer {
+    // `element` is already in the target context's coordinate space
+    public renderElement(ctx: CanvasRenderingContext2D, element: CanvasElement, showFullImage: boolean = false): void {
+        ctx.save();
+        ctx.globalAlpha *= ElementGeometry.getOpacity(element);
+        this.applyRotation(ctx, element);
+        if (element.type === 'text') {
+            this.renderText(ctx, element);
+        } else if (element.type === 'image' && element.imageElement) {
+            this.renderImage(ctx, element, showFullImage);
+        } else if (ElementGeometry.isShape(element)) {
+            this.renderShape(ctx, element);
+        } else if (element.type === 'path') {
+            this.renderPath(ctx, element);
+        }
+        ctx.restore();
+    }
+    
+    // Dash lengths scale with the stroke so thick outlines keep their look
+    public static getDashPattern(element: CanvasElement): number[] {
+        const width = element.strokeWidth ?? 2;
+        if (element.strokeDash === 'dashed') return [width * 4, width * 2];
+        if (element.strokeDash === 'dotted') return [width, width * 1.5];
+        return [];
+    }
+
+    // Rotate the context around the element's center so its box can be drawn axis-aligned
+    public applyRotation(ctx: CanvasRenderingContext2D, element: CanvasElement): void {
+        const rotation = ElementGeometry.getRotation(element);
+        if (!rotation) return;
+        
+        const center = ElementGeometry.getCenter(element);
+        ctx.translate(center.x, center.y);
+        ctx.rotate(rotation * Math.PI / 180);
+        ctx.translate(-center.x, -center.y);
+    }
+
+    public renderText(ctx: CanvasRenderingContext2D, element: CanvasElement): void {
+        ctx.save();
+        
+        const style = element.fontStyle === 'italic' ? 'italic ' : '';
+        const weight = element.fontWeight === 'bold' ? 'bold ' : '';
+        ctx.font = `${style}${weight}${element.fontSize}px ${element.fontFamily}`;
+        ctx.fillStyle = element.color || '#000000';
+        
+        // Handle multi-line text
+        const lines = element.content.split('\n');
+        const lineHeight = (element.fontSize || 24) * 1.2;
+        
+        // Calculate total width and height
+        let maxWidth = 0;
+        lines.forEach(line => {
+            const metrics = ctx.measureText(line);
+            maxWidth = Math.max(maxWidth, metrics.width);
+        });
+        
+        element.width = maxWidth + 10; // Reduced padding
+        element.height = lineHeight * lines.length;
+        
+        // Render each line - allow rendering outside canvas bounds
+        lines.forEach((line, index) => {
+            let textX = element.x + 5;
+            if (element.textAlign === 'center') {
+                textX = element.x + element.width / 2;
+                ctx.textAlign = 'center';
+            } else if (element.textAlign === 'right') {
+                textX = element.x + element.width - 5;
+                ctx.textAlign = 'right';
+            } else {
+                ctx.textAlign = 'left';
+            }
+            
+            const textY = element.y + lineHeight * (index + 0.5);
+            ctx.textBaseline = 'middle';
+            
+            // Draw text even if it goes outside canvas bounds
+            ctx.fillText(line, textX, textY);
+        });
+        
+        ctx.restore();
+    }
+
+    public renderShape(ctx: CanvasRenderingContext2D, element: CanvasElement): void {
+        ctx.save();
+        
+        const strokeWidth = element.strokeWidth ?? 2;
+        ctx.lineWidth = strokeWidth;
+        ctx.strokeStyle = element.strokeColor || '#000000';
+        ctx.setLineDash(ElementRenderer.getDashPattern(element));
+        ctx.lineCap = element.strokeDash === 'dotted' ? 'round' : 'butt';
+        
+        if (ElementGeometry.isLine(element)) {
+            const { start, end } = ElementGeometry.getLineEndpoints(element);
+            ctx.beginPath();
+            ctx.moveTo(start.x, start.y);
+            ctx.lineTo(end.x, end.y);
+            ctx.stroke();
+            
+            // Heads are always solid and filled with the stroke color
+            ctx.setLineDash([]);
+            ctx.fillStyle = ctx.strokeStyle;
+            const size = ElementGeometry.getArrowSize(element);
+            if (element.arrowStart) this.fillPolygon(ctx, ElementGeometry.getArrowHead(start, end, size));
+            if (element.arrowEnd) this.fillPolygon(ctx, ElementGeometry.getArrowHead(end, start, size));
+        } else {
+            ctx.beginPath();
+            if (element.type === 'ellipse') {
+                ctx.ellipse(
+                    element.x + element.width / 2, element.y + element.height / 2,
+                    Math.abs(element.width / 2), Math.abs(element.height / 2),
+                    0, 0, Math.PI * 2
+                );
+            } else {
+                const radius = Math.max(0, Math.min(element.cornerRadius || 0, element.width / 2, element.height / 2));
+                ctx.roundRect(element.x, element.y, element.width, element.height, radius);
+            }
+            if (element.fillColor) {
+                ctx.fillStyle = element.fillColor;
+                ctx.fill();
+            }
+            if (strokeWidth > 0) {
+                ctx.stroke();
+            }
+        }
+        
+        ctx.restore();
+    }
+    
+    // Path points must already be in the target context's coordinate space, like x/y
+    public renderPath(ctx: CanvasRenderingContext2D, element: CanvasElement): void {
+        const points = element.pathPoints;
+        if (!points || points.length === 0) return;
+        
+        ctx.save();
+        ctx.lineWidth = element.strokeWidth ?? 2;
+        ctx.strokeStyle = element.strokeColor || '#000000';
+        ctx.setLineDash(ElementRenderer.getDashPattern(element));
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        
+        ctx.beginPath();
+        ctx.moveTo(points[0].x, points[0].y);
+        if (points.length === 1) {
+            // A single click still leaves a dot
+            ctx.lineTo(points[0].x + 0.01, points[0].y);
+        }
+        for (let i = 1; i < points.length; i++) {
+            const from = points[i - 1];
+            const to = points[i];
+            if (from.handleOut || to.handleIn) {
+                const c1 = from.handleOut || from;
+                const c2 = to.handleIn || to;
+                ctx.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, to.x, to.y);
+            } else {
+                ctx.lineTo(to.x, to.y);
+            }
+        }
+        ctx.stroke();
+        ctx.restore();
+    }
+    
+    private fillPolygon(ctx: CanvasRenderingContext2D, points: { x: number; y: number }[]): void {
+        ctx.beginPath();
+        points.forEach((point, index) => index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+        ctx.closePath();
+        ctx.fill();
+    }
+
+    // `showFullImage` ignores the crop (used while the crop is being edited)
+    public renderImage(ctx: CanvasRenderingContext2D, element: CanvasElement, showFullImage: boolean = false): void {
+        if (!element.imageElement) return;
+        
+        if (!showFullImage && element.cropX !== undefined && element.cropY !== undefined && 
+            element.cropWidth !== undefined && element.cropHeight !== undefined) {
+            // Apply clipping mask to show only cropped area
+            ctx.save();
+            
+            // Create clipping rectangle for the cropped area
+            ctx.beginPath();
+            ctx.rect(
+                element.x + element.cropX,
+                element.y + element.cropY,
+                element.cropWidth,
+                element.cropHeight
+            );
+            ctx.clip();
+            
+            // Draw the full image (but only cropped area will be visible due to clipping)
+            ctx.drawImage(
+                element.imageElement,
+                element.x,
+                element.y,
+                element.width,
+                element.height
+            );
+            
+            ctx.restore();
+        } else {
+            // Render full image (while cropping, or when no crop is set)
+            ctx.drawImage(
+                element.imageElement,
+                element.x,
+                element.y,
+                element.width,
+                element.height
+            );
+        }
+    }
+}
@@ -0,0 +1,264 @@
+import { ExportManager, RasterExportOptions, RasterFormat } from './ExportManager';
+import { PdfPageMode } from './PdfExporter';
+import { PanoramaOptions } from './PanoramaExporter';
+import { Spread } from './types';
+
+// Export options dialog: image format, pixel scale or target size, quality; panorama, SVG and PDF
+export class ExportDialog {
+    private exportManager: ExportManager;
+    private getArchiveName: () => string;
+    private dialog: HTMLElement;
+    private formatSelect: HTMLSelectElement;
+    private scaleSelect: HTMLSelectElement;
+    private customSize: HTMLElement;
+    private widthInput: HTMLInputElement;
+    private heightInput: HTMLInputElement;
+    private qualityRow: HTMLElement;
+    private qualityInput: HTMLInputElement;
+    private qualityValue: HTMLElement;
+    private sizePreview: HTMLElement;
+    private panoramaSeams: HTMLInputElement;
+    private panoramaEmpty: HTMLSelectElement;
+    private panoramaScope: HTMLSelectElement;
+    private panoramaFillColor: HTMLInputElement;
+    private panoramaSizePreview: HTMLElement;
+
+    constructor(exportManager: ExportManager, getArchiveName: () => string) {
+        this.exportManager = exportManager;
+        this.getArchiveName = getArchiveName;
+        this.dialog = document.getElementById('exportDialog') as HTMLElement;
+        this.formatSelect = document.getElementById('exportFormat') as HTMLSelectElement;
+        this.scaleSelect = document.getElementById('exportScale') as HTMLSelectElement;
+        this.customSize = document.getElementById('exportCustomSize') as HTMLElement;
+        this.widthInput = document.getElementById('exportWidth') as HTMLInputElement;
+        this.heightInput = document.getElementById('exportHeight') as HTMLInputElement;
+        this.qualityRow = document.getElementById('exportQualityRow') as HTMLElement;
+        this.qualityInput = document.getElementById('exportQuality') as HTMLInputElement;
+        this.qualityValue = document.getElementById('exportQualityValue') as HTMLElement;
+        this.sizePreview = document.getElementById('exportSizePreview') as HTMLElement;
+        this.panoramaSeams = document.getElementById('panoramaSeams') as HTMLInputElement;
+        this.panoramaEmpty = document.getElementById('panoramaEmpty') as HTMLSelectElement;
+        this.panoramaScope = document.getElementById('panoramaScope') as HTMLSelectElement;
+        this.panoramaFillColor = document.getElementById('panoramaFillColor') as HTMLInputElement;
+        this.panoramaSizePreview = document.getElementById('panoramaSizePreview') as HTMLElement;
+        this.setupEventListeners();
+    }
+
+    private setupEventListeners(): void {
+        const exportBtn = document.getElementById('exportBtn');
+        const closeBtn = document.getElementById('exportDialogClose');
+        const exportCurrentBtn = document.getElementById('exportCurrentBtn');
+        const exportAllBtn = document.getElementById('exportAllBtn');
+        const exportPdfBtn = document.getElementById('exportPdfBtn');
+        const exportPanoramaBtn = document.getElementById('exportPanoramaBtn');
+        const pdfMode = document.getElementById('pdfMode') as HTMLSelectElement;
+        const pdfFontInput = document.getElementById('pdfFontInput') as HTMLInputElement;
+
+        exportBtn?.addEventListener('click', () => this.open());
+        closeBtn?.addEventListener('click', () => this.close());
+
+        // Close when clicking the backdrop
+        this.dialog?.addEventListener('click', (e) => {
+            if (e.target === this.dialog) {
+                this.close();
+            }
+        });
+
+        this.formatSelect?.addEventListener('change', () => this.updateControls());
+        this.scaleSelect?.addEventListener('change', () => this.updateControls());
+        this.widthInput?.addEventListener('input', () => this.updateControls());
+        this.heightInput?.addEventListener('input', () => this.updateControls());
+        this.qualityInput?.addEventListener('input', () => this.updateControls());
+        this.panoramaEmpty?.addEventListener('change', () => this.updateControls());
+        this.panoramaScope?.addEventListener('change', () => this.updateControls());
+
+        exportCurrentBtn?.addEventListener('click', () => {
+            const canvasId = (window as any).multiCanvasManager?.getActiveCanvasId();
+            if (!canvasId) return;
+            this.run(() => this.exportManager.exportCanvas(canvasId, this.getOptions()));
+        });
+
+        exportAllBtn?.addEventListener('click', () => {
+            this.run(() => this.exportManager.exportAllCanvases(this.getOptions(), this.getArchiveName()));
+        });
+
+        exportPanoramaBtn?.addEventListener('click', () => {
+            // A spread is saved under its own name
+            const spread = this.getPanoramaSpread();
+            this.run(() => this.exportManager.exportPanorama(this.getPanoramaOptions(), spread ? spread.name : this.getArchiveName()));
+        });
+
+        const exportSvgBtn = document.getElementById('exportSvgBtn');
+        const exportAllSvgBtn = document.getElementById('exportAllSvgBtn');
+        const exportGlobalSvgBtn = document.getElementById('exportGlobalSvgBtn');
+
+        exportSvgBtn?.addEventListener('click', () => {
+            const canvasId = (window as any).multiCanvasManager?.getActiveCanvasId();
+            if (!canvasId) return;
+            this.run(async () => this.exportManager.exportCanvasSvg(canvasId));
+        });
+
+        exportAllSvgBtn?.addEventListener('click', () => {
+            this.run(async () => this.exportManager.exportAllCanvasSvgs(this.getArchiveName()));
+        });
+
+        exportGlobalSvgBtn?.addEventListener('click', () => {
+            this.run(async () => this.exportManager.exportGlobalSvg(this.getArchiveName()));
+        });
+
+        exportPdfBtn?.addEventListener('click', () => {
+            const mode = (pdfMode?.value || 'per-canvas') as PdfPageMode;
+            this.run(() => this.exportManager.exportPdf(mode, this.getArchiveName()));
+        });
+
+        // Extra TrueType fonts to embed (e.g. a Korean font when local font access is unavailable)
+        pdfFontInput?.addEventListener('change', async () => {
+            const files = Array.from(pdfFontInput.files || []);
+            for (const file of files) {
+                try {
+                    await this.exportManager.getPdfExporter().addFontFile(file);
+                } catch (error) {
+                    console.error('[EXPORT] Could not load font', error);
+                    alert(`글꼴을 불러올 수 없습니다 (${file.name}): ${(error as Error).message}`);
+                }
+            }
+            pdfFontInput.value = '';
+            this.updateFontList();
+        });
+    }
+
+    private updateFontList(): void {
+        const fontList = document.getElementById('pdfFontList');
+        if (!fontList) return;
+        const names = this.exportManager.getPdfExporter().getRegisteredFonts()
+            .map(font => font.familyNames[0] || font.postscriptName);
+        fontList.textContent = names.length > 0 ? Array.from(new Set(names)).join(', ') : '';
+    }
+
+    public open(): void {
+        if (!this.dialog) return;
+        this.dialog.style.display = 'flex';
+        this.updateScopeOptions();
+        this.updateControls();
+    }
+
+    public close(): void {
+        if (this.dialog) {
+            this.dialog.style.display = 'none';
+        }
+    }
+
+    public getOptions(): RasterExportOptions {
+        const format = this.formatSelect.value as RasterFormat;
+        const options: RasterExportOptions = { format };
+
+        if (this.scaleSelect.value === 'custom') {
+            const width = parseInt(this.widthInput.value);
+            const height = parseInt(this.heightInput.value);
+            if (width > 0) options.width = width;
+            if (height > 0) options.height = height;
+        } else {
+            options.scale = parseFloat(this.scaleSelect.value);
+        }
+
+        if (format !== 'png') {
+            options.quality = parseInt(this.qualityInput.value) / 100;
+        }
+        return options;
+    }
+
+    public getPanoramaOptions(): PanoramaOptions {
+        return {
+            ...this.getOptions(),
+            seamGuides: this.panoramaSeams.checked,
+            emptyFill: this.panoramaEmpty.value === 'fill' ? this.panoramaFillColor.value : null,
+            canvasIds: this.getPanoramaSpread()?.canvasIds
+        };
+    }
+
+    private getPanoramaSpread(): Spread | null {
+        const spreadId = this.panoramaScope?.value;
+        return spreadId ? (window as any).multiCanvasManager?.getSpreadManager().getSpread(spreadId) ?? null : null;
+    }
+
+    // The whole grid plus one entry per spread, keeping the choice while that spread exists
+    private updateScopeOptions(): void {
+        if (!this.panoramaScope) return;
+        const spreads: Spread[] = (window as any).multiCanvasManager?.getSpreadManager().getSpreads() ?? [];
+        const current = this.panoramaScope.value;
+        this.panoramaScope.innerHTML = '<option value="">전체 그리드</option>';
+        spreads.forEach(spread => {
+            const option = document.createElement('option');
+            option.value = spread.id;
+            option.textContent = `스프레드: ${spread.name}`;
+            this.panoramaScope.appendChild(option);
+        });
+        this.panoramaScope.value = spreads.some(spread => spread.id === current) ? current : '';
+    }
+
+    private updateControls(): void {
+        const isCustom = this.scaleSelect.value === 'custom';
+        this.customSize.style.display = isCustom ? 'flex' : 'none';
+        this.qualityRow.style.display = this.formatSelect.value === 'png' ? 'none' : 'flex';
+        this.qualityValue.textContent = `${this.qualityInput.value}%`;
+
+        this.panoramaFillColor.style.display = this.panoramaEmpty.value === 'fill' ? 'inline-block' : 'none';
+        this.updatePanoramaPreview();
+
+        // Preview the output size for the active canvas
+        const multiCanvasManager = (window as any).multiCanvasManager;
+        const canvasId = multiCanvasManager?.getActiveCanvasId();
+        const data = canvasId ? multiCanvasManager.getCanvasData(canvasId) : null;
+        if (!data) {
+            this.sizePreview.textContent = '';
+            return;
+        }
+
+        const options = this.getOptions();
+        let width = data.width * (options.scale ?? 1);
+        let height = data.height * (options.scale ?? 1);
+        if (options.width && options.height) {
+            width = options.width;
+            height = options.height;
+        } else if (options.width) {
+            width = options.width;
+            height = data.height * options.width / data.width;
+        } else if (options.height) {
+            height = options.height;
+            width = data.width * options.height / data.height;
+        }
+        this.sizePreview.textContent = `${data.width}×${data.height} → ${Math.round(width)}×${Math.round(height)}px`;
+    }
+
+    private updatePanoramaPreview(): void {
+        const bounds = this.exportManager.getPanoramaBounds(this.getPanoramaSpread()?.canvasIds);
+        if (!bounds) {
+            this.panoramaSizePreview.textContent = '';
+            return;
+        }
+
+        const options = this.getOptions();
+        let scale = options.scale ?? 1;
+        if (options.width) {
+            scale = options.width / bounds.width;
+        } else if (options.height) {
+            scale = options.height / bounds.height;
+        }
+        const width = Math.max(1, Math.round(bounds.width * scale));
+        const height = Math.max(1, Math.round(bounds.height * scale));
+        const format = this.exportManager.getPanoramaFormat(width, height, options.format);
+        // Too large for the requested encoder: say so before the file arrives as .png
+        const fallback = format !== options.format ? ' · 너무 커서 PNG로 저장됩니다' : '';
+        this.panoramaSizePreview.textContent = `${bounds.width}×${bounds.height} → ${width}×${height}px${fallback}`;
+    }
+
+    private async run(task: () => Promise<void>): Promise<void> {
+        try {
+            await task();
+            this.close();
+        } catch (error) {
+            console.error('[EXPORT] Export failed', error);
+            alert(`내보내기에 실패했습니다: ${(error as Error).message}`);
+        }
+    }
+}
@@ -0,0 +1,184 @@
+import { MultiCanvasManager } from './MultiCanvasManager';
+import { ZipWriter } from './ZipWriter';
+import { PdfExporter, PdfPageMode } from './PdfExporter';
+import { PanoramaExporter, PanoramaOptions } from './PanoramaExporter';
+import { SvgExporter } from './SvgExporter';
+
+export type RasterFormat = 'png' | 'jpeg' | 'webp';
+
+export interface RasterExportOptions {
+    format: RasterFormat;
+    scale?: number;   // Pixel multiplier (1x/2x/3x); ignored when a target size is given
+    width?: number;   // Explicit target size; with only one side the aspect ratio is kept
+    height?: number;
+    quality?: number; // 0..1 for JPEG/WebP
+}
+
+const MIME_TYPES: { [format in RasterFormat]: string } = {
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp'
+};
+
+const EXTENSIONS: { [format in RasterFormat]: string } = {
+    png: 'png',
+    jpeg: 'jpg',
+    webp: 'webp'
+};
+
+// Renders canvases to image files, one at a time or as a zip of the whole grid
+export class ExportManager {
+    private multiCanvasManager: MultiCanvasManager;
+    private pdfExporter: PdfExporter;
+    private panoramaExporter: PanoramaExporter;
+    private svgExporter: SvgExporter;
+
+    constructor(multiCanvasManager: MultiCanvasManager) {
+        this.multiCanvasManager = multiCanvasManager;
+        this.pdfExporter = new PdfExporter(multiCanvasManager);
+        this.panoramaExporter = new PanoramaExporter(multiCanvasManager);
+        this.svgExporter = new SvgExporter(multiCanvasManager);
+        console.log('[EXPORT] ExportManager initialized');
+    }
+
+    public async exportCanvas(canvasId: string, options: RasterExportOptions): Promise<void> {
+        const blob = await this.renderCanvasBlob(canvasId, options);
+        this.download(blob, `${this.getCanvasFileName(canvasId)}.${EXTENSIONS[options.format]}`);
+    }
+
+    // Every canvas in reading order, named by grid position so carousel slides sort correctly
+    public async exportAllCanvases(options: RasterExportOptions, archiveName: string = 'canvases'): Promise<void> {
+        const zip = new ZipWriter();
+
+        for (const canvasId of this.getCanvasIdsInGridOrder()) {
+            const blob = await this.renderCanvasBlob(canvasId, options);
+            const fileName = this.getGridFileName(canvasId, EXTENSIONS[options.format]);
+            zip.addFile(fileName, new Uint8Array(await blob.arrayBuffer()));
+            console.log(`[EXPORT] Added ${fileName} to archive`);
+        }
+
+        this.download(zip.toBlob(), `${this.sanitizeFileName(archiveName)}.zip`);
+    }
+
+    // One page per canvas in reading order, or the whole grid stitched onto a single page
+    public async exportPdf(mode: PdfPageMode, title: string = 'canvases'): Promise<void> {
+        const blob = await this.pdfExporter.createPdf(this.getCanvasIdsInGridOrder(), mode, title);
+        this.download(blob, `${this.sanitizeFileName(title)}.pdf`);
+    }
+
+    // The whole grid (or the canvases of a spread) stitched into one image in global coordinates
+    public async exportPanorama(options: PanoramaOptions, title: string = 'canvases'): Promise<void> {
+        const blob = await this.panoramaExporter.render(options);
+        const format = (Object.keys(MIME_TYPES) as RasterFormat[]).find(key => MIME_TYPES[key] === blob.type) || 'png';
+        this.download(blob, `${this.sanitizeFileName(title)}_panorama.${EXTENSIONS[format]}`);
+    }
+
+    public exportCanvasSvg(canvasId: string): void {
+        const svg = this.svgExporter.createCanvasSvg(canvasId);
+        this.download(new Blob([svg], { type: 'image/svg+xml' }), `${this.getCanvasFileName(canvasId)}.svg`);
+    }
+
+    public exportAllCanvasSvgs(archiveName: string = 'canvases'): void {
+        const zip = new ZipWriter();
+        const encoder = new TextEncoder();
+        this.getCanvasIdsInGridOrder().forEach(canvasId => {
+            zip.addFile(this.getGridFileName(canvasId, 'svg'), encoder.encode(this.svgExporter.createCanvasSvg(canvasId)));
+        });
+        this.download(zip.toBlob(), `${this.sanitizeFileName(archiveName)}_svg.zip`);
+    }
+
+    // Single SVG of the whole grid with one <g> per canvas
+    public exportGlobalSvg(title: string = 'canvases'): void {
+        const svg = this.svgExporter.createGlobalSvg(this.getCanvasIdsInGridOrder());
+        this.download(new Blob([svg], { type: 'image/svg+xml' }), `${this.sanitizeFileName(title)}.svg`);
+    }
+
+    public getPanoramaBounds(canvasIds?: string[]): { left: number; top: number; width: number; height: number } | null {
+        return this.panoramaExporter.getBounds(canvasIds);
+    }
+
+    // The panorama falls back to PNG when it is too large for one browser canvas
+    public getPanoramaFormat(width: number, height: number, format: RasterFormat): RasterFormat {
+        return this.panoramaExporter.getOutputFormat(width, height, format);
+    }
+
+    public getPdfExporter(): PdfExporter {
+        return this.pdfExporter;
+    }
+
+    public getCanvasIdsInGridOrder(): string[] {
+        const ids = Array.from(this.multiCanvasManager.getAllCanvases().keys())
+            .filter(canvasId => this.multiCanvasManager.getCanvasPosition(canvasId) !== null);
+        return ids.sort((a, b) => {
+            const posA = this.multiCanvasManager.getCanvasPosition(a)!;
+            const posB = this.multiCanvasManager.getCanvasPosition(b)!;
+            return posA.row - posB.row || posA.col - posB.col;
+        });
+    }
+
+    public renderCanvas(canvasId: string, options: RasterExportOptions): HTMLCanvasElement {
+        const canvasManager = this.multiCanvasManager.getAllCanvases().get(canvasId);
+        if (!canvasManager) {
+            throw new Error(`Canvas ${canvasId} not found`);
+        }
+
+        const source = canvasManager.getCanvas();
+        let scaleX = options.scale ?? 1;
+        let scaleY = scaleX;
+        if (options.width && options.height) {
+            scaleX = options.width / source.width;
+            scaleY = options.height / source.height;
+        } else if (options.width) {
+            scaleX = scaleY = options.width / source.width;
+        } else if (options.height) {
+            scaleX = scaleY = options.height / source.height;
+        }
+
+        return canvasManager.renderToCanvas(scaleX, scaleY);
+    }
+
+    public download(blob: Blob, fileName: string): void {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        // Give the browser a moment to start the download before releasing the blob
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    }
+
+    public getCanvasFileName(canvasId: string): string {
+        const name = this.multiCanvasManager.getCanvasData(canvasId)?.name || canvasId;
+        return this.sanitizeFileName(name);
+    }
+
+    // Archive entry name that sorts in grid reading order, e.g. r01-c02_Title.png
+    private getGridFileName(canvasId: string, extension: string): string {
+        const position = this.multiCanvasManager.getCanvasPosition(canvasId)!;
+        const row = (position.row + 1).toString().padStart(2, '0');
+        const col = (position.col + 1).toString().padStart(2, '0');
+        return `r${row}-c${col}_${this.getCanvasFileName(canvasId)}.${extension}`;
+    }
+
+    private sanitizeFileName(name: string): string {
+        return name.replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').trim() || 'canvas';
+    }
+
+    private renderCanvasBlob(canvasId: string, options: RasterExportOptions): Promise<Blob> {
+        const output = this.renderCanvas(canvasId, options);
+        const mimeType = MIME_TYPES[options.format];
+
+        return new Promise((resolve, reject) => {
+            output.toBlob(blob => {
+                if (!blob) {
+                    reject(new Error('Failed to encode image'));
+                } else if (blob.type !== mimeType) {
+                    // Browsers fall back to PNG for formats they cannot encode
+                    reject(new Error(`This browser cannot encode ${options.format.toUpperCase()} images`));
+                } else {
+                    resolve(blob);
+                }
+            }, mimeType, options.quality);
+        });
+    }
+}
@@ -1,18 +1,43 @@
-import { CanvasElement } from './types';
+import { CanvasElement, Alignment, SpanMode } from './types';
+import { HistoryManager, HistoryEntry } from './HistoryManager';
+import { ElementGeometry, Rect } from './ElementGeometry';
+import { PathGeometry } from './PathGeometry';
+
+// History entry for a property update; repeated updates of one element inside a gesture merge into it
+interface ElementUpdateEntry extends HistoryEntry {
+    elementId: string;
+    before: Partial<CanvasElement>;
+    after: Partial<CanvasElement>;
+}
 
 export class GlobalElementManager {
     private elements: Map<string, CanvasElement> = new Map();
+    private zOrder: string[] = [];  // Element ids, back-to-front; the single source of stacking order
     private selectedElementId: string | null = null;
     private selectedElementIds: Set<string> = new Set(); // For multi-selection
+    private enteredGroupId: string | null = null;  // Group opened by double-click; its children select individually
+    private editingPathId: string | null = null;  // Path whose anchors are being edited
     private changeListeners: Set<() => void> = new Set();
+    private history: HistoryManager;
     
-    constructor() {
+    constructor(history: HistoryManager = new HistoryManager()) {
+        this.history = history;
         console.log('[GLOBAL] GlobalElementManager initialized');
     }
     
+    public getHistory(): HistoryManager {
+        return this.history;
+    }
+    
     public addElement(element: CanvasElement): void {
         console.log(`[GLOBAL] Adding element ${element.id} at global position (${element.x}, ${element.y})`);
         this.elements.set(element.id, element);
+        this.zOrder.push(element.id);
+        this.history.record({
+            label: 'add-element',
+            undo: () => this.deleteElement(element.id),
+            redo: () => this.insertElement(element, this.zOrder.length)
+        });
         this.notifyChange();
     }
     
@@ -39,26 +64,156 @@ export class GlobalElementManager {
     }
     
     public removeElement(elementId: string): void {
+        const element = this.elements.get(elementId);
+        if (!element) return;
+        
+        const index = this.getOrder().indexOf(elementId);
+        this.deleteElement(elementId);
+        this.history.record({
+            label: 'remove-element',
+            undo: () => this.insertElement(element, index),
+            redo: () => this.deleteElement(elementId)
+        });
+    }
+    
+    // Remove without recording history
+    private deleteElement(elementId: string): void {
         if (this.elements.delete(elementId)) {
+            this.zOrder = this.zOrder.filter(id => id !== elementId);
             if (this.selectedElementId === elementId) {
                 this.selectedElementId = null;
             }
+            this.selectedElementIds.delete(elementId);
+            if (this.editingPathId === elementId) {
+                this.editingPathId = null;
+            }
             this.notifyChange();
         }
     }
     
+    // Re-insert an element at a z-order index without recording history
+    private insertElement(element: CanvasElement, index: number): void {
+        this.elements.set(element.id, element);
+        this.zOrder = this.zOrder.filter(id => id !== element.id);
+        this.zOrder.splice(Math.min(index, this.zOrder.length), 0, element.id);
+        this.notifyChange();
+    }
+    
+    // Element ids in back-to-front order
+    private getOrder(): string[] {
+        return [...this.zOrder];
+    }
+    
+    // Replace the stacking order without recording history
+    private applyOrder(order: string[]): void {
+        const reordered = order.filter(id => this.elements.has(id));
+        // Keep anything not covered by the saved order on top
+        this.zOrder.forEach(id => {
+            if (!reordered.includes(id)) reordered.push(id);
+        });
+        this.zOrder = reordered;
+        this.notifyChange();
+    }
+    
+    // Apply a new order as one undoable step; no-op if nothing moved
+    private reorder(order: string[]): void {
+        const before = this.getOrder();
+        if (before.join(',') === order.join(',')) return;
+        this.applyOrder(order);
+        const after = this.getOrder();
+        this.history.record({
+            label: 'reorder',
+            undo: () => this.applyOrder(before),
+            redo: () => this.applyOrder(after)
+        });
+    }
+    
+    // Elements in back-to-front order
+    private getOrderedElements(): CanvasElement[] {
+        return this.zOrder
+            .map(id => this.elements.get(id))
+            .filter((element): element is CanvasElement => element !== undefined);
+    }
+    
     public getElement(elementId: string): CanvasElement | undefined {
         return this.elements.get(elementId);
     }
     
+    // All elements, back-to-front
     public getAllElements(): CanvasElement[] {
-        return Array.from(this.elements.values());
+        return this.getOrderedElements();
+    }
+    
+    // Element ids, back-to-front
+    public getZOrder(): string[] {
+        return this.getOrder();
+    }
+    
+    // Position in the stacking order (0 = backmost), or -1 if unknown
+    public getZIndex(elementId: string): number {
+        return this.zOrder.indexOf(elementId);
     }
     
     public updateElement(elementId: string, updates: Partial<CanvasElement>): void {
         const element = this.elements.get(elementId);
         if (element) {
+            updates = this.withPathPoints(element, updates);
+            const before: Partial<CanvasElement> = {};
+            (Object.keys(updates) as (keyof CanvasElement)[]).forEach(key => {
+                (before as any)[key] = element[key];
+            });
             Object.assign(element, updates);
+            this.history.record(this.createUpdateEntry(elementId, before, { ...updates }));
+            this.notifyChange();
+        }
+    }
+    
+    // Path points live in global coordinates, so every move or resize of a path's box
+    // (drag, resize handles, group transforms) has to carry the points along
+    private withPathPoints(element: CanvasElement, updates: Partial<CanvasElement>): Partial<CanvasElement> {
+        if (element.type !== 'path' || !element.pathPoints || updates.pathPoints) return updates;
+        if (updates.x === undefined && updates.y === undefined &&
+            updates.width === undefined && updates.height === undefined) return updates;
+        
+        const to = {
+            x: updates.x ?? element.x,
+            y: updates.y ?? element.y,
+            width: updates.width ?? element.width,
+            height: updates.height ?? element.height
+        };
+        return { ...updates, pathPoints: PathGeometry.mapToRect(element.pathPoints, element, to) };
+    }
+    
+    private createUpdateEntry(elementId: string, before: Partial<CanvasElement>, after: Partial<CanvasElement>): ElementUpdateEntry {
+        const entry: ElementUpdateEntry = {
+            label: 'update-element',
+            elementId,
+            before,
+            after,
+            undo: () => this.assignElement(elementId, entry.before),
+            redo: () => this.assignElement(elementId, entry.after),
+            absorb: (next: HistoryEntry) => {
+                const other = next as Partial<ElementUpdateEntry>;
+                if (other.elementId !== elementId || !other.before || !other.after) {
+                    return false;
+                }
+                // Keep the oldest "before" value per key and the newest "after" value
+                (Object.keys(other.before) as (keyof CanvasElement)[]).forEach(key => {
+                    if (!(key in entry.before)) {
+                        (entry.before as any)[key] = other.before![key];
+                    }
+                });
+                Object.assign(entry.after, other.after);
+                return true;
+            }
+        };
+        return entry;
+    }
+    
+    private assignElement(elementId: string, values: Partial<CanvasElement>): void {
+        const element = this.elements.get(elementId);
+        if (element) {
+            Object.assign(element, values);
             this.notifyChange();
         }
     }
@@ -69,20 +224,16 @@ export class GlobalElementManager {
         
         const visibleElements: CanvasElement[] = [];
         
-        this.elements.forEach(element => {
-            // Check if element intersects with this canvas
-            const elementRight = element.x + element.width;
-            const elementBottom = element.y + element.height;
+        this.getOrderedElements().forEach(element => {
+            // Check if the (possibly rotated) element intersects with this canvas
+            const bounds = ElementGeometry.getBoxBounds(element);
             const canvasRight = canvasOffsetX + canvasWidth;
             const canvasBottom = canvasOffsetY + canvasHeight;
             
-            // Simple intersection check without verbose logging
-            
-            // Check for intersection
-            if (element.x < canvasRight && 
-                elementRight > canvasOffsetX && 
-                element.y < canvasBottom && 
-                elementBottom > canvasOffsetY) {
+            if (bounds.x < canvasRight && 
+                bounds.x + bounds.width > canvasOffsetX && 
+                bounds.y < canvasBottom && 
+                bounds.y + bounds.height > canvasOffsetY) {
                 visibleElements.push(element);
             }
         });
@@ -130,18 +281,12 @@ export class GlobalElementManager {
     
     public getElementsInRectangle(x: number, y: number, width: number, height: number): CanvasElement[] {
         const result: CanvasElement[] = [];
-        const rectRight = x + width;
-        const rectBottom = y + height;
         
-        this.elements.forEach(element => {
-            const elementRight = element.x + element.width;
-            const elementBottom = element.y + element.height;
+        this.getOrderedElements().forEach(element => {
+            if (element.hidden || element.locked) return;
             
-            // Check if element intersects with selection rectangle
-            if (!(element.x > rectRight || 
-                  elementRight < x || 
-                  element.y > rectBottom || 
-                  elementBottom < y)) {
+            // Check if the rotated element outline intersects with selection rectangle
+            if (ElementGeometry.intersectsRect(element, { x, y, width, height })) {
                 result.push(element);
             }
         });
@@ -149,9 +294,281 @@ export class GlobalElementManager {
         return result;
     }
     
+    // Replace every element at once, keeping the given back-to-front order (document import)
+    public loadElements(elements: CanvasElement[]): void {
+        this.elements.clear();
+        elements.forEach(element => this.elements.set(element.id, element));
+        this.zOrder = elements.map(element => element.id);
+        this.editingPathId = null;
+        this.selectedElementId = null;
+        this.selectedElementIds.clear();
+        this.notifyChange();
+    }
+    
     public clearAll(): void {
+        const snapshot = Array.from(this.elements.entries());
+        const order = this.getOrder();
         this.elements.clear();
+        this.zOrder = [];
+        this.editingPathId = null;
         this.selectedElementId = null;
+        this.selectedElementIds.clear();
+        
+        if (snapshot.length > 0) {
+            this.history.record({
+                label: 'clear',
+                undo: () => {
+                    this.elements = new Map(snapshot);
+                    this.zOrder = [...order];
+                    this.notifyChange();
+                },
+                redo: () => {
+                    this.elements.clear();
+                    this.zOrder = [];
+                    this.selectedElementId = null;
+                    this.selectedElementIds.clear();
+                    this.notifyChange();
+                }
+            });
+        }
+    }
+    
+    // ---- Path editing ----
+    
+    public getEditingPath(): string | null {
+        return this.editingPathId;
+    }
+    
+    public setEditingPath(elementId: string | null): void {
+        this.editingPathId = elementId;
+    }
+    
+    // ---- Groups ----
+    
+    public getEnteredGroup(): string | null {
+        return this.enteredGroupId;
+    }
+    
+    public setEnteredGroup(groupId: string | null): void {
+        this.enteredGroupId = groupId;
+    }
+    
+    // Members of a group, back-to-front
+    public getGroupMembers(groupId: string): CanvasElement[] {
+        return this.getOrderedElements().filter(element => element.groupId === groupId);
+    }
+    
+    // Grow a set of ids to whole groups (except the entered one), back-to-front
+    public expandToGroups(elementIds: string[]): string[] {
+        const ids = new Set(elementIds);
+        const groupIds = new Set<string>();
+        elementIds.forEach(id => {
+            const groupId = this.elements.get(id)?.groupId;
+            if (groupId && groupId !== this.enteredGroupId) groupIds.add(groupId);
+        });
+        return this.getOrder().filter(id => ids.has(id) || groupIds.has(this.elements.get(id)!.groupId || ''));
+    }
+    
+    // Set how the elements (whole groups) show on neighbouring canvases; 'follow' clears the override
+    public setSpanMode(elementIds: string[], mode: SpanMode): void {
+        const ids = this.expandToGroups(elementIds);
+        if (ids.length === 0) return;
+        
+        this.history.beginTransaction('span-mode');
+        try {
+            ids.forEach(id => this.updateElement(id, { spanMode: mode === 'follow' ? undefined : mode }));
+        } finally {
+            this.history.endTransaction();
+        }
+    }
+    
+    // Group the elements (and any groups they belong to) into one new group, stacked together
+    // just below the topmost member. Returns the new group id, or null for fewer than two elements.
+    public groupElements(elementIds: string[]): string | null {
+        const ids = this.expandToGroups(elementIds);
+        if (ids.length < 2) return null;
+        
+        const groupId = `group-${Date.now()}`;
+        const order = this.getOrder();
+        const topIndex = Math.max(...ids.map(id => order.indexOf(id)));
+        const index = order.slice(0, topIndex).filter(id => !ids.includes(id)).length;
+        
+        this.history.beginTransaction('group');
+        try {
+            ids.forEach(id => this.updateElement(id, { groupId }));
+            this.moveElementsToIndex(ids, index);
+        } finally {
+            this.history.endTransaction();
+        }
+        this.enteredGroupId = null;
+        return groupId;
+    }
+    
+    // Dissolve every group the elements belong to; returns the ids that were released
+    public ungroupElements(elementIds: string[]): string[] {
+        const groupIds = new Set<string>();
+        elementIds.forEach(id => {
+            const groupId = this.elements.get(id)?.groupId;
+            if (groupId) groupIds.add(groupId);
+        });
+        const members = this.getOrderedElements().filter(element => element.groupId && groupIds.has(element.groupId));
+        
+        this.history.beginTransaction('ungroup');
+        try {
+            members.forEach(element => this.updateElement(element.id, { groupId: undefined }));
+        } finally {
+            this.history.endTransaction();
+        }
+        if (this.enteredGroupId && groupIds.has(this.enteredGroupId)) {
+            this.enteredGroupId = null;
+        }
+        return members.map(element => element.id);
+    }
+    
+    // Primary and multi-selection together, widened to whole groups
+    public getSelectionWithGroups(): string[] {
+        const ids = Array.from(this.selectedElementIds);
+        if (this.selectedElementId && !ids.includes(this.selectedElementId)) {
+            ids.push(this.selectedElementId);
+        }
+        return this.expandToGroups(ids);
+    }
+    
+    // ---- Alignment and nudging ----
+    
+    // The elements as units that move together: one per closed group, one per loose element.
+    // Units with a locked member stay where they are.
+    private getMovableUnits(elementIds: string[]): { members: CanvasElement[]; bounds: Rect }[] {
+        const units: Map<string, CanvasElement[]> = new Map();
+        this.expandToGroups(elementIds).forEach(id => {
+            const element = this.elements.get(id)!;
+            const key = element.groupId && element.groupId !== this.enteredGroupId ? element.groupId : element.id;
+            units.set(key, [...(units.get(key) || []), element]);
+        });
+        return Array.from(units.values())
+            .filter(members => !members.some(element => element.locked))
+            .map(members => ({ members, bounds: this.getUnionBounds(members) }));
+    }
+    
+    private getUnionBounds(elements: CanvasElement[]): Rect {
+        const boxes = elements.map(element => ElementGeometry.getBounds(element));
+        const x = Math.min(...boxes.map(b => b.x));
+        const y = Math.min(...boxes.map(b => b.y));
+        return {
+            x,
+            y,
+            width: Math.max(...boxes.map(b => b.x + b.width)) - x,
+            height: Math.max(...boxes.map(b => b.y + b.height)) - y
+        };
+    }
+    
+    private moveUnit(members: CanvasElement[], dx: number, dy: number): void {
+        if (Math.abs(dx) < 1e-6 && Math.abs(dy) < 1e-6) return;
+        members.forEach(element => this.updateElement(element.id, { x: element.x + dx, y: element.y + dy }));
+    }
+    
+    // Move the elements by a fixed offset (arrow keys); whole groups move, locked units stay
+    public nudgeElements(elementIds: string[], dx: number, dy: number): void {
+        const units = this.getMovableUnits(elementIds);
+        if (units.length === 0) return;
+        
+        this.history.beginTransaction('nudge');
+        try {
+            units.forEach(({ members }) => this.moveUnit(members, dx, dy));
+        } finally {
+            this.history.endTransaction();
+        }
+    }
+    
+    // Align the elements' rotated bounds to `reference`, or to their combined bounds when omitted
+    public alignElements(elementIds: string[], alignment: Alignment, reference?: Rect): void {
+        const units = this.getMovableUnits(elementIds);
+        if (units.length === 0 || (!reference && units.length < 2)) return;
+        const target = reference || this.getUnionBounds(units.flatMap(unit => unit.members));
+        
+        this.history.beginTransaction('align');
+        try {
+            units.forEach(({ members, bounds }) => {
+                let dx = 0;
+                let dy = 0;
+                switch (alignment) {
+                    case 'left': dx = target.x - bounds.x; break;
+                    case 'center': dx = target.x + target.width / 2 - (bounds.x + bounds.width / 2); break;
+                    case 'right': dx = target.x + target.width - (bounds.x + bounds.width); break;
+                    case 'top': dy = target.y - bounds.y; break;
+                    case 'middle': dy = target.y + target.height / 2 - (bounds.y + bounds.height / 2); break;
+                    case 'bottom': dy = target.y + target.height - (bounds.y + bounds.height); break;
+                }
+                this.moveUnit(members, dx, dy);
+            });
+        } finally {
+            this.history.endTransaction();
+        }
+    }
+    
+    // Equal gaps between neighbours, keeping their order. Without a reference the outermost
+    // units stay put; with one they are spread across it edge to edge.
+    public distributeElements(elementIds: string[], axis: 'horizontal' | 'vertical', reference?: Rect): void {
+        const units = this.getMovableUnits(elementIds);
+        if (units.length < (reference ? 2 : 3)) return;
+        
+        const horizontal = axis === 'horizontal';
+        const start = (r: Rect) => horizontal ? r.x : r.y;
+        const size = (r: Rect) => horizontal ? r.width : r.height;
+        units.sort((a, b) => (start(a.bounds) + size(a.bounds) / 2) - (start(b.bounds) + size(b.bounds) / 2));
+        
+        const span = reference || this.getUnionBounds(units.flatMap(unit => unit.members));
+        const total = units.reduce((sum, unit) => sum + size(unit.bounds), 0);
+        const gap = (size(span) - total) / (units.length - 1);
+        
+        this.history.beginTransaction('distribute');
+        try {
+            let position = start(span);
+            units.forEach(({ members, bounds }) => {
+                const delta = position - start(bounds);
+                this.moveUnit(members, horizontal ? delta : 0, horizontal ? 0 : delta);
+                position += size(bounds) + gap;
+            });
+        } finally {
+            this.history.endTransaction();
+        }
+    }
+    
+    // Copy elements as one undo step; copied groups get fresh group ids so they stay separate
+    public addElementCopies(sources: CanvasElement[], offsetX: number, offsetY: number, canvasId?: string): CanvasElement[] {
+        const stamp = Date.now();
+        const groupIds: Map<string, string> = new Map();
+        const copies = sources.map((source, index) => {
+            const copy: CanvasElement = {
+                ...source,
+                id: `element-${stamp}-${index}`,
+                x: source.x + offsetX,
+                y: source.y + offsetY
+            };
+            if (source.pathPoints) copy.pathPoints = PathGeometry.translate(source.pathPoints, offsetX, offsetY);
+            if (canvasId) copy.canvasId = canvasId;
+            if (source.groupId) {
+                if (!groupIds.has(source.groupId)) {
+                    groupIds.set(source.groupId, `group-${stamp}-${groupIds.size}`);
+                }
+                copy.groupId = groupIds.get(source.groupId);
+            }
+            // Clone image element if needed
+            if (copy.type === 'image' && source.imageElement) {
+                const img = new Image();
+                img.src = source.imageElement.src;
+                copy.imageElement = img;
+            }
+            return copy;
+        });
+        
+        this.history.beginTransaction('add-elements');
+        try {
+            copies.forEach(copy => this.addElement(copy));
+        } finally {
+            this.history.endTransaction();
+        }
+        return copies;
     }
     
     public duplicateElement(elementId: string, offsetX: number = 20, offsetY: number = 20): CanvasElement | null {
@@ -164,6 +581,7 @@ export class GlobalElementManager {
             x: original.x + offsetX,
             y: original.y + offsetY
         };
+        if (original.pathPoints) duplicate.pathPoints = PathGeometry.translate(original.pathPoints, offsetX, offsetY);
         
         // Clone image element if needed
         if (duplicate.type === 'image' && original.imageElement) {
@@ -178,55 +596,77 @@ export class GlobalElementManager {
     
     public getElementAtPoint(globalX: number, globalY: number): CanvasElement | null {
         // Iterate in reverse to get topmost element
-        const elementsArray = Array.from(this.elements.values());
+        const elementsArray = this.getOrderedElements();
         for (let i = elementsArray.length - 1; i >= 0; i--) {
             const element = elementsArray[i];
+            if (element.hidden || element.locked) continue;
             
-            // If element has crop, check if click is within cropped area
-            if (element.cropX !== undefined && element.cropY !== undefined &&
-                element.cropWidth !== undefined && element.cropHeight !== undefined) {
-                // Check cropped area bounds
-                const cropLeft = element.x + element.cropX;
-                const cropTop = element.y + element.cropY;
-                const cropRight = cropLeft + element.cropWidth;
-                const cropBottom = cropTop + element.cropHeight;
-                
-                if (globalX >= cropLeft && globalX <= cropRight &&
-                    globalY >= cropTop && globalY <= cropBottom) {
-                    return element;
-                }
-            } else {
-                // No crop - check normal bounds
-                if (globalX >= element.x && 
-                    globalX <= element.x + element.width &&
-                    globalY >= element.y && 
-                    globalY <= element.y + element.height) {
-                    return element;
-                }
+            // Checks the cropped area if cropped, in the element's rotated frame
+            if (ElementGeometry.containsPoint(element, globalX, globalY)) {
+                return element;
             }
         }
         return null;
     }
     
     public moveElementToFront(elementId: string): void {
-        const element = this.elements.get(elementId);
-        if (element) {
-            this.elements.delete(elementId);
-            this.elements.set(elementId, element);
-        }
+        this.moveElementsToFront([elementId]);
     }
     
     public moveElementToBack(elementId: string): void {
-        const element = this.elements.get(elementId);
-        if (element) {
-            const allElements = Array.from(this.elements.entries());
-            this.elements.clear();
-            this.elements.set(elementId, element);
-            allElements.forEach(([id, el]) => {
-                if (id !== elementId) {
-                    this.elements.set(id, el);
-                }
-            });
+        this.moveElementsToBack([elementId]);
+    }
+    
+    // Move the given elements above everything else, keeping their relative order
+    public moveElementsToFront(elementIds: string[]): void {
+        const ids = new Set(elementIds);
+        const order = this.getOrder();
+        this.reorder([...order.filter(id => !ids.has(id)), ...order.filter(id => ids.has(id))]);
+    }
+    
+    // Move the given elements below everything else, keeping their relative order
+    public moveElementsToBack(elementIds: string[]): void {
+        const ids = new Set(elementIds);
+        const order = this.getOrder();
+        this.reorder([...order.filter(id => ids.has(id)), ...order.filter(id => !ids.has(id))]);
+    }
+    
+    // Move each element one step up; adjacent selected elements move as a block
+    public moveElementsForward(elementIds: string[]): void {
+        const ids = new Set(elementIds);
+        const order = this.getOrder();
+        for (let i = order.length - 2; i >= 0; i--) {
+            if (ids.has(order[i]) && !ids.has(order[i + 1])) {
+                [order[i], order[i + 1]] = [order[i + 1], order[i]];
+            }
+        }
+        this.reorder(order);
+    }
+    
+    // Move each element one step down; adjacent selected elements move as a block
+    public moveElementsBackward(elementIds: string[]): void {
+        const ids = new Set(elementIds);
+        const order = this.getOrder();
+        for (let i = 1; i < order.length; i++) {
+            if (ids.has(order[i]) && !ids.has(order[i - 1])) {
+                [order[i], order[i - 1]] = [order[i - 1], order[i]];
+            }
         }
+        this.reorder(order);
+    }
+    
+    // Place the elements so the first one lands at `index` of the resulting order (0 = backmost),
+    // keeping their relative order
+    public moveElementsToIndex(elementIds: string[], index: number): void {
+        const ids = new Set(elementIds);
+        const order = this.getOrder();
+        const moving = order.filter(id => ids.has(id));
+        const rest = order.filter(id => !ids.has(id));
+        rest.splice(Math.max(0, Math.min(index, rest.length)), 0, ...moving);
+        this.reorder(rest);
+    }
+    
+    public moveElementToIndex(elementId: string, index: number): void {
+        this.moveElementsToIndex([elementId], index);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,211 @@
+import type { MultiCanvasManager } from './MultiCanvasManager';
+import type { SnapGuide } from './SnapManager';
+import { HistoryManager } from './HistoryManager';
+import { CanvasData, Guide, LayoutGrid } from './types';
+
+// Ruler guides and per-canvas layout grids. Guides are part of the document (saved, undoable)
+// but never part of the artwork: canvases draw them only on screen and exports skip them.
+export class GuideManager {
+    private multiCanvasManager: MultiCanvasManager;
+    private history: HistoryManager;
+    private guides: Guide[] = [];
+    private visible: boolean = true;
+    private preview: Guide | null = null;   // Guide being pulled out of a ruler, not yet added
+    private moveStart: Guide | null = null; // Guide state when a move gesture began
+
+    constructor(multiCanvasManager: MultiCanvasManager, history: HistoryManager) {
+        this.multiCanvasManager = multiCanvasManager;
+        this.history = history;
+    }
+
+    public getGuides(): Guide[] {
+        return this.guides;
+    }
+
+    public isVisible(): boolean {
+        return this.visible;
+    }
+
+    public setVisible(visible: boolean): void {
+        this.visible = visible;
+        this.notify(false);
+    }
+
+    public getPreview(): Guide | null {
+        return this.preview;
+    }
+
+    public setPreview(guide: Guide | null): void {
+        this.preview = guide;
+        this.notify(false);
+    }
+
+    // Guides drawn on a canvas: its own guides plus every global guide (and the ruler preview)
+    public getGuidesForCanvas(canvasId: string): Guide[] {
+        if (!this.visible) return [];
+        const guides = this.preview ? [...this.guides, this.preview] : this.guides;
+        return guides.filter(guide => !guide.canvasId || guide.canvasId === canvasId);
+    }
+
+    public getGlobalPosition(guide: Guide): number {
+        if (!guide.canvasId) return guide.position;
+        const data = this.multiCanvasManager.getCanvasData(guide.canvasId);
+        if (!data) return guide.position;
+        return guide.position + (guide.axis === 'x' ? data.offsetX : data.offsetY);
+    }
+
+    // Guide of `canvasId` within `threshold` global units of a global point
+    public getGuideAt(canvasId: string, x: number, y: number, threshold: number): Guide | null {
+        const hits = this.getGuidesForCanvas(canvasId)
+            .filter(guide => guide !== this.preview)
+            .map(guide => ({ guide, distance: Math.abs(this.getGlobalPosition(guide) - (guide.axis === 'x' ? x : y)) }))
+            .filter(hit => hit.distance <= threshold)
+            .sort((a, b) => a.distance - b.distance);
+        return hits.length > 0 ? hits[0].guide : null;
+    }
+
+    public addGuide(axis: 'x' | 'y', position: number, canvasId?: string): Guide {
+        const guide: Guide = { id: `guide-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`, axis, position };
+        if (canvasId) guide.canvasId = canvasId;
+        this.guides.push(guide);
+        this.notify();
+
+        this.history.record({
+            label: 'add-guide',
+            undo: () => this.removeSilently(guide.id),
+            redo: () => {
+                this.guides.push({ ...guide });
+                this.notify();
+            }
+        });
+        return guide;
+    }
+
+    public removeGuide(id: string): void {
+        const index = this.guides.findIndex(guide => guide.id === id);
+        if (index === -1) return;
+        // A guide dropped on the ruler is removed where its move began
+        const guide = this.moveStart?.id === id ? this.moveStart : { ...this.guides[index] };
+        this.moveStart = null;
+        this.guides.splice(index, 1);
+        this.notify();
+
+        this.history.record({
+            label: 'remove-guide',
+            undo: () => {
+                this.guides.splice(Math.min(index, this.guides.length), 0, { ...guide });
+                this.notify();
+            },
+            redo: () => this.removeSilently(guide.id)
+        });
+    }
+
+    // Moving a guide is one gesture: beginMove, any number of moveGuide calls, then endMove
+    public beginMove(id: string): void {
+        const guide = this.guides.find(g => g.id === id);
+        this.moveStart = guide ? { ...guide } : null;
+    }
+
+    public moveGuide(id: string, position: number): void {
+        const guide = this.guides.find(g => g.id === id);
+        if (!guide) return;
+        guide.position = Math.round(position);
+        this.notify();
+    }
+
+    public endMove(): void {
+        const before = this.moveStart;
+        this.moveStart = null;
+        const guide = before && this.guides.find(g => g.id === before.id);
+        if (!before || !guide || guide.position === before.position) return;
+
+        const after = { ...guide };
+        this.history.record({
+            label: 'move-guide',
+            undo: () => this.setPosition(before.id, before.position),
+            redo: () => this.setPosition(after.id, after.position)
+        });
+    }
+
+    // Replace all guides (document load); not undoable
+    public loadGuides(guides: Guide[]): void {
+        this.guides = guides.map(guide => ({ ...guide }));
+        this.preview = null;
+        this.moveStart = null;
+        this.notify();
+    }
+
+    // Snap targets for visible guides: global guides span the grid, per-canvas ones their canvas
+    public getSnapTargets(): SnapGuide[] {
+        if (!this.visible) return [];
+        const canvases = Array.from(this.multiCanvasManager.getAllCanvases().keys())
+            .map(canvasId => this.multiCanvasManager.getCanvasData(canvasId))
+            .filter((data): data is CanvasData => !!data);
+        if (canvases.length === 0) return [];
+
+        const gridRect = {
+            x: Math.min(...canvases.map(c => c.offsetX)),
+            y: Math.min(...canvases.map(c => c.offsetY)),
+            right: Math.max(...canvases.map(c => c.offsetX + c.width)),
+            bottom: Math.max(...canvases.map(c => c.offsetY + c.height))
+        };
+
+        const targets: SnapGuide[] = [];
+        this.guides.forEach(guide => {
+            const data = guide.canvasId ? canvases.find(c => c.id === guide.canvasId) : undefined;
+            if (guide.canvasId && !data) return;
+            const position = this.getGlobalPosition(guide);
+            if (guide.axis === 'x') {
+                targets.push({ axis: 'x', position, start: data ? data.offsetY : gridRect.y, end: data ? data.offsetY + data.height : gridRect.bottom });
+            } else {
+                targets.push({ axis: 'y', position, start: data ? data.offsetX : gridRect.x, end: data ? data.offsetX + data.width : gridRect.right });
+            }
+        });
+
+        // Layout grid margins and column/row edges
+        canvases.forEach(data => {
+            if (!data.layoutGrid) return;
+            const { columns, rows } = GuideManager.getLayoutTracks(data.layoutGrid, data.width, data.height);
+            columns.forEach(([start, end]) => [start, end].forEach(x => targets.push({
+                axis: 'x', position: data.offsetX + x, start: data.offsetY, end: data.offsetY + data.height
+            })));
+            rows.forEach(([start, end]) => [start, end].forEach(y => targets.push({
+                axis: 'y', position: data.offsetY + y, start: data.offsetX, end: data.offsetX + data.width
+            })));
+        });
+        return targets;
+    }
+
+    // Column and row spans of a layout grid in canvas-local coordinates.
+    // With no columns (or rows) the margin box itself is the single track, so margins still show.
+    public static getLayoutTracks(grid: LayoutGrid, width: number, height: number): { columns: [number, number][]; rows: [number, number][] } {
+        const split = (size: number, count: number): [number, number][] => {
+            const inner = size - grid.margin * 2;
+            if (count < 1 || inner <= 0) return inner > 0 ? [[grid.margin, size - grid.margin]] : [];
+            const track = (inner - grid.gutter * (count - 1)) / count;
+            if (track <= 0) return [[grid.margin, size - grid.margin]];
+            return Array.from({ length: count }, (_, i) => {
+                const start = grid.margin + i * (track + grid.gutter);
+                return [start, start + track] as [number, number];
+            });
+        };
+        return { columns: split(width, grid.columns), rows: split(height, grid.rows) };
+    }
+
+    private setPosition(id: string, position: number): void {
+        const guide = this.guides.find(g => g.id === id);
+        if (!guide) return;
+        guide.position = position;
+        this.notify();
+    }
+
+    private removeSilently(id: string): void {
+        this.guides = this.guides.filter(guide => guide.id !== id);
+        this.notify();
+    }
+
+    // Canvases re-render on 'guides-changed'; autosave only cares when the saved guides changed
+    private notify(documentChanged: boolean = true): void {
+        document.dispatchEvent(new CustomEvent('guides-changed', { detail: { documentChanged } }));
+    }
+}
@@ -0,0 +1,171 @@
+// Undo/redo stack for element and canvas mutations
+export interface HistoryEntry {
+    label: string;
+    undo: () => void;
+    redo: () => void;
+    // Merge a later entry of the same gesture into this one; return false to keep them separate
+    absorb?: (next: HistoryEntry) => boolean;
+}
+
+interface Transaction {
+    label: string;
+    entries: HistoryEntry[];
+    depth: number;
+}
+
+export class HistoryManager {
+    private undoStack: HistoryEntry[] = [];
+    private redoStack: HistoryEntry[] = [];
+    private transaction: Transaction | null = null;
+    private applying: boolean = false;  // True while an entry is being undone/redone
+    private untracked: number = 0;      // Nesting depth of runUntracked calls
+    private maxEntries: number = 200;
+
+    constructor() {
+        console.log('[HISTORY] HistoryManager initialized');
+    }
+
+    // Record a mutation that has already been applied
+    public record(entry: HistoryEntry): void {
+        if (this.applying || this.untracked > 0) return;
+
+        if (this.transaction) {
+            const entries = this.transaction.entries;
+            // Continuous gestures emit many updates; fold them into the earlier entry they extend
+            for (let i = entries.length - 1; i >= 0; i--) {
+                const previous = entries[i];
+                if (!previous.absorb) break;
+                if (previous.absorb(entry)) return;
+            }
+            entries.push(entry);
+            return;
+        }
+
+        this.push(entry);
+    }
+
+    // Group every mutation until the matching endTransaction into a single undo step
+    public beginTransaction(label: string): void {
+        if (this.transaction) {
+            this.transaction.depth++;
+            return;
+        }
+        this.transaction = { label, entries: [], depth: 1 };
+    }
+
+    public endTransaction(): void {
+        const transaction = this.transaction;
+        if (!transaction) return;
+
+        transaction.depth--;
+        if (transaction.depth > 0) return;
+
+        this.transaction = null;
+        if (transaction.entries.length === 0) return;
+
+        if (transaction.entries.length === 1) {
+            this.push(transaction.entries[0]);
+            return;
+        }
+
+        const entries = transaction.entries;
+        this.push({
+            label: transaction.label,
+            undo: () => {
+                for (let i = entries.length - 1; i >= 0; i--) {
+                    entries[i].undo();
+                }
+            },
+            redo: () => {
+                entries.forEach(entry => entry.redo());
+            }
+        });
+    }
+
+    public isInTransaction(): boolean {
+        return this.transaction !== null;
+    }
+
+    // Run mutations that should not appear in the history (e.g. bookkeeping metadata)
+    public runUntracked(callback: () => void): void {
+        this.untracked++;
+        try {
+            callback();
+        } finally {
+            this.untracked--;
+        }
+    }
+
+    public undo(): boolean {
+        // Close any gesture still in progress so it can be undone as a whole
+        while (this.transaction) {
+            this.endTransaction();
+        }
+
+        const entry = this.undoStack.pop();
+        if (!entry) return false;
+
+        this.apply(() => entry.undo());
+        this.redoStack.push(entry);
+        console.log(`[HISTORY] Undo: ${entry.label}`);
+        this.notify('undo');
+        return true;
+    }
+
+    public redo(): boolean {
+        if (this.transaction) return false;
+
+        const entry = this.redoStack.pop();
+        if (!entry) return false;
+
+        this.apply(() => entry.redo());
+        this.undoStack.push(entry);
+        console.log(`[HISTORY] Redo: ${entry.label}`);
+        this.notify('redo');
+        return true;
+    }
+
+    public canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    public canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    // Forget everything (e.g. after loading a different project)
+    public clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.transaction = null;
+        this.notify('clear');
+    }
+
+    private apply(callback: () => void): void {
+        this.applying = true;
+        try {
+            callback();
+        } finally {
+            this.applying = false;
+        }
+    }
+
+    private push(entry: HistoryEntry): void {
+        this.undoStack.push(entry);
+        if (this.undoStack.length > this.maxEntries) {
+            this.undoStack.shift();
+        }
+        this.redoStack = [];
+        this.notify('record');
+    }
+
+    private notify(action: 'record' | 'undo' | 'redo' | 'clear'): void {
+        document.dispatchEvent(new CustomEvent('history-changed', {
+            detail: {
+                action,
+                canUndo: this.canUndo(),
+                canRedo: this.canRedo()
+            }
+        }));
+    }
+}
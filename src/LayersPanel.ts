@@ -0,0 +1,285 @@
+import { MultiCanvasManager } from './MultiCanvasManager';
+import { GlobalElementManager } from './GlobalElementManager';
+import { CanvasElement, ShapeType } from './types';
+
+const ICONS: Record<CanvasElement['type'], string> = {
+    text: 'T', image: '🖼', rect: '▭', ellipse: '◯', line: '╱', arrow: '→', path: '✏'
+};
+const SHAPE_LABELS: Record<ShapeType | 'path', string> = {
+    rect: '사각형', ellipse: '원', line: '선', arrow: '화살표', path: '경로'
+};
+
+// Side panel listing every element in z-order (front first) with select, reorder, rename, hide and lock
+export class LayersPanel {
+    private multiCanvasManager: MultiCanvasManager;
+    private globalManager: GlobalElementManager;
+    private panel: HTMLElement;
+    private list: HTMLElement;
+    private renderScheduled: boolean = false;
+    private editingId: string | null = null;  // Row being renamed; re-rendering would drop the input
+    private dragIds: string[] = [];
+
+    constructor(multiCanvasManager: MultiCanvasManager) {
+        this.multiCanvasManager = multiCanvasManager;
+        this.globalManager = multiCanvasManager.getGlobalElementManager();
+        this.panel = document.getElementById('layersPanel') as HTMLElement;
+        this.list = document.getElementById('layersList') as HTMLElement;
+        this.setupEventListeners();
+        this.render();
+    }
+
+    private setupEventListeners(): void {
+        const layersBtn = document.getElementById('layersBtn');
+        layersBtn?.addEventListener('click', () => {
+            const isHidden = this.panel.style.display === 'none';
+            this.panel.style.display = isHidden ? 'flex' : 'none';
+            layersBtn.classList.toggle('active', isHidden);
+            if (isHidden) this.scheduleRender();
+        });
+
+        this.globalManager.subscribe(() => this.scheduleRender());
+        // Single selection and canvas renames do not go through the element store
+        document.addEventListener('selection-changed', () => this.scheduleRender());
+        document.addEventListener('canvas-structure-changed', () => this.scheduleRender());
+    }
+
+    // Element changes arrive on every mouse move while dragging; redraw at most once per frame
+    private scheduleRender(): void {
+        if (this.renderScheduled) return;
+        this.renderScheduled = true;
+        requestAnimationFrame(() => {
+            this.renderScheduled = false;
+            this.render();
+        });
+    }
+
+    private render(): void {
+        if (!this.list || this.editingId || this.panel.style.display === 'none') return;
+
+        this.list.innerHTML = '';
+        const elements = this.globalManager.getAllElements().reverse();
+        if (elements.length === 0) {
+            const empty = document.createElement('div');
+            empty.className = 'layers-empty';
+            empty.textContent = '요소가 없습니다';
+            this.list.appendChild(empty);
+            return;
+        }
+
+        elements.forEach(element => this.list.appendChild(this.createRow(element)));
+    }
+
+    private createRow(element: CanvasElement): HTMLElement {
+        const row = document.createElement('div');
+        row.className = 'layer-row';
+        row.classList.toggle('selected', this.globalManager.isSelected(element.id));
+        row.classList.toggle('hidden', !!element.hidden);
+        row.classList.toggle('locked', !!element.locked);
+        row.classList.toggle('grouped', !!element.groupId);
+        row.draggable = true;
+        row.dataset.elementId = element.id;
+
+        const icon = document.createElement('span');
+        icon.className = 'layer-icon';
+        icon.textContent = ICONS[element.type];
+        row.appendChild(icon);
+
+        if (element.type === 'image' && element.imageElement) {
+            const thumb = document.createElement('img');
+            thumb.className = 'layer-thumb';
+            thumb.src = element.imageElement.src;
+            thumb.draggable = false;
+            row.appendChild(thumb);
+        }
+
+        const info = document.createElement('div');
+        info.className = 'layer-info';
+        const name = document.createElement('span');
+        name.className = 'layer-name';
+        name.textContent = this.getLabel(element);
+        name.title = '더블클릭하여 이름 변경';
+        const canvas = document.createElement('span');
+        canvas.className = 'layer-canvas';
+        canvas.textContent = this.getCanvasName(element.canvasId);
+        info.appendChild(name);
+        info.appendChild(canvas);
+        row.appendChild(info);
+
+        row.appendChild(this.createToggle(element.hidden ? '🚫' : '👁', element.hidden ? '보이기' : '숨기기',
+            () => this.toggleHidden(element)));
+        row.appendChild(this.createToggle(element.locked ? '🔒' : '🔓', element.locked ? '잠금 해제' : '잠금',
+            () => this.globalManager.updateElement(element.id, { locked: !element.locked })));
+
+        row.addEventListener('click', (e) => this.select(element, e.shiftKey || e.metaKey || e.ctrlKey));
+        name.addEventListener('dblclick', (e) => {
+            e.stopPropagation();
+            this.startRename(element, name);
+        });
+        this.setupDrag(row, element);
+
+        return row;
+    }
+
+    private createToggle(label: string, title: string, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.className = 'layer-toggle';
+        button.textContent = label;
+        button.title = title;
+        button.addEventListener('click', (e) => {
+            e.stopPropagation();
+            onClick();
+            document.dispatchEvent(new CustomEvent('element-moved')); // Re-render every canvas
+        });
+        return button;
+    }
+
+    // Name, else a content preview
+    private getLabel(element: CanvasElement): string {
+        if (element.name) return element.name;
+        if (element.type === 'image') return '이미지';
+        if (element.type !== 'text') return SHAPE_LABELS[element.type];
+        const firstLine = element.content.split('\n')[0].trim();
+        if (!firstLine) return '텍스트';
+        return firstLine.length > 24 ? `${firstLine.slice(0, 24)}…` : firstLine;
+    }
+
+    private getCanvasName(canvasId?: string): string {
+        if (!canvasId) return '-';
+        return this.multiCanvasManager.getCanvasData(canvasId)?.name || canvasId;
+    }
+
+    private select(element: CanvasElement, toggle: boolean): void {
+        if (toggle) {
+            // Keep the current single selection when extending it
+            const primary = this.globalManager.getSelectedElement();
+            if (primary && primary.id !== element.id) {
+                this.globalManager.addToSelection(primary.id);
+            }
+            if (this.globalManager.isSelected(element.id)) {
+                this.globalManager.removeFromSelection(element.id);
+                if (primary?.id === element.id) {
+                    this.globalManager.setSelectedElement(null);
+                }
+            } else {
+                this.globalManager.addToSelection(element.id);
+            }
+        } else {
+            // Picking a grouped row opens its group, like double-clicking it on the canvas
+            this.globalManager.setEnteredGroup(element.groupId || null);
+            this.globalManager.clearSelection();
+            this.globalManager.setSelectedElement(element.id);
+            if (element.canvasId) {
+                document.dispatchEvent(new CustomEvent('canvas-clicked', {
+                    detail: { canvasId: element.canvasId }
+                }));
+            }
+        }
+
+        document.dispatchEvent(new CustomEvent('selection-changed', {
+            detail: { element: this.globalManager.getSelectedElement() }
+        }));
+        document.dispatchEvent(new CustomEvent('element-moved')); // Re-render every canvas
+    }
+
+    // A hidden element cannot be clicked on, so it should not stay selected either
+    private toggleHidden(element: CanvasElement): void {
+        const hidden = !element.hidden;
+        this.globalManager.updateElement(element.id, { hidden });
+        if (hidden && this.globalManager.isSelected(element.id)) {
+            this.globalManager.removeFromSelection(element.id);
+            if (this.globalManager.getSelectedElement()?.id === element.id) {
+                this.globalManager.setSelectedElement(null);
+            }
+            document.dispatchEvent(new CustomEvent('selection-changed', {
+                detail: { element: this.globalManager.getSelectedElement() }
+            }));
+        }
+    }
+
+    private startRename(element: CanvasElement, label: HTMLElement): void {
+        this.editingId = element.id;
+
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.className = 'layer-name-input';
+        input.value = element.name || '';
+        input.placeholder = this.getLabel({ ...element, name: undefined });
+        label.replaceWith(input);
+        input.focus();
+        input.select();
+
+        let done = false;
+        const finish = (commit: boolean) => {
+            if (done) return;
+            done = true;
+            this.editingId = null;
+            const name = input.value.trim() || undefined;
+            if (commit && name !== element.name) {
+                this.globalManager.updateElement(element.id, { name });
+            }
+            this.render();
+        };
+
+        input.addEventListener('keydown', (e) => {
+            // Keep Delete/Backspace etc. away from the canvas shortcuts
+            e.stopPropagation();
+            if (e.key === 'Enter') finish(true);
+            if (e.key === 'Escape') finish(false);
+        });
+        input.addEventListener('blur', () => finish(true));
+        input.addEventListener('click', (e) => e.stopPropagation());
+    }
+
+    private setupDrag(row: HTMLElement, element: CanvasElement): void {
+        row.addEventListener('dragstart', (e) => {
+            // Dragging a selected row carries the whole selection along
+            this.dragIds = this.globalManager.isSelected(element.id)
+                ? this.globalManager.getZOrder().filter(id => this.globalManager.isSelected(id))
+                : [element.id];
+            e.dataTransfer?.setData('text/plain', element.id);
+            if (e.dataTransfer) e.dataTransfer.effectAllowed = 'move';
+            row.classList.add('dragging');
+        });
+
+        row.addEventListener('dragend', () => {
+            this.dragIds = [];
+            row.classList.remove('dragging');
+            this.clearDropMarkers();
+        });
+
+        row.addEventListener('dragover', (e) => {
+            if (this.dragIds.length === 0 || this.dragIds.includes(element.id)) return;
+            e.preventDefault();
+            this.clearDropMarkers();
+            row.classList.add(this.isUpperHalf(row, e) ? 'drop-above' : 'drop-below');
+        });
+
+        row.addEventListener('dragleave', () => {
+            row.classList.remove('drop-above', 'drop-below');
+        });
+
+        row.addEventListener('drop', (e) => {
+            e.preventDefault();
+            if (this.dragIds.length === 0 || this.dragIds.includes(element.id)) return;
+
+            // The list shows the front first, so "above" in the panel means in front of the target
+            const rest = this.globalManager.getZOrder().filter(id => !this.dragIds.includes(id));
+            const targetIndex = rest.indexOf(element.id);
+            const index = this.isUpperHalf(row, e) ? targetIndex + 1 : targetIndex;
+            this.globalManager.moveElementsToIndex(this.dragIds, index);
+            this.dragIds = [];
+            document.dispatchEvent(new CustomEvent('element-moved')); // Re-render every canvas
+        });
+    }
+
+    private isUpperHalf(row: HTMLElement, e: DragEvent): boolean {
+        const rect = row.getBoundingClientRect();
+        return e.clientY < rect.top + rect.height / 2;
+    }
+
+    private clearDropMarkers(): void {
+        this.list.querySelectorAll('.drop-above, .drop-below').forEach(row => {
+            row.classList.remove('drop-above', 'drop-below');
+        });
+    }
+}
@@ -0,0 +1,90 @@
+import { MultiCanvasManager } from './MultiCanvasManager';
+import { LayoutGrid } from './types';
+
+const DEFAULT_GRID: LayoutGrid = { columns: 3, rows: 0, gutter: 20, margin: 40 };
+
+// Layout grid settings for the active canvas; edits apply live, and can be copied to every canvas
+export class LayoutGridDialog {
+    private multiCanvasManager: MultiCanvasManager;
+    private dialog: HTMLElement;
+    private enabledInput: HTMLInputElement;
+    private columnsInput: HTMLInputElement;
+    private rowsInput: HTMLInputElement;
+    private gutterInput: HTMLInputElement;
+    private marginInput: HTMLInputElement;
+
+    constructor(multiCanvasManager: MultiCanvasManager) {
+        this.multiCanvasManager = multiCanvasManager;
+        this.dialog = document.getElementById('layoutGridDialog') as HTMLElement;
+        this.enabledInput = document.getElementById('layoutGridEnabled') as HTMLInputElement;
+        this.columnsInput = document.getElementById('layoutColumns') as HTMLInputElement;
+        this.rowsInput = document.getElementById('layoutRows') as HTMLInputElement;
+        this.gutterInput = document.getElementById('layoutGutter') as HTMLInputElement;
+        this.marginInput = document.getElementById('layoutMargin') as HTMLInputElement;
+        this.setupEventListeners();
+    }
+
+    private setupEventListeners(): void {
+        document.getElementById('layoutGridBtn')?.addEventListener('click', () => this.open());
+        document.getElementById('layoutGridDialogClose')?.addEventListener('click', () => this.close());
+
+        // Close when clicking the backdrop
+        this.dialog?.addEventListener('click', (e) => {
+            if (e.target === this.dialog) {
+                this.close();
+            }
+        });
+
+        [this.enabledInput, this.columnsInput, this.rowsInput, this.gutterInput, this.marginInput].forEach(input => {
+            input?.addEventListener('input', () => this.applyToActive());
+            // Keep Delete/Backspace etc. away from the canvas shortcuts
+            input?.addEventListener('keydown', (e) => e.stopPropagation());
+        });
+
+        document.getElementById('applyLayoutGridAllBtn')?.addEventListener('click', () => {
+            const grid = this.getGrid();
+            this.multiCanvasManager.getAllCanvases().forEach((_, canvasId) => {
+                this.multiCanvasManager.setLayoutGrid(canvasId, grid);
+            });
+            this.close();
+        });
+    }
+
+    public open(): void {
+        const canvasId = this.multiCanvasManager.getActiveCanvasId();
+        if (!this.dialog || !canvasId) return;
+
+        const grid = this.multiCanvasManager.getCanvasData(canvasId)?.layoutGrid;
+        const values = grid || DEFAULT_GRID;
+        this.enabledInput.checked = !!grid;
+        this.columnsInput.value = values.columns.toString();
+        this.rowsInput.value = values.rows.toString();
+        this.gutterInput.value = values.gutter.toString();
+        this.marginInput.value = values.margin.toString();
+        this.dialog.style.display = 'flex';
+    }
+
+    public close(): void {
+        if (this.dialog) {
+            this.dialog.style.display = 'none';
+        }
+    }
+
+    // Undefined when the grid is switched off
+    private getGrid(): LayoutGrid | undefined {
+        if (!this.enabledInput.checked) return undefined;
+        const read = (input: HTMLInputElement) => Math.max(0, parseInt(input.value) || 0);
+        return {
+            columns: read(this.columnsInput),
+            rows: read(this.rowsInput),
+            gutter: read(this.gutterInput),
+            margin: read(this.marginInput)
+        };
+    }
+
+    private applyToActive(): void {
+        const canvasId = this.multiCanvasManager.getActiveCanvasId();
+        if (!canvasId) return;
+        this.multiCanvasManager.setLayoutGrid(canvasId, this.getGrid());
+    }
+}
@@ -0,0 +1,234 @@
+import { CanvasGridManager } from './CanvasGridManager';
+import { HistoryManager } from './HistoryManager';
+import { CanvasLink, CanvasSide, LinkKind } from './types';
+
+const OPPOSITE_SIDES: { [side in CanvasSide]: CanvasSide } = { left: 'right', right: 'left', top: 'bottom', bottom: 'top' };
+
+// Directed links between canvases: the single source of truth for whether elements of one canvas
+// show on another (rendering, exports) and may be dragged into it (handoff). Every pair of grid
+// neighbours has a link in each direction, created enabled; the grid layout decides their kind.
+// Portals are added by hand between canvases that are not neighbours and keep their place in
+// shared coordinates out of it: what crosses a portal is shifted into the other canvas instead.
+export class LinkManager {
+    private gridManager: CanvasGridManager;
+    private history: HistoryManager;
+    private links: Map<string, CanvasLink> = new Map(); // "from>to" -> link
+
+    constructor(gridManager: CanvasGridManager, history: HistoryManager) {
+        this.gridManager = gridManager;
+        this.history = history;
+    }
+
+    public getLinks(): CanvasLink[] {
+        return Array.from(this.links.values()).map(link => ({ ...link }));
+    }
+
+    public getLink(from: string, to: string): CanvasLink | null {
+        return this.links.get(this.getKey(from, to)) || null;
+    }
+
+    public getLinksFrom(canvasId: string, kind?: LinkKind): CanvasLink[] {
+        return this.getLinks().filter(link => link.from === canvasId && (!kind || link.kind === kind));
+    }
+
+    // An enabled link leads from one canvas to the other
+    public isLinked(from: string, to: string): boolean {
+        return this.getLink(from, to)?.enabled ?? false;
+    }
+
+    // Whether elements owned by `from` may be drawn on `to`. Only a disabled link hides them;
+    // canvases that are not neighbours have no link (or only a portal) and do not restrict each other.
+    public isVisibleAcross(from: string, to: string): boolean {
+        const link = this.getLink(from, to);
+        return !link || link.kind === 'portal' || link.enabled;
+    }
+
+    // Elements hand over to another canvas only through an enabled link
+    public canElementMoveBetweenCanvases(from: string, to: string): boolean {
+        return this.isLinked(from, to);
+    }
+
+    // The portal leaving a side of a canvas, if any
+    public getPortal(canvasId: string, side: CanvasSide): CanvasLink | null {
+        return this.getLinksFrom(canvasId, 'portal').find(link => link.side === side) || null;
+    }
+
+    // Every canvas reachable from `canvasId` through enabled neighbour links, followed in either direction
+    public getLinkedComponent(canvasId: string): string[] {
+        const component = new Set<string>([canvasId]);
+        const queue = [canvasId];
+        while (queue.length > 0) {
+            const current = queue.shift()!;
+            this.links.forEach(link => {
+                if (!link.enabled || link.kind === 'portal') return;
+                const next = link.from === current ? link.to : link.to === current ? link.from : null;
+                if (next && !component.has(next)) {
+                    component.add(next);
+                    queue.push(next);
+                }
+            });
+        }
+        return Array.from(component);
+    }
+
+    // Toggle one direction of a link as an undoable step
+    public setEnabled(from: string, to: string, enabled: boolean): void {
+        const link = this.getLink(from, to);
+        if (!link || link.enabled === enabled) return;
+        this.applyEnabled(from, to, enabled);
+        this.history.record({
+            label: 'toggle-link',
+            undo: () => this.applyEnabled(from, to, !enabled),
+            redo: () => this.applyEnabled(from, to, enabled)
+        });
+    }
+
+    // Join a side of one canvas to the opposite side of another as an undoable step. Each side takes
+    // one portal, and neighbours are already linked, so those pairs are refused. So is a side that
+    // has a grid neighbour: elements crossing it would show on the neighbour and go through the portal.
+    public addPortal(from: string, side: CanvasSide, to: string): boolean {
+        const entry = OPPOSITE_SIDES[side];
+        if (from === to || this.getLink(from, to) || this.getLink(to, from) ||
+            this.getPortal(from, side) || this.getPortal(to, entry) ||
+            this.gridManager.getAdjacentCanvases(from).has(side) ||
+            this.gridManager.getAdjacentCanvases(to).has(entry) ||
+            !this.gridManager.getCanvasPosition(from) || !this.gridManager.getCanvasPosition(to)) {
+            return false;
+        }
+        const portal: CanvasLink[] = [
+            { from, to, kind: 'portal', enabled: true, side },
+            { from: to, to: from, kind: 'portal', enabled: true, side: entry }
+        ];
+        this.applyPortal(portal, true);
+        this.history.record({
+            label: 'add-portal',
+            undo: () => this.applyPortal(portal, false),
+            redo: () => this.applyPortal(portal, true)
+        });
+        return true;
+    }
+
+    // Remove both directions of the portal between two canvases as an undoable step
+    public removePortal(from: string, to: string): void {
+        const portal = [this.getLink(from, to), this.getLink(to, from)]
+            .filter((link): link is CanvasLink => link?.kind === 'portal')
+            .map(link => ({ ...link }));
+        if (portal.length === 0) return;
+        this.applyPortal(portal, false);
+        this.history.record({
+            label: 'remove-portal',
+            undo: () => this.applyPortal(portal, true),
+            redo: () => this.applyPortal(portal, false)
+        });
+    }
+
+    // Force link states without a history entry; `rule` returns null to leave a link alone. Used for
+    // rules re-applied after every grid change (spreads), whose undo restores a snapshot of the links.
+    public applyRule(rule: (link: CanvasLink) => boolean | null): void {
+        let changed = false;
+        this.links.forEach(link => {
+            const enabled = rule({ ...link });
+            if (enabled === null || enabled === link.enabled) return;
+            link.enabled = enabled;
+            changed = true;
+        });
+        if (changed) this.notify();
+    }
+
+    // Bring the links in line with the grid: new neighbour pairs get enabled links, pairs that
+    // moved apart lose theirs and pairs that now touch differently get the new kind. Portals stay
+    // until their canvases become neighbours, which links them directly.
+    public syncWithGrid(): void {
+        let changed = false;
+        this.links.forEach((link, key) => {
+            const kind = this.getNeighbourKind(link.from, link.to);
+            if (link.kind === 'portal') {
+                if (kind) {
+                    this.links.delete(key);
+                    changed = true;
+                }
+            } else if (!kind) {
+                this.links.delete(key);
+                changed = true;
+            } else if (kind !== link.kind) {
+                link.kind = kind;
+                changed = true;
+            }
+        });
+
+        const canvasIds = this.gridManager.getCanvasIds();
+        canvasIds.forEach(from => {
+            this.gridManager.getAdjacentCanvases(from).forEach(to => {
+                const key = this.getKey(from, to);
+                if (this.links.has(key)) return;
+                this.links.set(key, { from, to, kind: this.getNeighbourKind(from, to)!, enabled: true });
+                changed = true;
+            });
+        });
+        if (changed) this.notify();
+    }
+
+    // Replace every link (document load, or restoring a snapshot on undo)
+    public loadLinks(links: CanvasLink[]): void {
+        this.links.clear();
+        links.forEach(link => this.links.set(this.getKey(link.from, link.to), { ...link }));
+        this.notify();
+    }
+
+    public removeCanvas(canvasId: string): void {
+        this.links.forEach((link, key) => {
+            if (link.from === canvasId || link.to === canvasId) {
+                this.links.delete(key);
+            }
+        });
+        this.notify();
+    }
+
+    public clear(): void {
+        this.links.clear();
+        this.notify();
+    }
+
+    private applyEnabled(from: string, to: string, enabled: boolean): void {
+        const link = this.getLink(from, to);
+        if (!link) return;
+        link.enabled = enabled;
+        console.log(`[LINK] ${from} -> ${to}: ${enabled ? 'ENABLED' : 'DISABLED'}`);
+        this.notify(link);
+    }
+
+    private applyPortal(portal: CanvasLink[], add: boolean): void {
+        portal.forEach(link => {
+            const key = this.getKey(link.from, link.to);
+            if (add) {
+                this.links.set(key, { ...link });
+            } else {
+                this.links.delete(key);
+            }
+        });
+        console.log(`[LINK] Portal ${portal[0].from} (${portal[0].side}) <-> ${portal[0].to}: ${add ? 'ADDED' : 'REMOVED'}`);
+        this.notify();
+    }
+
+    private getNeighbourKind(from: string, to: string): LinkKind | null {
+        const a = this.gridManager.getCanvasPosition(from);
+        const b = this.gridManager.getCanvasPosition(to);
+        if (!a || !b) return null;
+        const rows = Math.abs(a.row - b.row);
+        const cols = Math.abs(a.col - b.col);
+        if (rows > 1 || cols > 1 || rows + cols === 0) return null;
+        return rows + cols === 1 ? 'edge' : 'corner';
+    }
+
+    // Ids may contain '-', so the key uses a separator they cannot
+    private getKey(from: string, to: string): string {
+        return `${from}>${to}`;
+    }
+
+    // Canvases re-render, link buttons update and autosave runs on 'links-changed'
+    private notify(link?: CanvasLink): void {
+        document.dispatchEvent(new CustomEvent('links-changed', {
+            detail: link ? { from: link.from, to: link.to, enabled: link.enabled } : {}
+        }));
+    }
+}
@@ -1,24 +1,43 @@
 import { CanvasManager } from './CanvasManager';
 import { GlobalElementManager } from './GlobalElementManager';
-import { CanvasGridManager } from './CanvasGridManager';
-import { CanvasData } from './types';
+import { CanvasGridManager, GridPosition } from './CanvasGridManager';
+import { DocumentSerializer } from './DocumentSerializer';
+import { HistoryManager } from './HistoryManager';
+import { SnapManager } from './SnapManager';
+import { GuideManager } from './GuideManager';
+import { LinkManager } from './LinkManager';
+import { SpreadManager } from './SpreadManager';
+import { CanvasData, CanvasElement, ProjectDocument, SerializedCanvas, DOCUMENT_SCHEMA_VERSION, Alignment, AlignReference, LayoutGrid, Point, CanvasSide } from './types';
+import { ElementGeometry, Rect } from './ElementGeometry';
+import { PathGeometry } from './PathGeometry';
 
 export class MultiCanvasManager {
     private canvases: Map<string, CanvasManager> = new Map();
     private canvasDataMap: Map<string, CanvasData> = new Map();
     private globalElementManager: GlobalElementManager;
     private gridManager: CanvasGridManager;
+    private linkManager: LinkManager;
+    private spreadManager: SpreadManager;
     private activeCanvasId: string | null = null;
+    private selectedCanvasIds: Set<string> = new Set();  // Shift-clicked thumbnails/titles, e.g. to make a spread
     private canvasContainer: HTMLElement;
     private thumbnailContainer: HTMLElement;
     private canvasCount: number = 0;
     private totalWidth: number = 0;  // Track total width of all canvases
     private currentResolution: { width: number; height: number } = { width: 800, height: 600 };
-    private directionalLinkStates: Map<string, boolean> = new Map(); // Track directional link states
+    private serializer: DocumentSerializer = new DocumentSerializer();
+    private history: HistoryManager;
+    private snapManager: SnapManager = new SnapManager(this);
+    private guideManager: GuideManager;
+    private penMode: boolean = false;  // Pointer drags draw freehand paths instead of selecting
 
     constructor() {
-        this.globalElementManager = new GlobalElementManager();
+        this.history = new HistoryManager();
+        this.globalElementManager = new GlobalElementManager(this.history);
+        this.guideManager = new GuideManager(this, this.history);
         this.gridManager = new CanvasGridManager();
+        this.linkManager = new LinkManager(this.gridManager, this.history);
+        this.spreadManager = new SpreadManager(this.linkManager, this.history);
         (window as any).canvasGridManager = this.gridManager;
         (window as any).multiCanvasManager = this; // Make this accessible globally
         this.canvasContainer = document.getElementById('canvasContainer') as HTMLElement;
@@ -47,12 +66,42 @@ export class MultiCanvasManager {
             this.addCanvas('bottom');
         });
         
+        document.getElementById('penBtn')?.addEventListener('click', () => {
+            this.setPenMode(!this.penMode);
+        });
+        document.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape' && this.penMode) {
+                this.setPenMode(false);
+            }
+        });
+        
         // Listen for element movement to re-render canvases
         document.addEventListener('element-moved', () => {
             // Always render all canvases to show linked elements
             this.renderAllCanvases();
         });
         
+        document.addEventListener('guides-changed', () => this.renderAllCanvases());
+        
+        // Canvases re-render themselves; the link buttons show the new states
+        document.addEventListener('links-changed', () => this.updateLinkButtonStates());
+        
+        // Spread outlines sit on the canvases of their members
+        document.addEventListener('spreads-changed', () => this.updateSpreadOutlines());
+        document.addEventListener('canvas-structure-changed', () => this.updateSpreadOutlines());
+        
+        // Each canvas refits itself to the window; bring them back to one shared scale
+        window.addEventListener('resize', () => this.syncDisplayScale());
+        
+        // Undo/redo can touch elements on any canvas
+        document.addEventListener('history-changed', (e) => {
+            const action = (e as CustomEvent).detail?.action;
+            if (action === 'undo' || action === 'redo') {
+                this.renderAllCanvases();
+                this.updateAllThumbnails();
+            }
+        });
+        
         // Listen for canvas click events to activate the clicked canvas
         document.addEventListener('canvas-clicked', (e) => {
             const customEvent = e as CustomEvent;
@@ -67,6 +116,9 @@ export class MultiCanvasManager {
             const customEvent = e as CustomEvent;
             const { globalX, globalY, elementId } = customEvent.detail;
             
+            // A portal takes the element over before any neighbour does
+            if (this.activeCanvasId && this.handOverThroughPortal(elementId, this.activeCanvasId)) return;
+            
             // Find which canvas the element is being dragged over
             this.canvases.forEach((canvasManager, canvasId) => {
                 const wrapper = document.getElementById(`wrapper-${canvasId}`);
@@ -89,7 +141,7 @@ export class MultiCanvasManager {
                 
                 if (isOverCanvas && this.activeCanvasId !== canvasId) {
                     // Check if movement is allowed from active canvas to this canvas
-                    if (this.activeCanvasId && this.gridManager.areCanvasesLinked(this.activeCanvasId, canvasId)) {
+                    if (this.activeCanvasId && this.linkManager.canElementMoveBetweenCanvases(this.activeCanvasId, canvasId)) {
                         // Update element's canvas assignment
                         const element = this.globalElementManager.getElement(elementId);
                         if (element) {
@@ -157,14 +209,112 @@ export class MultiCanvasManager {
         console.log('Element overflowing from', sourceCanvas.getCanvas().id, 'to', targetCanvas.getCanvas().id);
     }
 
-    public addCanvas(direction: 'right' | 'bottom' = 'right'): void {
+    // Add a canvas next to the active one; returns its id
+    public addCanvas(direction: 'right' | 'bottom' = 'right', overrides: { name?: string; layoutGrid?: LayoutGrid } = {}): string {
         this.canvasCount++;
         const canvasId = `canvas-${Date.now()}`;
-        const canvasName = `캔버스 ${this.canvasCount}`;
+        const canvasName = overrides.name || `캔버스 ${this.canvasCount}`;
         
         // Find grid position for new canvas relative to active canvas
         const gridPos = this.gridManager.findNextPosition(direction, this.activeCanvasId || undefined);
         
+        // New canvases take the size of the canvas they are added next to
+        const resolution = this.getActiveCanvasResolution() || this.currentResolution;
+        const spec: SerializedCanvas = {
+            id: canvasId,
+            name: canvasName,
+            row: gridPos.row,
+            col: gridPos.col,
+            width: resolution.width,
+            height: resolution.height,
+            layoutGrid: overrides.layoutGrid
+        };
+        
+        const previousOffsets = this.getOffsets();
+        this.history.beginTransaction('add-canvas');
+        try {
+            this.createCanvas(spec);
+            
+            // Set as active canvas
+            this.setActiveCanvas(canvasId);
+            
+            this.history.record({
+                label: 'add-canvas',
+                undo: () => this.removeCanvas(canvasId),
+                redo: () => {
+                    this.createCanvas(spec);
+                    this.setActiveCanvas(canvasId);
+                }
+            });
+            this.followCanvasOffsets(previousOffsets);
+        } finally {
+            this.history.endTransaction();
+        }
+        
+        // Scroll to the new canvas
+        const wrapper = document.getElementById(`wrapper-${canvasId}`);
+        wrapper?.scrollIntoView({ behavior: 'smooth', inline: 'end' });
+        return canvasId;
+    }
+    
+    // Add a copy of a canvas next to it: same size, layout grid and guides, and a copy of every
+    // element it owns or that overlaps it, shifted onto the new canvas. One undo step.
+    public duplicateCanvas(sourceId: string, direction: 'right' | 'bottom' = 'right'): void {
+        const source = this.canvasDataMap.get(sourceId);
+        if (!source) return;
+        
+        this.history.beginTransaction('duplicate-canvas');
+        try {
+            // addCanvas places the new canvas next to the active one and gives it the same size
+            this.setActiveCanvas(sourceId);
+            const canvasId = this.addCanvas(direction, {
+                name: this.getCopyName(source.name),
+                layoutGrid: source.layoutGrid ? { ...source.layoutGrid } : undefined
+            });
+            const copy = this.canvasDataMap.get(canvasId)!;
+            
+            // Read the source after adding: the new canvas may have shifted it (and its elements)
+            const dx = copy.offsetX - source.offsetX;
+            const dy = copy.offsetY - source.offsetY;
+            const sources = this.globalElementManager.getAllElements().filter(element => {
+                if (element.canvasId === sourceId) return true;
+                const bounds = ElementGeometry.getBounds(element);
+                return bounds.x < source.offsetX + source.width && bounds.x + bounds.width > source.offsetX &&
+                    bounds.y < source.offsetY + source.height && bounds.y + bounds.height > source.offsetY;
+            });
+            if (sources.length > 0) {
+                this.globalElementManager.addElementCopies(sources, dx, dy, canvasId);
+            }
+            
+            // Per-canvas guides are stored in local coordinates, so they copy as they are
+            this.guideManager.getGuides()
+                .filter(guide => guide.canvasId === sourceId)
+                .forEach(guide => this.guideManager.addGuide(guide.axis, guide.position, canvasId));
+            
+            this.renderAllCanvases();
+            this.updateThumbnail(canvasId);
+            console.log(`[CANVAS] Duplicated ${sourceId} as ${canvasId} with ${sources.length} elements`);
+        } finally {
+            this.history.endTransaction();
+        }
+    }
+    
+    // "이름 사본", then "이름 사본 2", "이름 사본 3", ... whichever is free
+    private getCopyName(name: string): string {
+        const names = new Set(Array.from(this.canvasDataMap.values()).map(data => data.name));
+        let copyName = `${name} 사본`;
+        for (let n = 2; names.has(copyName); n++) {
+            copyName = `${name} 사본 ${n}`;
+        }
+        return copyName;
+    }
+    
+    // Build the DOM, CanvasManager, link buttons and thumbnail for a canvas at a known grid cell
+    private createCanvas(spec: SerializedCanvas): void {
+        const canvasId = spec.id;
+        const canvasName = spec.name;
+        const gridPos = { row: spec.row, col: spec.col };
+        
         // Create canvas wrapper
         const wrapper = document.createElement('div');
         wrapper.className = 'canvas-wrapper';
@@ -175,13 +325,40 @@ export class MultiCanvasManager {
         // Create title (outside canvas)
         const title = document.createElement('div');
         title.className = 'canvas-title';
-        title.contentEditable = 'true';
+        title.draggable = true;  // Drag to rearrange the grid (CanvasReorderManager)
+        title.title = '더블클릭하여 이름 변경';
         title.textContent = canvasName;
+        // Renaming is a separate mode: a draggable title would start a reorder drag instead of
+        // selecting text, so dragging is off until the name is committed
+        title.addEventListener('dblclick', () => {
+            title.contentEditable = 'true';
+            title.draggable = false;
+            title.focus();
+            const range = document.createRange();
+            range.selectNodeContents(title);
+            window.getSelection()?.removeAllRanges();
+            window.getSelection()?.addRange(range);
+        });
+        title.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                title.blur();
+            }
+        });
+        // Shift-click selects the canvas instead of placing the caret
+        title.addEventListener('mousedown', (e) => {
+            if (!e.shiftKey) return;
+            e.preventDefault();
+            this.toggleCanvasSelection(canvasId);
+        });
         title.addEventListener('blur', () => {
+            title.contentEditable = 'false';
+            title.draggable = true;
             const data = this.canvasDataMap.get(canvasId);
             if (data) {
                 data.name = title.textContent || canvasName;
                 this.updateThumbnailLabel(canvasId, data.name);
+                this.dispatchStructureChange('rename', canvasId);
             }
         });
         
@@ -203,12 +380,9 @@ export class MultiCanvasManager {
         wrapper.appendChild(title);
         wrapper.appendChild(canvasContent);
         
-        // Add canvas to grid manager first
+        // Add canvas to grid manager first; its new neighbours get links
         this.gridManager.addCanvas(canvasId, gridPos.row, gridPos.col);
-        
-        // Calculate offset based on grid position (no gap in coordinate system)
-        const offsetX = gridPos.col * this.currentResolution.width;
-        const offsetY = gridPos.row * this.currentResolution.height;
+        this.syncLinksWithGrid();
         
         // Position canvas in grid
         // For grid: Canvas at (0,0) goes to grid cell (1,1)
@@ -246,55 +420,59 @@ export class MultiCanvasManager {
         }
         
         // NOW create CanvasManager instance after canvas is in the DOM
-        const canvasManager = new CanvasManager(canvasId, this.globalElementManager, offsetX, offsetY);
+        // Offsets depend on the sizes of every canvas in the same column and row; recalculateOffsets sets them below
+        const canvasManager = new CanvasManager(canvasId, this.globalElementManager);
         canvasManager.setZoomLevel(this.currentZoom);
         this.canvases.set(canvasId, canvasManager);
         
         // Create link buttons AFTER canvas is added
         this.createLinkButtons(canvasId);
         
-        // Also update buttons for adjacent canvases
+        // Also update buttons for adjacent canvases; diagonal neighbours share corner toggles
         const adjacent = this.gridManager.getAdjacentCanvases(canvasId);
-        adjacent.forEach((adjacentId) => {
+        adjacent.forEach((adjacentId, direction) => {
+            if (direction.includes('-')) return;
             this.updateLinkButtons(adjacentId, canvasId);
         });
+        this.updateCornerLinkButtons();
         
         // Store canvas data
         const canvasData: CanvasData = {
             id: canvasId,
             name: canvasName,
-            width: this.currentResolution.width,
-            height: this.currentResolution.height,
-            offsetX: offsetX,
-            offsetY: offsetY
+            width: spec.width,
+            height: spec.height,
+            offsetX: 0,
+            offsetY: 0,
+            layoutGrid: spec.layoutGrid
         };
         this.canvasDataMap.set(canvasId, canvasData);
         
         // Set resolution for the new canvas
-        canvasManager.setResolution(this.currentResolution.width, this.currentResolution.height);
-        
-        // Calculate real offset based on canvas widths only, excluding gaps
-        setTimeout(() => {
-            this.recalculateOffsets();
-        }, 0);
+        canvasManager.setResolution(spec.width, spec.height);
+        this.recalculateOffsets();
         
         // Update total width (only canvas widths, no gaps)
-        this.totalWidth += this.currentResolution.width;
+        this.totalWidth += spec.width;
         
         // Create thumbnail
         this.createThumbnail(canvasId, canvasName);
         
-        // Set as active canvas
-        this.setActiveCanvas(canvasId);
-        
-        // Scroll to the new canvas
-        wrapper.scrollIntoView({ behavior: 'smooth', inline: 'end' });
+        this.dispatchStructureChange('add', canvasId);
+    }
+    
+    // Canvas added, removed, renamed or given a new layout grid (used by autosave)
+    private dispatchStructureChange(action: 'add' | 'delete' | 'rename' | 'layout' | 'resize' | 'move', canvasId: string): void {
+        document.dispatchEvent(new CustomEvent('canvas-structure-changed', {
+            detail: { action, canvasId }
+        }));
     }
 
     private createThumbnail(canvasId: string, name: string): void {
         const thumbnailItem = document.createElement('div');
         thumbnailItem.className = 'thumbnail-item';
         thumbnailItem.id = `thumb-${canvasId}`;
+        thumbnailItem.draggable = true;  // Drag to rearrange the grid (CanvasReorderManager)
         
         // Get grid position for this canvas
         const position = this.gridManager.getCanvasPosition(canvasId);
@@ -324,12 +502,34 @@ export class MultiCanvasManager {
             this.deleteCanvas(canvasId);
         };
         
+        // Create duplicate button; opens the canvas menu (see CanvasMenu) to pick right or bottom
+        const duplicateBtn = document.createElement('button');
+        duplicateBtn.className = 'thumbnail-duplicate';
+        duplicateBtn.title = '복제 (오른쪽/아래쪽)';
+        duplicateBtn.innerHTML = '⧉';
+        duplicateBtn.onclick = (e) => {
+            e.stopPropagation();
+            const rect = duplicateBtn.getBoundingClientRect();
+            duplicateBtn.dispatchEvent(new MouseEvent('contextmenu', {
+                bubbles: true,
+                cancelable: true,
+                clientX: rect.left,
+                clientY: rect.bottom
+            }));
+        };
+        
         thumbnailItem.appendChild(thumbCanvas);
         thumbnailItem.appendChild(label);
+        thumbnailItem.appendChild(duplicateBtn);
         thumbnailItem.appendChild(deleteBtn);
         
-        // Add click handler
-        thumbnailItem.addEventListener('click', () => {
+        // Add click handler; Shift/Ctrl/Cmd-click adds to the canvas selection instead
+        thumbnailItem.addEventListener('click', (e) => {
+            if (e.shiftKey || e.ctrlKey || e.metaKey) {
+                this.toggleCanvasSelection(canvasId);
+                return;
+            }
+            this.clearCanvasSelection();
             this.setActiveCanvas(canvasId);
             const wrapper = document.getElementById(`wrapper-${canvasId}`);
             wrapper?.scrollIntoView({ behavior: 'smooth', inline: 'center' });
@@ -357,6 +557,40 @@ export class MultiCanvasManager {
         
         // Update thumbnail
         this.updateThumbnail(canvasId);
+        
+        // Toolbar controls that show per-canvas settings (resolution) follow the active canvas
+        document.dispatchEvent(new CustomEvent('active-canvas-changed', { detail: { canvasId } }));
+    }
+
+    public getSelectedCanvasIds(): string[] {
+        return Array.from(this.selectedCanvasIds);
+    }
+    
+    // The first Shift-click starts the selection from the active canvas
+    private toggleCanvasSelection(canvasId: string): void {
+        if (this.selectedCanvasIds.size === 0 && this.activeCanvasId && this.activeCanvasId !== canvasId) {
+            this.selectedCanvasIds.add(this.activeCanvasId);
+        }
+        if (this.selectedCanvasIds.has(canvasId)) {
+            this.selectedCanvasIds.delete(canvasId);
+        } else {
+            this.selectedCanvasIds.add(canvasId);
+        }
+        this.updateCanvasSelection();
+    }
+    
+    public clearCanvasSelection(): void {
+        if (this.selectedCanvasIds.size === 0) return;
+        this.selectedCanvasIds.clear();
+        this.updateCanvasSelection();
+    }
+    
+    private updateCanvasSelection(): void {
+        this.canvases.forEach((_, canvasId) => {
+            const selected = this.selectedCanvasIds.has(canvasId);
+            document.getElementById(`wrapper-${canvasId}`)?.classList.toggle('canvas-selected', selected);
+            document.getElementById(`thumb-${canvasId}`)?.classList.toggle('canvas-selected', selected);
+        });
     }
 
     private updateThumbnail(canvasId: string): void {
@@ -401,37 +635,224 @@ export class MultiCanvasManager {
         }
         
         if (confirm('이 캔버스를 삭제하시겠습니까?')) {
-            // Remove from grid
-            this.gridManager.removeCanvas(canvasId);
-            
-            // Remove from maps
-            this.canvases.delete(canvasId);
-            this.canvasDataMap.delete(canvasId);
-            
-            // Remove DOM elements
-            const wrapper = document.getElementById(`wrapper-${canvasId}`);
-            const thumbnail = document.getElementById(`thumb-${canvasId}`);
-            const linkButton = document.getElementById(`link-${canvasId}`);
-            wrapper?.remove();
-            thumbnail?.remove();
-            linkButton?.remove();
+            const data = this.canvasDataMap.get(canvasId);
+            const position = this.gridManager.getCanvasPosition(canvasId);
+            if (!data || !position) return;
             
+            // Capture what is needed to rebuild the canvas on undo
+            const spec: SerializedCanvas = {
+                id: canvasId,
+                name: data.name,
+                width: data.width,
+                height: data.height,
+                row: position.row,
+                col: position.col,
+                layoutGrid: data.layoutGrid
+            };
+            const links = this.linkManager.getLinks();
+            const spreads = this.spreadManager.getSpreads();
             
-            // If this was the active canvas, select another
-            if (this.activeCanvasId === canvasId) {
-                const firstCanvasId = this.canvases.keys().next().value;
-                if (firstCanvasId) {
-                    this.setActiveCanvas(firstCanvasId);
+            const previousOffsets = this.getOffsets();
+            this.history.beginTransaction('delete-canvas');
+            try {
+                this.removeCanvas(canvasId);
+                
+                this.history.record({
+                    label: 'delete-canvas',
+                    undo: () => {
+                        this.createCanvas(spec);
+                        this.linkManager.loadLinks(links);
+                        this.spreadManager.loadSpreads(spreads);
+                        this.setActiveCanvas(canvasId);
+                    },
+                    redo: () => this.removeCanvas(canvasId)
+                });
+                this.followCanvasOffsets(previousOffsets);
+            } finally {
+                this.history.endTransaction();
+            }
+        }
+    }
+    
+    // Remove a canvas without confirmation (elements stay in the global coordinate space)
+    private removeCanvas(canvasId: string): void {
+        // Remove from grid, with every link to and from it
+        this.gridManager.removeCanvas(canvasId);
+        this.linkManager.removeCanvas(canvasId);
+        this.spreadManager.removeCanvas(canvasId);
+        this.selectedCanvasIds.delete(canvasId);
+        
+        // Detach global listeners of the removed canvas
+        this.canvases.get(canvasId)?.destroy();
+        
+        // Remove from maps
+        this.canvases.delete(canvasId);
+        this.canvasDataMap.delete(canvasId);
+        
+        // Remove DOM elements
+        const wrapper = document.getElementById(`wrapper-${canvasId}`);
+        const thumbnail = document.getElementById(`thumb-${canvasId}`);
+        wrapper?.remove();
+        thumbnail?.remove();
+        
+        // Remove link buttons shared with neighbours
+        document.querySelectorAll('.link-button-container').forEach(container => {
+            if (container.id.startsWith(`link-pair-${canvasId}-`) || container.id.endsWith(`-${canvasId}`)) {
+                container.remove();
+            }
+        });
+        this.updateCornerLinkButtons();
+        
+        // If this was the active canvas, select another
+        if (this.activeCanvasId === canvasId) {
+            const firstCanvasId = this.canvases.keys().next().value;
+            if (firstCanvasId) {
+                this.setActiveCanvas(firstCanvasId);
+            }
+        }
+        
+        // Canvases after the removed one in its row and column move up to close the seam
+        this.recalculateOffsets();
+        
+        this.dispatchStructureChange('delete', canvasId);
+    }
+
+    // Move a canvas to another grid cell, swapping places with the canvas already there.
+    // With `withElements` the elements it owns (`canvasId`) travel along; otherwise only the
+    // frame moves and the elements keep their place in the global space.
+    public moveCanvas(canvasId: string, row: number, col: number, withElements: boolean): void {
+        const from = this.gridManager.getCanvasPosition(canvasId);
+        if (!from || (from.row === row && from.col === col)) return;
+        
+        const occupant = this.gridManager.getCanvasAt(row, col);
+        const before: Map<string, GridPosition> = new Map([[canvasId, from]]);
+        const after: Map<string, GridPosition> = new Map([[canvasId, { row, col }]]);
+        if (occupant) {
+            before.set(occupant, { row, col });
+            after.set(occupant, from);
+        }
+        
+        const previousOffsets = this.getOffsets();
+        const linksBefore = this.linkManager.getLinks();
+        const spreadsBefore = this.spreadManager.getSpreads();
+        this.history.beginTransaction('move-canvas');
+        try {
+            this.placeCanvases(after);
+            // Links of the old neighbours are dropped; undo brings back their exact states
+            const linksAfter = this.linkManager.getLinks();
+            const spreadsAfter = this.spreadManager.getSpreads();
+            this.history.record({
+                label: 'move-canvas',
+                undo: () => {
+                    this.placeCanvases(before);
+                    this.linkManager.loadLinks(linksBefore);
+                    this.spreadManager.loadSpreads(spreadsBefore);
+                },
+                redo: () => {
+                    this.placeCanvases(after);
+                    this.linkManager.loadLinks(linksAfter);
+                    this.spreadManager.loadSpreads(spreadsAfter);
                 }
+            });
+            if (withElements) {
+                this.followCanvasOffsets(previousOffsets);
             }
-            
-            // Recalculate offsets after deletion
-            setTimeout(() => {
-                this.recalculateOffsets();
-            }, 0);
+        } finally {
+            this.history.endTransaction();
         }
     }
+    
+    // Put canvases (wrapper and thumbnail) in new grid cells and rebuild everything derived from
+    // the layout: links to the new neighbours, link buttons and offsets
+    private placeCanvases(positions: Map<string, GridPosition>): void {
+        this.gridManager.moveCanvases(positions);
+        this.syncLinksWithGrid();
+        positions.forEach((position, canvasId) => {
+            const wrapper = document.getElementById(`wrapper-${canvasId}`);
+            if (wrapper) {
+                wrapper.style.gridColumn = (position.col * 2 + 1).toString();
+                wrapper.style.gridRow = (position.row * 2 + 1).toString();
+                wrapper.setAttribute('data-row', position.row.toString());
+                wrapper.setAttribute('data-col', position.col.toString());
+            }
+            const thumbnail = document.getElementById(`thumb-${canvasId}`);
+            if (thumbnail) {
+                thumbnail.style.gridColumn = (position.col + 1).toString();
+                thumbnail.style.gridRow = (position.row + 1).toString();
+            }
+        });
+        
+        document.querySelectorAll('.link-button-container').forEach(container => container.remove());
+        this.canvases.forEach((_, canvasId) => this.createLinkButtons(canvasId));
+        this.updateCornerLinkButtons();
+        
+        this.recalculateOffsets();
+        this.renderAllCanvases();
+        this.updateAllThumbnails();
+        positions.forEach((_, canvasId) => this.dispatchStructureChange('move', canvasId));
+    }
 
+    // Align the current selection; 'selection' needs two or more units, the others work on one
+    public alignSelection(alignment: Alignment, reference: AlignReference): void {
+        const ids = this.globalElementManager.getSelectionWithGroups();
+        if (ids.length === 0) return;
+        this.globalElementManager.alignElements(ids, alignment, this.getReferenceRect(reference));
+        document.dispatchEvent(new CustomEvent('element-moved'));
+    }
+    
+    public distributeSelection(axis: 'horizontal' | 'vertical', reference: AlignReference): void {
+        const ids = this.globalElementManager.getSelectionWithGroups();
+        if (ids.length === 0) return;
+        this.globalElementManager.distributeElements(ids, axis, this.getReferenceRect(reference));
+        document.dispatchEvent(new CustomEvent('element-moved'));
+    }
+    
+    // Global rectangle of the active canvas or of the whole grid; undefined means the selection itself
+    private getReferenceRect(reference: AlignReference): Rect | undefined {
+        if (reference === 'canvas') {
+            const data = this.activeCanvasId ? this.canvasDataMap.get(this.activeCanvasId) : undefined;
+            return data ? { x: data.offsetX, y: data.offsetY, width: data.width, height: data.height } : undefined;
+        }
+        if (reference === 'grid') {
+            const canvases = Array.from(this.canvasDataMap.values());
+            if (canvases.length === 0) return undefined;
+            const x = Math.min(...canvases.map(c => c.offsetX));
+            const y = Math.min(...canvases.map(c => c.offsetY));
+            return {
+                x,
+                y,
+                width: Math.max(...canvases.map(c => c.offsetX + c.width)) - x,
+                height: Math.max(...canvases.map(c => c.offsetY + c.height)) - y
+            };
+        }
+        return undefined;
+    }
+    
+    // Set or clear (undefined) the layout grid of one canvas
+    public setLayoutGrid(canvasId: string, layoutGrid: LayoutGrid | undefined): void {
+        const data = this.canvasDataMap.get(canvasId);
+        if (!data) return;
+        data.layoutGrid = layoutGrid && { ...layoutGrid };
+        this.canvases.get(canvasId)?.render();
+        this.dispatchStructureChange('layout', canvasId);
+    }
+    
+    public isPenMode(): boolean {
+        return this.penMode;
+    }
+    
+    public setPenMode(enabled: boolean): void {
+        this.penMode = enabled;
+        document.getElementById('penBtn')?.classList.toggle('active', enabled);
+        if (enabled) {
+            this.globalElementManager.setEditingPath(null);
+        }
+        this.canvases.forEach(canvasManager => {
+            canvasManager.getCanvas().style.cursor = enabled ? 'crosshair' : 'default';
+            canvasManager.render();
+        });
+    }
+    
     public getActiveCanvas(): CanvasManager | null {
         if (this.activeCanvasId) {
             return this.canvases.get(this.activeCanvasId) || null;
@@ -447,27 +868,52 @@ export class MultiCanvasManager {
     
     public setResolutionForAll(width: number, height: number): void {
         this.currentResolution = { width, height };
-        
-        // Reset total width
-        this.totalWidth = 0;
-        
-        // Update each canvas with new resolution
-        this.canvases.forEach((canvasManager, canvasId) => {
-            canvasManager.setResolution(width, height);
+        const sizes: Map<string, { width: number; height: number }> = new Map();
+        this.canvases.forEach((_, canvasId) => sizes.set(canvasId, { width, height }));
+        this.resizeCanvases(sizes);
+    }
+    
+    public setResolutionForCanvas(canvasId: string, width: number, height: number): void {
+        if (!this.canvases.has(canvasId)) return;
+        this.resizeCanvases(new Map([[canvasId, { width, height }]]));
+    }
+    
+    // Resize canvases as one undo step. Canvases that the new layout shifts carry their own
+    // elements along so content stays where it was on its canvas.
+    private resizeCanvases(sizes: Map<string, { width: number; height: number }>): void {
+        const previousSizes: Map<string, { width: number; height: number }> = new Map();
+        sizes.forEach((_, canvasId) => {
+            const data = this.canvasDataMap.get(canvasId);
+            if (data) previousSizes.set(canvasId, { width: data.width, height: data.height });
+        });
+        const previousOffsets = this.getOffsets();
+        
+        this.history.beginTransaction('resize-canvas');
+        try {
+            this.applyCanvasSizes(sizes);
+            this.history.record({
+                label: 'resize-canvas',
+                undo: () => this.applyCanvasSizes(previousSizes),
+                redo: () => this.applyCanvasSizes(sizes)
+            });
+            this.followCanvasOffsets(previousOffsets);
+        } finally {
+            this.history.endTransaction();
+        }
+    }
+    
+    private applyCanvasSizes(sizes: Map<string, { width: number; height: number }>): void {
+        sizes.forEach((size, canvasId) => {
+            const canvasManager = this.canvases.get(canvasId);
             const canvasData = this.canvasDataMap.get(canvasId);
-            if (canvasData) {
-                canvasData.width = width;
-                canvasData.height = height;
-            }
+            if (!canvasManager || !canvasData) return;
+            canvasManager.setResolution(size.width, size.height);
+            canvasData.width = size.width;
+            canvasData.height = size.height;
         });
-        
-        // Recalculate offsets after resolution change
-        setTimeout(() => {
-            this.recalculateOffsets();
-        }, 0);
-        
-        // Update total width based on actual positions
+        this.recalculateOffsets();
         this.updateAllThumbnails();
+        sizes.forEach((_, canvasId) => this.dispatchStructureChange('resize', canvasId));
     }
     
     public getActiveCanvasResolution(): { width: number; height: number } | null {
@@ -506,6 +952,12 @@ export class MultiCanvasManager {
             canvasManager.setZoomLevel(this.currentZoom);
             canvasManager.render();
         });
+        this.dispatchViewChange();
+    }
+    
+    // Zoom, pan or canvas placement changed (rulers follow)
+    private dispatchViewChange(): void {
+        document.dispatchEvent(new CustomEvent('view-changed'));
     }
     
     private updateViewTransform(): void {
@@ -524,6 +976,7 @@ export class MultiCanvasManager {
         this.canvases.forEach((canvasManager) => {
             canvasManager.render();
         });
+        this.dispatchViewChange();
     }
     
     public setViewOffset(x: number, y: number): void {
@@ -565,10 +1018,166 @@ export class MultiCanvasManager {
         return null;
     }
     
+    public getSnapManager(): SnapManager {
+        return this.snapManager;
+    }
+    
+    public getGuideManager(): GuideManager {
+        return this.guideManager;
+    }
+    
+    public getLinkManager(): LinkManager {
+        return this.linkManager;
+    }
+    
+    public getSpreadManager(): SpreadManager {
+        return this.spreadManager;
+    }
+    
+    public getGridManager(): CanvasGridManager {
+        return this.gridManager;
+    }
+    
+    public getGlobalElementManager(): GlobalElementManager {
+        return this.globalElementManager;
+    }
+    
     public getAllCanvases(): Map<string, CanvasManager> {
         return this.canvases;
     }
     
+    public getActiveCanvasId(): string | null {
+        return this.activeCanvasId;
+    }
+    
+    public getCanvasData(canvasId: string): CanvasData | undefined {
+        return this.canvasDataMap.get(canvasId);
+    }
+    
+    public getCanvasPosition(canvasId: string): GridPosition | null {
+        return this.gridManager.getCanvasPosition(canvasId);
+    }
+    
+    // Snapshot the whole project (canvases, elements, links, view) as a versioned document
+    public exportDocument(): ProjectDocument {
+        const canvases: SerializedCanvas[] = [];
+        this.canvasDataMap.forEach((data, canvasId) => {
+            const position = this.gridManager.getCanvasPosition(canvasId);
+            if (!position) return;
+            canvases.push({
+                id: canvasId,
+                name: data.name,
+                width: data.width,
+                height: data.height,
+                row: position.row,
+                col: position.col,
+                layoutGrid: data.layoutGrid
+            });
+        });
+        
+        const { elements, images } = this.serializer.serializeElements(this.globalElementManager.getAllElements());
+        
+        return {
+            schemaVersion: DOCUMENT_SCHEMA_VERSION,
+            canvases,
+            activeCanvasId: this.activeCanvasId,
+            elements,
+            images,
+            links: this.linkManager.getLinks(),
+            spreads: this.spreadManager.getSpreads(),
+            // Guides of deleted canvases are kept for undo but not saved
+            guides: this.guideManager.getGuides()
+                .filter(guide => !guide.canvasId || this.canvasDataMap.has(guide.canvasId))
+                .map(guide => ({ ...guide })),
+            view: {
+                zoom: this.currentZoom,
+                panX: this.viewOffset.x,
+                panY: this.viewOffset.y
+            }
+        };
+    }
+    
+    // Replace the current project with a document produced by exportDocument()
+    public async importDocument(doc: ProjectDocument): Promise<void> {
+        // Validate before tearing anything down so a bad file leaves the project intact
+        const project = this.serializer.migrate(doc);
+        const elements = await this.serializer.deserializeElements(project.elements, project.images);
+        
+        this.removeAllCanvases();
+        
+        const first = project.canvases[0];
+        this.currentResolution = { width: first.width, height: first.height };
+        
+        // Create in reading order so link buttons are built between already existing neighbours
+        const ordered = [...project.canvases].sort((a, b) => a.row - b.row || a.col - b.col);
+        ordered.forEach(spec => this.createCanvas(spec));
+        this.canvasCount = ordered.length;
+        
+        // Saved states replace the defaults the new canvases got; neighbours missing from the file stay linked
+        this.linkManager.loadLinks(project.links);
+        this.spreadManager.loadSpreads(project.spreads
+            .map(spread => ({ ...spread, canvasIds: spread.canvasIds.filter(id => this.canvases.has(id)) }))
+            .filter(spread => spread.canvasIds.length >= 2));
+        this.syncLinksWithGrid();
+        
+        this.globalElementManager.loadElements(elements);
+        this.guideManager.loadGuides(project.guides);
+        this.history.clear();
+        
+        const activeId = project.activeCanvasId && this.canvases.has(project.activeCanvasId)
+            ? project.activeCanvasId
+            : ordered[0].id;
+        this.setActiveCanvas(activeId);
+        
+        this.setZoom(project.view.zoom);
+        this.setViewOffset(project.view.panX, project.view.panY);
+        this.recalculateOffsets();
+        this.updateAllThumbnails();
+        
+        console.log(`[DOCUMENT] Imported ${ordered.length} canvases and ${elements.length} elements`);
+    }
+    
+    // Start over with a single empty canvas
+    public resetDocument(): Promise<void> {
+        return this.importDocument({
+            schemaVersion: DOCUMENT_SCHEMA_VERSION,
+            canvases: [{
+                id: `canvas-${Date.now()}`,
+                name: '캔버스 1',
+                width: this.currentResolution.width,
+                height: this.currentResolution.height,
+                row: 0,
+                col: 0
+            }],
+            activeCanvasId: null,
+            elements: [],
+            images: [],
+            links: [],
+            spreads: [],
+            guides: [],
+            view: { zoom: 1, panX: 0, panY: 0 }
+        });
+    }
+    
+    // Tear down every canvas, its DOM and its grid cell
+    private removeAllCanvases(): void {
+        this.canvases.forEach(canvasManager => canvasManager.destroy());
+        this.canvases.clear();
+        this.canvasDataMap.clear();
+        this.gridManager.clear();
+        this.linkManager.clear();
+        this.spreadManager.clear();
+        this.selectedCanvasIds.clear();
+        this.activeCanvasId = null;
+        this.totalWidth = 0;
+        
+        const zoomWrapper = this.canvasContainer.querySelector('.zoom-wrapper') as HTMLElement;
+        if (zoomWrapper) {
+            zoomWrapper.innerHTML = '';
+        }
+        this.thumbnailContainer.innerHTML = '';
+    }
+    
     private createLinkButtons(canvasId: string): void {
         const wrapper = document.getElementById(`wrapper-${canvasId}`);
         if (!wrapper) return;
@@ -636,6 +1245,8 @@ export class MultiCanvasManager {
         const buttonContainer = document.createElement('div');
         buttonContainer.id = buttonPairId;
         buttonContainer.className = `link-button-container ${direction}`;
+        buttonContainer.dataset.first = firstCanvas;
+        buttonContainer.dataset.second = secondCanvas;
         
         // Calculate grid position for buttons (between canvases)
         let buttonGridCol: number = 1;
@@ -725,9 +1336,8 @@ export class MultiCanvasManager {
             }
         }
         
-        const button = document.createElement('button');
-        button.id = `link-${controllingCanvas}-to-${targetCanvas}`;
-        button.className = `canvas-link-button directional-${buttonPosition}`;
+        const button = this.createLinkToggle(controllingCanvas, targetCanvas);
+        button.classList.add(`directional-${buttonPosition}`);
         
         // Set title based on position
         const directionMap: { [key: string]: { first: string, second: string } } = {
@@ -739,50 +1349,236 @@ export class MultiCanvasManager {
         
         button.title = directionMap[direction]?.[buttonPosition] || 'Link toggle';
         
-        // Check if link is enabled (default true)
-        const linkKey = `directional-${controllingCanvas}-${targetCanvas}`;
-        let isEnabled = this.directionalLinkStates.get(linkKey);
-        if (isEnabled === undefined) {
-            isEnabled = true; // Default to enabled
-            this.directionalLinkStates.set(linkKey, true);
-        }
-        button.classList.toggle('active', isEnabled);
-        
         // Icon
         button.innerHTML = `<svg width="12" height="12" viewBox="0 0 14 14" fill="none">
             <path d="M5.5 8.5L8.5 5.5M6 3.5L4.5 2C3.67157 1.17157 2.32843 1.17157 1.5 2C0.671573 2.82843 0.671573 4.17157 1.5 5L3 6.5M8 10.5L9.5 12C10.3284 12.8284 11.6716 12.8284 12.5 12C13.3284 11.1716 13.3284 9.82843 12.5 9L11 7.5" 
                   stroke="currentColor" stroke-width="1.5" stroke-linecap="round"/>
         </svg>`;
         
+        return button;
+    }
+    
+    // Button toggling the link from one canvas to another (shows `from`'s elements on `to`)
+    private createLinkToggle(from: string, to: string): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.id = `link-${from}-to-${to}`;
+        button.className = 'canvas-link-button';
+        button.dataset.from = from;
+        button.dataset.to = to;
+        button.classList.toggle('active', this.linkManager.isLinked(from, to));
+        
         button.addEventListener('click', () => {
-            const linkKey = `directional-${controllingCanvas}-${targetCanvas}`;
-            const currentState = this.directionalLinkStates.get(linkKey) ?? true;
-            const newState = !currentState;
+            const enabled = this.linkManager.isLinked(from, to);
+            this.linkManager.setEnabled(from, to, !enabled);
+        });
+        return button;
+    }
+    
+    // Corner toggles for diagonal neighbours, in the grid cell where four canvases meet. Each
+    // button sits in the corner of the canvas it controls and shows that canvas on the opposite one.
+    private updateCornerLinkButtons(): void {
+        const zoomWrapper = this.canvasContainer.querySelector('.zoom-wrapper');
+        if (!zoomWrapper) return;
+        zoomWrapper.querySelectorAll('.corner-link-container').forEach(container => container.remove());
+        
+        // Intersections are named by the cell above-left of them
+        const intersections: Set<string> = new Set();
+        this.gridManager.getCanvasIds().forEach(canvasId => {
+            const position = this.gridManager.getCanvasPosition(canvasId)!;
+            [[-1, -1], [-1, 0], [0, -1], [0, 0]].forEach(([dr, dc]) => {
+                intersections.add(`${position.row + dr},${position.col + dc}`);
+            });
+        });
+        
+        intersections.forEach(key => {
+            const [row, col] = key.split(',').map(Number);
+            const topLeft = this.gridManager.getCanvasAt(row, col);
+            const topRight = this.gridManager.getCanvasAt(row, col + 1);
+            const bottomLeft = this.gridManager.getCanvasAt(row + 1, col);
+            const bottomRight = this.gridManager.getCanvasAt(row + 1, col + 1);
+            const corners = [
+                { from: topLeft, to: bottomRight, slot: [1, 1], arrow: '↘', title: '왼쪽 위 캔버스 표시' },
+                { from: topRight, to: bottomLeft, slot: [1, 2], arrow: '↙', title: '오른쪽 위 캔버스 표시' },
+                { from: bottomLeft, to: topRight, slot: [2, 1], arrow: '↗', title: '왼쪽 아래 캔버스 표시' },
+                { from: bottomRight, to: topLeft, slot: [2, 2], arrow: '↖', title: '오른쪽 아래 캔버스 표시' }
+            ].filter(corner => corner.from && corner.to);
+            if (corners.length === 0) return;
             
-            this.directionalLinkStates.set(linkKey, newState);
-            button.classList.toggle('active', newState);
+            const container = document.createElement('div');
+            container.id = `corner-link-${row}-${col}`;
+            container.className = 'corner-link-container';
+            container.style.gridRow = (row * 2 + 2).toString();
+            container.style.gridColumn = (col * 2 + 2).toString();
+            corners.forEach(corner => {
+                const button = this.createLinkToggle(corner.from!, corner.to!);
+                button.classList.add('corner-link-button');
+                button.title = corner.title;
+                button.textContent = corner.arrow;
+                button.style.gridRow = corner.slot[0].toString();
+                button.style.gridColumn = corner.slot[1].toString();
+                container.appendChild(button);
+            });
+            zoomWrapper.appendChild(container);
+        });
+    }
+    
+    // Links follow the grid (new neighbours, dropped pairs), then spreads put their rule back on them
+    private syncLinksWithGrid(): void {
+        this.linkManager.syncWithGrid();
+        this.spreadManager.enforceLinks();
+    }
+    
+    // One outline per member canvas, so canvases between members in an L-shaped or split spread stay
+    // outside; the spread's name sits on its first member in reading order
+    private updateSpreadOutlines(): void {
+        const zoomWrapper = this.canvasContainer.querySelector('.zoom-wrapper');
+        if (!zoomWrapper) return;
+        zoomWrapper.querySelectorAll('.spread-outline').forEach(outline => outline.remove());
+        
+        this.spreadManager.getSpreads().forEach(spread => {
+            const positions = spread.canvasIds
+                .map(canvasId => this.gridManager.getCanvasPosition(canvasId))
+                .filter((position): position is GridPosition => !!position)
+                .sort((a, b) => a.row - b.row || a.col - b.col);
             
-            // Dispatch event
-            const event = new CustomEvent('directional-link-changed', {
-                detail: {
-                    controllingCanvas,
-                    targetCanvas,
-                    enabled: newState
+            positions.forEach((position, index) => {
+                const canvasId = this.gridManager.getCanvasAt(position.row, position.col);
+                const wrapper = canvasId ? document.getElementById(`wrapper-${canvasId}`) : null;
+                if (!wrapper) return;
+                const outline = document.createElement('div');
+                outline.className = 'spread-outline';
+                outline.dataset.spreadId = spread.id;
+                if (index === 0) {
+                    const label = document.createElement('span');
+                    label.className = 'spread-label';
+                    label.textContent = spread.name;
+                    outline.appendChild(label);
                 }
+                wrapper.appendChild(outline);
             });
-            document.dispatchEvent(event);
+        });
+    }
+    
+    private updateLinkButtonStates(): void {
+        document.querySelectorAll('.canvas-link-button').forEach(element => {
+            const button = element as HTMLElement;
+            const { from, to } = button.dataset;
+            if (from && to) {
+                button.classList.toggle('active', this.linkManager.isLinked(from, to));
+            }
+        });
+    }
+    
+    // Whether an element owned by one canvas should be drawn on another (rendering and exports).
+    // The element's span mode can override the canvas links either way.
+    public isElementVisibleOnCanvas(element: CanvasElement, canvasId: string): boolean {
+        if (!element.canvasId || element.canvasId === canvasId) return true;
+        switch (element.spanMode) {
+            case 'clip': return false;
+            case 'span': return true;
+            default: return this.linkManager.isVisibleAcross(element.canvasId, canvasId);
+        }
+    }
+    
+    // How far an element moves when it crosses the portal from one canvas into another: the portal
+    // side of `from` lands on the opposite side of `to`, lined up at their top or left edges
+    public getPortalShift(from: string, to: string): Point | null {
+        const link = this.linkManager.getLink(from, to);
+        const source = this.canvasDataMap.get(from);
+        const target = this.canvasDataMap.get(to);
+        if (link?.kind !== 'portal' || !link.side || !source || !target) return null;
+        switch (link.side) {
+            case 'right': return { x: target.offsetX - (source.offsetX + source.width), y: target.offsetY - source.offsetY };
+            case 'left': return { x: target.offsetX + target.width - source.offsetX, y: target.offsetY - source.offsetY };
+            case 'bottom': return { x: target.offsetX - source.offsetX, y: target.offsetY - (source.offsetY + source.height) };
+            case 'top': return { x: target.offsetX - source.offsetX, y: target.offsetY + target.height - source.offsetY };
+        }
+    }
+    
+    // Elements sticking out of another canvas through an enabled portal into this one, as copies
+    // shifted into this canvas's frame. Drawn and exported like the rest, never hit-tested or saved.
+    public getPortalCopies(canvasId: string): CanvasElement[] {
+        const target = this.canvasDataMap.get(canvasId);
+        if (!target) return [];
+        
+        const copies: CanvasElement[] = [];
+        this.linkManager.getLinks().forEach(link => {
+            if (link.kind !== 'portal' || link.to !== canvasId || !link.enabled || !link.side) return;
+            const source = this.canvasDataMap.get(link.from);
+            const shift = this.getPortalShift(link.from, canvasId);
+            if (!source || !shift) return;
             
-            // Re-render affected canvases
-            this.canvases.forEach(canvas => canvas.render());
+            this.globalElementManager.getAllElements().forEach(element => {
+                if (element.canvasId !== link.from || element.spanMode === 'clip') return;
+                const bounds = ElementGeometry.getBounds(element);
+                if (!this.reachesPastSide(bounds, source, link.side!)) return;
+                const shifted = { ...bounds, x: bounds.x + shift.x, y: bounds.y + shift.y };
+                if (shifted.x >= target.offsetX + target.width || shifted.x + shifted.width <= target.offsetX ||
+                    shifted.y >= target.offsetY + target.height || shifted.y + shifted.height <= target.offsetY) return;
+                
+                const copy: CanvasElement = { ...element, x: element.x + shift.x, y: element.y + shift.y };
+                if (element.pathPoints) copy.pathPoints = PathGeometry.translate(element.pathPoints, shift.x, shift.y);
+                copies.push(copy);
+            });
         });
-        
-        return button;
+        return copies;
+    }
+    
+    // Back-to-front order for elements mixed with portal copies (or anything wrapping them). A copy
+    // shares its source's id, so it stacks right above the source instead of over everything else.
+    public orderWithPortalCopies<T>(items: T[], copies: T[], getElement: (item: T) => CanvasElement): T[] {
+        if (copies.length === 0) return items;
+        const zIndex = new Map(this.globalElementManager.getZOrder().map((id, index) => [id, index]));
+        const rank = (item: T) => zIndex.get(getElement(item).id) ?? -1;
+        // Stable sort: regular items come first in the input, so a copy follows its own source
+        return [...items, ...copies].sort((a, b) => rank(a) - rank(b));
+    }
+    
+    // Move a dragged element through an enabled portal of its canvas once its centre is past the
+    // portal side, shifting it, the rest of the selection and the drag in progress into the other
+    // canvas's frame
+    private handOverThroughPortal(elementId: string, canvasId: string): boolean {
+        const element = this.globalElementManager.getElement(elementId);
+        const data = this.canvasDataMap.get(canvasId);
+        if (!element || !data) return false;
+        
+        const bounds = ElementGeometry.getBounds(element);
+        const centre = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2, width: 0, height: 0 };
+        const portal = this.linkManager.getLinksFrom(canvasId, 'portal')
+            .find(link => link.enabled && link.side && this.reachesPastSide(centre, data, link.side));
+        const shift = portal ? this.getPortalShift(canvasId, portal.to) : null;
+        if (!portal || !shift) return false;
+        
+        // Part of the drag's own transaction, so the whole crossing undoes as one step
+        const movedIds = new Set([elementId, ...this.globalElementManager.getSelectionWithGroups()]);
+        this.history.beginTransaction('portal-handover');
+        try {
+            movedIds.forEach(id => {
+                const moved = this.globalElementManager.getElement(id);
+                if (!moved || (moved.locked && id !== elementId)) return;
+                this.globalElementManager.updateElement(id, {
+                    x: moved.x + shift.x,
+                    y: moved.y + shift.y,
+                    canvasId: portal.to
+                });
+            });
+        } finally {
+            this.history.endTransaction();
+        }
+        this.canvases.get(canvasId)?.shiftDrag(shift.x, shift.y);
+        this.setActiveCanvas(portal.to);
+        console.log(`[PORTAL] Element ${elementId} passed from ${canvasId} to ${portal.to}`);
+        return true;
     }
     
-    // Method to check if directional link is enabled
-    public isDirectionalLinkEnabled(fromCanvas: string, toCanvas: string): boolean {
-        const linkKey = `directional-${fromCanvas}-${toCanvas}`;
-        return this.directionalLinkStates.get(linkKey) ?? true; // Default to true
+    // Whether a rectangle reaches past one side of a canvas
+    private reachesPastSide(rect: Rect, data: CanvasData, side: CanvasSide): boolean {
+        switch (side) {
+            case 'right': return rect.x + rect.width > data.offsetX + data.width;
+            case 'left': return rect.x < data.offsetX;
+            case 'bottom': return rect.y + rect.height > data.offsetY + data.height;
+            case 'top': return rect.y < data.offsetY;
+        }
     }
     
     private getOppositeDirection(direction: string): string {
@@ -800,24 +1596,85 @@ export class MultiCanvasManager {
     }
     
     
+    // Each canvas starts where its grid neighbours end: x at the right edge of the canvas to its left
+    // in the same row, y at the bottom edge of the canvas above it in the same column. Empty cells
+    // take no space, so every pair of neighbours shares a seam whatever their sizes.
     private recalculateOffsets(): void {
-        // Calculate offsets based on grid positions
-        this.canvases.forEach((canvasManager, canvasId) => {
-            const gridPos = this.gridManager.getCanvasPosition(canvasId);
-            if (gridPos) {
-                // Calculate offset based on grid position (no gap in coordinate system)
-                const offsetX = gridPos.col * this.currentResolution.width;
-                const offsetY = gridPos.row * this.currentResolution.height;
+        const rowEnds: Map<number, number> = new Map();     // Right edge reached so far in each row
+        const columnEnds: Map<number, number> = new Map();  // Bottom edge reached so far in each column
+        
+        // Reading order places every left and top neighbour before the canvases that follow it
+        Array.from(this.canvasDataMap.values())
+            .map(canvasData => ({ canvasData, gridPos: this.gridManager.getCanvasPosition(canvasData.id) }))
+            .filter((entry): entry is { canvasData: CanvasData; gridPos: GridPosition } => !!entry.gridPos)
+            .sort((a, b) => a.gridPos.row - b.gridPos.row || a.gridPos.col - b.gridPos.col)
+            .forEach(({ canvasData, gridPos }) => {
+                const offsetX = rowEnds.get(gridPos.row) ?? 0;
+                const offsetY = columnEnds.get(gridPos.col) ?? 0;
+                rowEnds.set(gridPos.row, offsetX + canvasData.width);
+                columnEnds.set(gridPos.col, offsetY + canvasData.height);
                 
-                canvasManager.setOffset(offsetX, offsetY);
-                
-                // Update canvas data
-                const canvasData = this.canvasDataMap.get(canvasId);
-                if (canvasData) {
-                    canvasData.offsetX = offsetX;
-                    canvasData.offsetY = offsetY;
-                }
+                this.canvases.get(canvasData.id)?.setOffset(offsetX, offsetY);
+                canvasData.offsetX = offsetX;
+                canvasData.offsetY = offsetY;
+            });
+        this.syncDisplayScale();
+        this.dispatchViewChange();
+    }
+    
+    // Every canvas is drawn at the scale that fits the largest one, so canvas units map to the
+    // same number of screen pixels everywhere and neighbours of different sizes meet at the seams
+    private syncDisplayScale(): void {
+        if (this.canvases.size === 0) return;
+        const scale = Math.min(...Array.from(this.canvases.values()).map(canvasManager => canvasManager.getFitScale()));
+        this.canvases.forEach(canvasManager => canvasManager.setDisplayScale(scale));
+        this.positionLinkButtons();
+    }
+    
+    // Centre each pair of link buttons on the edge the two canvases actually share. Canvases hug
+    // the top/left of their cells, so that is the middle of the shorter (or narrower) one.
+    private positionLinkButtons(): void {
+        document.querySelectorAll<HTMLElement>('.link-button-container').forEach(container => {
+            const contents = [container.dataset.first, container.dataset.second]
+                .map(canvasId => document.querySelector<HTMLElement>(`#wrapper-${canvasId} .canvas-content`))
+                .filter((content): content is HTMLElement => !!content);
+            if (contents.length < 2) return;
+            
+            if (container.classList.contains('right') || container.classList.contains('left')) {
+                const center = Math.min(...contents.map(content => content.offsetTop + content.offsetHeight / 2));
+                container.style.marginTop = `${Math.max(0, center - container.offsetHeight / 2)}px`;
+            } else {
+                const center = Math.min(...contents.map(content => content.offsetLeft + content.offsetWidth / 2));
+                container.style.marginLeft = `${Math.max(0, center - container.offsetWidth / 2)}px`;
+            }
+        });
+    }
+    
+    private getOffsets(): Map<string, Point> {
+        const offsets: Map<string, Point> = new Map();
+        this.canvasDataMap.forEach((data, canvasId) => offsets.set(canvasId, { x: data.offsetX, y: data.offsetY }));
+        return offsets;
+    }
+    
+    // Move the elements owned by each canvas (`canvasId`) by however far the last layout change
+    // moved that canvas. Recorded in the caller's history transaction.
+    private followCanvasOffsets(previousOffsets: Map<string, Point>): void {
+        const deltas: Map<string, Point> = new Map();
+        this.canvasDataMap.forEach((data, canvasId) => {
+            const previous = previousOffsets.get(canvasId);
+            if (!previous) return;
+            const dx = data.offsetX - previous.x;
+            const dy = data.offsetY - previous.y;
+            if (dx !== 0 || dy !== 0) deltas.set(canvasId, { x: dx, y: dy });
+        });
+        if (deltas.size === 0) return;
+        
+        this.globalElementManager.getAllElements().forEach(element => {
+            const delta = element.canvasId ? deltas.get(element.canvasId) : undefined;
+            if (delta) {
+                this.globalElementManager.updateElement(element.id, { x: element.x + delta.x, y: element.y + delta.y });
             }
         });
+        this.renderAllCanvases();
     }
 }
\ No newline at end of file
@@ -0,0 +1,185 @@
+import { MultiCanvasManager } from './MultiCanvasManager';
+import { ElementRenderer } from './ElementRenderer';
+import { ElementGeometry } from './ElementGeometry';
+import { PngEncoder } from './PngEncoder';
+import { CanvasData, CanvasElement } from './types';
+import type { RasterExportOptions, RasterFormat } from './ExportManager';
+
+export interface PanoramaOptions extends RasterExportOptions {
+    seamGuides: boolean;       // Dashed lines along every canvas boundary
+    emptyFill: string | null;  // Color for empty grid cells; null keeps them transparent
+    canvasIds?: string[];      // Only these canvases (a spread); every canvas when unset
+}
+
+// Keep every tile within the smallest common browser canvas limit (Safari: 4096x4096 area)
+const MAX_TILE_SIDE = 4096;
+const MAX_STRIP_BYTES = 64 * 1024 * 1024;
+
+// Renders the global coordinate space of all canvases, or of a spread, into one stitched image
+export class PanoramaExporter {
+    private multiCanvasManager: MultiCanvasManager;
+    private elementRenderer: ElementRenderer = new ElementRenderer();
+
+    constructor(multiCanvasManager: MultiCanvasManager) {
+        this.multiCanvasManager = multiCanvasManager;
+    }
+
+    // Bounding box of the canvases (every canvas by default) in global coordinates
+    public getBounds(canvasIds?: string[]): { left: number; top: number; width: number; height: number } | null {
+        const canvases = this.getCanvases(canvasIds);
+        if (canvases.length === 0) return null;
+        const left = Math.min(...canvases.map(c => c.offsetX));
+        const top = Math.min(...canvases.map(c => c.offsetY));
+        return {
+            left,
+            top,
+            width: Math.max(...canvases.map(c => c.offsetX + c.width)) - left,
+            height: Math.max(...canvases.map(c => c.offsetY + c.height)) - top
+        };
+    }
+
+    // Past the canvas limit the image is stitched by the tiled PNG encoder, whatever was asked for
+    public getOutputFormat(width: number, height: number, format: RasterFormat): RasterFormat {
+        return width <= MAX_TILE_SIDE && height <= MAX_TILE_SIDE ? format : 'png';
+    }
+
+    public async render(options: PanoramaOptions): Promise<Blob> {
+        const bounds = this.getBounds(options.canvasIds);
+        if (!bounds) {
+            throw new Error('No canvases to export');
+        }
+
+        let scale = options.scale ?? 1;
+        if (options.width) {
+            scale = options.width / bounds.width;
+        } else if (options.height) {
+            scale = options.height / bounds.height;
+        }
+        const width = Math.max(1, Math.round(bounds.width * scale));
+        const height = Math.max(1, Math.round(bounds.height * scale));
+        // JPEG has no alpha; transparent cells would turn black
+        const fill = options.emptyFill ?? (options.format === 'jpeg' ? '#ffffff' : null);
+        const regionOptions = { ...options, emptyFill: fill };
+
+        // Small enough for one canvas: let the browser encode the requested format
+        if (this.getOutputFormat(width, height, options.format) === options.format) {
+            const canvas = this.renderRegion(0, 0, width, height, scale, bounds, regionOptions);
+            return this.toBlob(canvas, options);
+        }
+
+        if (options.format !== 'png') {
+            console.log(`[EXPORT] Panorama ${width}x${height} exceeds the canvas limit, encoding as tiled PNG`);
+        }
+
+        const encoder = new PngEncoder(width, height);
+        const stripHeight = Math.max(1, Math.min(MAX_TILE_SIDE, Math.floor(MAX_STRIP_BYTES / (width * 4))));
+        for (let y = 0; y < height; y += stripHeight) {
+            const rows = Math.min(stripHeight, height - y);
+            const strip = new Uint8ClampedArray(width * rows * 4);
+
+            for (let x = 0; x < width; x += MAX_TILE_SIDE) {
+                const columns = Math.min(MAX_TILE_SIDE, width - x);
+                const tile = this.renderRegion(x, y, columns, rows, scale, bounds, regionOptions);
+                const pixels = tile.getContext('2d')!.getImageData(0, 0, columns, rows).data;
+                for (let row = 0; row < rows; row++) {
+                    strip.set(pixels.subarray(row * columns * 4, (row + 1) * columns * 4), (row * width + x) * 4);
+                }
+            }
+
+            await encoder.addRows(strip);
+        }
+        return encoder.finish();
+    }
+
+    // Render one output-pixel region of the panorama into its own canvas
+    private renderRegion(
+        x: number, y: number, width: number, height: number, scale: number,
+        bounds: { left: number; top: number; width: number; height: number },
+        options: PanoramaOptions
+    ): HTMLCanvasElement {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Failed to get canvas context');
+        }
+
+        ctx.setTransform(scale, 0, 0, scale, -x - bounds.left * scale, -y - bounds.top * scale);
+
+        // Global-space rectangle this tile covers, for skipping elements that cannot appear
+        const regionLeft = bounds.left + x / scale;
+        const regionTop = bounds.top + y / scale;
+        const regionRight = regionLeft + width / scale;
+        const regionBottom = regionTop + height / scale;
+
+        if (options.emptyFill) {
+            ctx.fillStyle = options.emptyFill;
+            ctx.fillRect(bounds.left, bounds.top, bounds.width, bounds.height);
+        }
+
+        const canvases = this.getCanvases(options.canvasIds);
+        ctx.fillStyle = 'white';
+        canvases.forEach(c => ctx.fillRect(c.offsetX, c.offsetY, c.width, c.height));
+
+        // Drawn once, clipped to the canvases whose links allow it; what crossed a portal is drawn
+        // again, shifted, on the canvas it crossed into, right above its source in the stacking order
+        const elements = this.multiCanvasManager.getGlobalElementManager().getAllElements();
+        const draws: { element: CanvasElement; visibleOn: CanvasData[] }[] = elements.map(element => ({
+            element,
+            visibleOn: canvases.filter(c =>
+                this.intersects(element, c) && this.multiCanvasManager.isElementVisibleOnCanvas(element, c.id)
+            )
+        }));
+        const copies = canvases.flatMap(c => this.multiCanvasManager.getPortalCopies(c.id).map(element => ({ element, visibleOn: [c] })));
+        for (const { element, visibleOn } of this.multiCanvasManager.orderWithPortalCopies(draws, copies, draw => draw.element)) {
+            if (element.hidden || visibleOn.length === 0) continue;
+
+            const elementBounds = ElementGeometry.getBounds(element);
+            if (elementBounds.x > regionRight || elementBounds.x + elementBounds.width < regionLeft ||
+                elementBounds.y > regionBottom || elementBounds.y + elementBounds.height < regionTop) {
+                continue;
+            }
+
+            ctx.save();
+            ctx.beginPath();
+            visibleOn.forEach(c => ctx.rect(c.offsetX, c.offsetY, c.width, c.height));
+            ctx.clip();
+            this.elementRenderer.renderElement(ctx, { ...element });
+            ctx.restore();
+        }
+
+        if (options.seamGuides) {
+            ctx.save();
+            ctx.strokeStyle = 'rgba(255, 0, 255, 0.8)';
+            ctx.lineWidth = 2 / scale;
+            ctx.setLineDash([8 / scale, 6 / scale]);
+            canvases.forEach(c => ctx.strokeRect(c.offsetX, c.offsetY, c.width, c.height));
+            ctx.restore();
+        }
+
+        return canvas;
+    }
+
+    private getCanvases(canvasIds?: string[]): CanvasData[] {
+        return (canvasIds ?? Array.from(this.multiCanvasManager.getAllCanvases().keys()))
+            .map(canvasId => this.multiCanvasManager.getCanvasData(canvasId))
+            .filter((data): data is CanvasData => !!data);
+    }
+
+    private intersects(element: CanvasElement, canvas: CanvasData): boolean {
+        return ElementGeometry.intersectsRect(element, {
+            x: canvas.offsetX, y: canvas.offsetY, width: canvas.width, height: canvas.height
+        });
+    }
+
+    private toBlob(canvas: HTMLCanvasElement, options: PanoramaOptions): Promise<Blob> {
+        const mimeType = `image/${options.format}`;
+        return new Promise((resolve, reject) => {
+            canvas.toBlob(blob => {
+                if (blob) resolve(blob);
+                else reject(new Error('Failed to encode image'));
+            }, mimeType, options.quality);
+        });
+    }
+}
@@ -0,0 +1,134 @@
+import { PathPoint, Point } from './types';
+import type { Rect } from './ElementGeometry';
+
+// Pure geometry for freehand/vector paths; all points are in global coordinates
+export class PathGeometry {
+    // Line segments per Bezier segment when a path is flattened for hit tests and bounds
+    private static readonly CURVE_STEPS = 12;
+
+    public static translate(points: PathPoint[], dx: number, dy: number): PathPoint[] {
+        const move = (p: Point) => ({ x: p.x + dx, y: p.y + dy });
+        return points.map(point => ({
+            ...move(point),
+            handleIn: point.handleIn && move(point.handleIn),
+            handleOut: point.handleOut && move(point.handleOut)
+        }));
+    }
+
+    // Map points from one box onto another (move and resize). A degenerate axis keeps its offsets.
+    public static mapToRect(points: PathPoint[], from: Rect, to: Rect): PathPoint[] {
+        const scaleX = from.width > 0 ? to.width / from.width : 1;
+        const scaleY = from.height > 0 ? to.height / from.height : 1;
+        const map = (p: Point) => ({
+            x: to.x + (p.x - from.x) * scaleX,
+            y: to.y + (p.y - from.y) * scaleY
+        });
+        return points.map(point => ({
+            ...map(point),
+            handleIn: point.handleIn && map(point.handleIn),
+            handleOut: point.handleOut && map(point.handleOut)
+        }));
+    }
+
+    // The curve approximated as a polyline
+    public static flatten(points: PathPoint[]): Point[] {
+        if (points.length === 0) return [];
+        const result: Point[] = [{ x: points[0].x, y: points[0].y }];
+        for (let i = 1; i < points.length; i++) {
+            const from = points[i - 1];
+            const to = points[i];
+            if (!from.handleOut && !to.handleIn) {
+                result.push({ x: to.x, y: to.y });
+                continue;
+            }
+            const c1 = from.handleOut || from;
+            const c2 = to.handleIn || to;
+            for (let step = 1; step <= this.CURVE_STEPS; step++) {
+                result.push(this.cubic(from, c1, c2, to, step / this.CURVE_STEPS));
+            }
+        }
+        return result;
+    }
+
+    // Bounds of the drawn curve (not of the control handles)
+    public static getBounds(points: PathPoint[]): Rect {
+        const flat = this.flatten(points);
+        if (flat.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+        const xs = flat.map(p => p.x);
+        const ys = flat.map(p => p.y);
+        const x = Math.min(...xs);
+        const y = Math.min(...ys);
+        return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+    }
+
+    public static distanceToPath(points: PathPoint[], point: Point): number {
+        const flat = this.flatten(points);
+        if (flat.length === 1) return Math.hypot(point.x - flat[0].x, point.y - flat[0].y);
+        let distance = Infinity;
+        for (let i = 1; i < flat.length; i++) {
+            distance = Math.min(distance, this.distanceToSegment(point, flat[i - 1], flat[i]));
+        }
+        return distance;
+    }
+
+    public static distanceToSegment(point: Point, start: Point, end: Point): number {
+        const dx = end.x - start.x;
+        const dy = end.y - start.y;
+        const lengthSquared = dx * dx + dy * dy;
+        const t = lengthSquared === 0 ? 0 :
+            Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+        return Math.hypot(point.x - (start.x + t * dx), point.y - (start.y + t * dy));
+    }
+
+    // Turn raw pointer samples into a few smooth Bezier anchors:
+    // drop jitter with Ramer-Douglas-Peucker, then fit Catmull-Rom tangents through what is left
+    public static smooth(samples: Point[], tolerance: number = 1.5): PathPoint[] {
+        if (samples.length < 3) return samples.map(p => ({ x: p.x, y: p.y }));
+
+        const anchors = this.simplify(samples, tolerance);
+        return anchors.map((anchor, i) => {
+            const prev = anchors[i - 1] || anchor;
+            const next = anchors[i + 1] || anchor;
+            const tangent = { x: (next.x - prev.x) / 6, y: (next.y - prev.y) / 6 };
+            return {
+                x: anchor.x,
+                y: anchor.y,
+                handleIn: i > 0 ? { x: anchor.x - tangent.x, y: anchor.y - tangent.y } : undefined,
+                handleOut: i < anchors.length - 1 ? { x: anchor.x + tangent.x, y: anchor.y + tangent.y } : undefined
+            };
+        });
+    }
+
+    public static simplify(points: Point[], tolerance: number): Point[] {
+        if (points.length < 3) return points.slice();
+
+        const first = points[0];
+        const last = points[points.length - 1];
+        let maxDistance = 0;
+        let index = 0;
+        for (let i = 1; i < points.length - 1; i++) {
+            const distance = this.distanceToSegment(points[i], first, last);
+            if (distance > maxDistance) {
+                maxDistance = distance;
+                index = i;
+            }
+        }
+
+        if (maxDistance <= tolerance) return [first, last];
+        const left = this.simplify(points.slice(0, index + 1), tolerance);
+        const right = this.simplify(points.slice(index), tolerance);
+        return [...left.slice(0, -1), ...right];
+    }
+
+    private static cubic(p0: Point, p1: Point, p2: Point, p3: Point, t: number): Point {
+        const u = 1 - t;
+        const a = u * u * u;
+        const b = 3 * u * u * t;
+        const c = 3 * u * t * t;
+        const d = t * t * t;
+        return {
+            x: a * p0.x + b * p1.x + c * p2.x + d * p3.x,
+            y: a * p0.y + b * p1.y + c * p2.y + d * p3.y
+        };
+    }
+}
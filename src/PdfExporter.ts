@@ -0,0 +1,847 @@
+import { MultiCanvasManager } from './MultiCanvasManager';
+import { CanvasData, CanvasElement, Point } from './types';
+import { PdfWriter, pdfByteString, pdfNumber, pdfTextString } from './PdfWriter';
+import { TrueTypeFont } from './TrueTypeFont';
+import { ElementGeometry } from './ElementGeometry';
+import { ElementRenderer } from './ElementRenderer';
+
+export type PdfPageMode = 'per-canvas' | 'single-page';
+
+interface FontResource {
+    name: string;
+    objectId: number;
+    font?: TrueTypeFont;          // Embedded TrueType font; standard fonts have none
+    measureFamily?: string;       // Browser font with the same metrics as the standard font
+    glyphs: Map<number, string>;  // Used glyph id -> text, for subsetting and ToUnicode
+}
+
+interface ResolvedFont {
+    resource: FontResource;
+    syntheticBold: boolean;
+    syntheticItalic: boolean;
+}
+
+interface PageResources {
+    fonts: Map<string, number>;
+    images: Map<string, number>;
+    states: Map<string, number>;  // ExtGState name -> object id (element opacity)
+}
+
+// Characters WinAnsiEncoding places in 0x80-0x9F; the rest of Latin-1 maps to itself
+const WIN_ANSI_EXTRAS: { [char: string]: number } = {
+    '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+    '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+    '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+    'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+// Families tried for text the requested font cannot cover (mostly Hangul)
+const FALLBACK_FAMILIES = ['Malgun Gothic', '맑은 고딕', 'Apple SD Gothic Neo', 'Noto Sans KR', 'NanumGothic', '나눔고딕'];
+
+// PDF caps page sides at 14400 units; larger pages are scaled with /UserUnit
+const MAX_PAGE_SIZE = 14400;
+
+// Control point distance for a cubic Bezier approximation of a quarter circle
+const KAPPA = 0.5523;
+
+// Builds a PDF of the canvas grid: real text (embedded TrueType or standard fonts) and embedded images
+export class PdfExporter {
+    private multiCanvasManager: MultiCanvasManager;
+    private fonts: TrueTypeFont[] = [];
+    private localFonts: any[] | null = null;  // FontData list from the Local Font Access API
+    private loadedLocalFamilies: Set<string> = new Set();
+    private measureContext: CanvasRenderingContext2D;
+
+    // Per-export state
+    private writer: PdfWriter = new PdfWriter();
+    private fontResources: Map<string, FontResource> = new Map();
+    private imageResources: Map<string, number> = new Map(); // image src -> XObject id
+
+    constructor(multiCanvasManager: MultiCanvasManager) {
+        this.multiCanvasManager = multiCanvasManager;
+        const context = document.createElement('canvas').getContext('2d');
+        if (!context) {
+            throw new Error('Failed to get canvas context');
+        }
+        this.measureContext = context;
+    }
+
+    // Register a user-supplied .ttf/.ttc so its family can be embedded
+    public async addFontFile(file: File): Promise<TrueTypeFont> {
+        const font = TrueTypeFont.parse(await file.arrayBuffer());
+        this.fonts.push(font);
+        console.log(`[PDF] Registered font ${font.postscriptName} (${font.familyNames.join(', ')})`);
+        return font;
+    }
+
+    public getRegisteredFonts(): TrueTypeFont[] {
+        return this.fonts;
+    }
+
+    public async createPdf(canvasIds: string[], mode: PdfPageMode, title: string): Promise<Blob> {
+        // Must run first so the permission prompt still has the click's user activation
+        await this.loadLocalFontList();
+
+        this.writer = new PdfWriter();
+        this.fontResources = new Map();
+        this.imageResources = new Map();
+
+        const canvases = canvasIds
+            .map(canvasId => this.multiCanvasManager.getCanvasData(canvasId))
+            .filter((data): data is CanvasData => !!data);
+        if (canvases.length === 0) {
+            throw new Error('No canvases to export');
+        }
+
+        const pagesId = this.writer.allocate();
+        const pageIds: number[] = [];
+
+        if (mode === 'per-canvas') {
+            for (const canvas of canvases) {
+                pageIds.push(await this.addPage(pagesId, [canvas]));
+            }
+        } else {
+            pageIds.push(await this.addPage(pagesId, canvases));
+        }
+
+        await this.writeFonts();
+
+        this.writer.setObject(pagesId, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+        const catalogId = this.writer.addObject(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+        const infoId = this.writer.addObject(`<< /Title ${pdfTextString(title)} /Producer (Dynamic Canvas) /CreationDate (D:${this.formatDate(new Date())}) >>`);
+
+        console.log(`[PDF] Created ${pageIds.length} page(s)`);
+        return this.writer.toBlob(catalogId, infoId);
+    }
+
+    // One page covering the bounding box of the given canvases, in global coordinates
+    private async addPage(pagesId: number, canvases: CanvasData[]): Promise<number> {
+        const left = Math.min(...canvases.map(c => c.offsetX));
+        const top = Math.min(...canvases.map(c => c.offsetY));
+        const width = Math.max(...canvases.map(c => c.offsetX + c.width)) - left;
+        const height = Math.max(...canvases.map(c => c.offsetY + c.height)) - top;
+        const userUnit = Math.max(1, Math.ceil(Math.max(width, height) / MAX_PAGE_SIZE * 100) / 100);
+
+        const resources: PageResources = { fonts: new Map(), images: new Map(), states: new Map() };
+        const ops: string[] = [];
+
+        // Flip to the canvas' top-left origin and move the page onto the global position
+        if (userUnit > 1) {
+            ops.push(`${pdfNumber(1 / userUnit)} 0 0 ${pdfNumber(1 / userUnit)} 0 0 cm`);
+        }
+        ops.push(`1 0 0 -1 0 ${pdfNumber(height)} cm`);
+        ops.push(`1 0 0 1 ${pdfNumber(-left)} ${pdfNumber(-top)} cm`);
+
+        // Canvas backgrounds; empty grid cells stay blank
+        ops.push('1 1 1 rg');
+        canvases.forEach(c => ops.push(`${pdfNumber(c.offsetX)} ${pdfNumber(c.offsetY)} ${pdfNumber(c.width)} ${pdfNumber(c.height)} re`));
+        ops.push('f');
+
+        // Each element is drawn once, clipped to the canvases that are allowed to show it;
+        // what crossed a portal is drawn again, shifted, on the canvas it crossed into,
+        // right above its source in the stacking order
+        const elements = this.multiCanvasManager.getGlobalElementManager().getAllElements();
+        const draws: { element: CanvasElement; visibleOn: CanvasData[] }[] = elements.map(element => ({
+            element,
+            visibleOn: canvases.filter(c =>
+                this.intersects(element, c) && this.multiCanvasManager.isElementVisibleOnCanvas(element, c.id)
+            )
+        }));
+        const copies = canvases.flatMap(c => this.multiCanvasManager.getPortalCopies(c.id).map(element => ({ element, visibleOn: [c] })));
+        for (const { element, visibleOn } of this.multiCanvasManager.orderWithPortalCopies(draws, copies, draw => draw.element)) {
+            if (element.hidden || visibleOn.length === 0) continue;
+
+            ops.push('q');
+            visibleOn.forEach(c => ops.push(`${pdfNumber(c.offsetX)} ${pdfNumber(c.offsetY)} ${pdfNumber(c.width)} ${pdfNumber(c.height)} re`));
+            ops.push('W n');
+            const opacity = ElementGeometry.getOpacity(element);
+            if (opacity < 1) {
+                ops.push(`/${this.getOpacityState(opacity, resources)} gs`);
+            }
+            this.applyRotation(element, ops);
+            if (element.type === 'text') {
+                await this.drawText(element, ops, resources);
+            } else if (element.type === 'image') {
+                await this.drawImage(element, ops, resources);
+            } else if (ElementGeometry.isShape(element)) {
+                this.drawShape(element, ops);
+            } else if (element.type === 'path') {
+                this.drawPath(element, ops);
+            }
+            ops.push('Q');
+        }
+
+        const contentId = await this.writer.addStream('', ops.join('\n'));
+        const fontEntries = Array.from(resources.fonts).map(([name, id]) => `/${name} ${id} 0 R`).join(' ');
+        const imageEntries = Array.from(resources.images).map(([name, id]) => `/${name} ${id} 0 R`).join(' ');
+        const stateEntries = Array.from(resources.states).map(([name, id]) => `/${name} ${id} 0 R`).join(' ');
+        const mediaBox = `[0 0 ${pdfNumber(width / userUnit)} ${pdfNumber(height / userUnit)}]`;
+        const unit = userUnit > 1 ? ` /UserUnit ${pdfNumber(userUnit)}` : '';
+
+        return this.writer.addObject(
+            `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox ${mediaBox}${unit} ` +
+            `/Resources << /Font << ${fontEntries} >> /XObject << ${imageEntries} >> /ExtGState << ${stateEntries} >> >> ` +
+            `/Contents ${contentId} 0 R >>`
+        );
+    }
+
+    // Graphics state with a constant fill and stroke alpha, one per distinct opacity on the page
+    private getOpacityState(opacity: number, resources: PageResources): string {
+        const name = `GS${Math.round(opacity * 1000)}`;
+        if (!resources.states.has(name)) {
+            const alpha = pdfNumber(Math.round(opacity * 1000) / 1000);
+            resources.states.set(name, this.writer.addObject(`<< /Type /ExtGState /ca ${alpha} /CA ${alpha} >>`));
+        }
+        return name;
+    }
+
+    // Rotate around the element center; the crop clip and content then use unrotated coordinates
+    private applyRotation(element: CanvasElement, ops: string[]): void {
+        const rotation = ElementGeometry.getRotation(element);
+        if (!rotation) return;
+
+        const radians = rotation * Math.PI / 180;
+        const cos = Math.cos(radians);
+        const sin = Math.sin(radians);
+        const center = ElementGeometry.getCenter(element);
+        const e = center.x - center.x * cos + center.y * sin;
+        const f = center.y - center.x * sin - center.y * cos;
+        ops.push(`${pdfNumber(cos)} ${pdfNumber(sin)} ${pdfNumber(-sin)} ${pdfNumber(cos)} ${pdfNumber(e)} ${pdfNumber(f)} cm`);
+    }
+
+    private async drawText(element: CanvasElement, ops: string[], resources: PageResources): Promise<void> {
+        const fontSize = element.fontSize || 24;
+        const lineHeight = fontSize * 1.2;
+        const lines = element.content.split('\n');
+        const cssFont = this.getCssFont(element);
+
+        // Lay out with the browser's measurements so the PDF matches what is on screen
+        this.measureContext.font = cssFont;
+        const screenWidths = lines.map(line => this.measureContext.measureText(line).width);
+        const boxWidth = Math.max(0, ...screenWidths) + 10;
+
+        const resolved = await this.resolveFont(element);
+        if (!resolved) {
+            await this.drawTextAsImage(element, ops, resources, boxWidth);
+            return;
+        }
+
+        const { resource, syntheticBold, syntheticItalic } = resolved;
+        resources.fonts.set(resource.name, resource.objectId);
+
+        const color = this.getRgb(element.color || '#000000');
+        const baselineOffset = this.getMiddleToBaseline(cssFont, fontSize);
+        const skew = syntheticItalic ? 0.2 : 0;
+
+        ops.push('BT');
+        ops.push(`${color} rg`);
+        ops.push(`/${resource.name} ${pdfNumber(fontSize)} Tf`);
+        if (syntheticBold) {
+            ops.push(`${color} RG ${pdfNumber(fontSize * 0.03)} w 2 Tr`);
+        }
+
+        lines.forEach((line, index) => {
+            if (!line) return;
+            const screenWidth = screenWidths[index];
+            const pdfWidth = this.getPdfTextWidth(resource, line, element, fontSize);
+
+            let x = element.x + 5;
+            if (element.textAlign === 'center') {
+                x = element.x + boxWidth / 2 - screenWidth / 2;
+            } else if (element.textAlign === 'right') {
+                x = element.x + boxWidth - 5 - screenWidth;
+            }
+            const baseline = element.y + lineHeight * (index + 0.5) + baselineOffset;
+            // Stretch the PDF glyphs to the on-screen width when the fonts differ slightly
+            const horizontalScale = pdfWidth > 0 ? screenWidth / pdfWidth * 100 : 100;
+
+            ops.push(`${pdfNumber(horizontalScale)} Tz`);
+            ops.push(`1 0 ${skew} -1 ${pdfNumber(x)} ${pdfNumber(baseline)} Tm`);
+            ops.push(`${this.encodeText(resource, line)} Tj`);
+        });
+        ops.push('ET');
+    }
+
+    // Last resort for text no available font can represent: embed it as a high-resolution image
+    private async drawTextAsImage(element: CanvasElement, ops: string[], resources: PageResources, boxWidth: number): Promise<void> {
+        const scale = 3;
+        const fontSize = element.fontSize || 24;
+        const lineHeight = fontSize * 1.2;
+        const lines = element.content.split('\n');
+        const height = lineHeight * lines.length;
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.ceil(boxWidth * scale));
+        canvas.height = Math.max(1, Math.ceil(height * scale));
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+
+        ctx.scale(scale, scale);
+        ctx.font = this.getCssFont(element);
+        ctx.fillStyle = element.color || '#000000';
+        ctx.textBaseline = 'middle';
+        lines.forEach((line, index) => {
+            let x = 5;
+            ctx.textAlign = 'left';
+            if (element.textAlign === 'center') {
+                x = boxWidth / 2;
+                ctx.textAlign = 'center';
+            } else if (element.textAlign === 'right') {
+                x = boxWidth - 5;
+                ctx.textAlign = 'right';
+            }
+            ctx.fillText(line, x, lineHeight * (index + 0.5));
+        });
+
+        const imageId = await this.addPixelImage(canvas);
+        if (!imageId) return;
+        const name = `Im${imageId}`;
+        resources.images.set(name, imageId);
+        ops.push(this.drawImageOp(name, element.x, element.y, boxWidth, height));
+        console.log(`[PDF] Rasterized text element ${element.id} (no embeddable font)`);
+    }
+
+    private async drawImage(element: CanvasElement, ops: string[], resources: PageResources): Promise<void> {
+        const image = element.imageElement;
+        if (!image || !image.naturalWidth) return;
+
+        let imageId = this.imageResources.get(image.src);
+        if (imageId === undefined) {
+            imageId = await this.addJpegImage(element.content) ?? await this.addPixelImage(image) ?? undefined;
+            if (imageId === undefined) return;
+            this.imageResources.set(image.src, imageId);
+        }
+
+        const name = `Im${imageId}`;
+        resources.images.set(name, imageId);
+
+        // Same clip the on-screen renderer uses for cropped images
+        if (element.cropX !== undefined && element.cropY !== undefined &&
+            element.cropWidth !== undefined && element.cropHeight !== undefined) {
+            ops.push(`${pdfNumber(element.x + element.cropX)} ${pdfNumber(element.y + element.cropY)} ${pdfNumber(element.cropWidth)} ${pdfNumber(element.cropHeight)} re W n`);
+        }
+        ops.push(this.drawImageOp(name, element.x, element.y, element.width, element.height));
+    }
+
+    // Vector paths with the same dash and arrowhead geometry as ElementRenderer.renderShape
+    private drawShape(element: CanvasElement, ops: string[]): void {
+        const strokeWidth = element.strokeWidth ?? 2;
+        const stroke = this.getRgb(element.strokeColor || '#000000');
+        const dash = ElementRenderer.getDashPattern(element).map(pdfNumber).join(' ');
+        const point = (p: Point) => `${pdfNumber(p.x)} ${pdfNumber(p.y)}`;
+
+        ops.push(`${stroke} RG ${pdfNumber(strokeWidth)} w [${dash}] 0 d ${element.strokeDash === 'dotted' ? 1 : 0} J`);
+
+        if (ElementGeometry.isLine(element)) {
+            const { start, end } = ElementGeometry.getLineEndpoints(element);
+            ops.push(`${point(start)} m ${point(end)} l S`);
+
+            const size = ElementGeometry.getArrowSize(element);
+            const heads = [
+                element.arrowStart ? ElementGeometry.getArrowHead(start, end, size) : null,
+                element.arrowEnd ? ElementGeometry.getArrowHead(end, start, size) : null
+            ];
+            heads.forEach(head => {
+                if (!head) return;
+                ops.push(`${stroke} rg ${point(head[0])} m ${point(head[1])} l ${point(head[2])} l h f`);
+            });
+            return;
+        }
+
+        if (element.type === 'ellipse') {
+            this.appendEllipse(element.x, element.y, element.width, element.height, ops);
+        } else {
+            this.appendRoundedRect(element, ops);
+        }
+
+        const fill = !!element.fillColor;
+        const outline = strokeWidth > 0;
+        if (fill) {
+            ops.push(`${this.getRgb(element.fillColor!)} rg`);
+        }
+        ops.push(fill && outline ? 'B' : fill ? 'f' : outline ? 'S' : 'n');
+    }
+
+    // Mirrors ElementRenderer.renderPath: round caps and joins, Bezier segments where handles exist
+    private drawPath(element: CanvasElement, ops: string[]): void {
+        const points = element.pathPoints;
+        if (!points || points.length === 0) return;
+
+        const dash = ElementRenderer.getDashPattern(element).map(pdfNumber).join(' ');
+        const point = (p: Point) => `${pdfNumber(p.x)} ${pdfNumber(p.y)}`;
+        ops.push(`${this.getRgb(element.strokeColor || '#000000')} RG ${pdfNumber(element.strokeWidth ?? 2)} w [${dash}] 0 d 1 J 1 j`);
+
+        const path = [`${point(points[0])} m`];
+        if (points.length === 1) {
+            path.push(`${point(points[0])} l`);
+        }
+        for (let i = 1; i < points.length; i++) {
+            const from = points[i - 1];
+            const to = points[i];
+            if (from.handleOut || to.handleIn) {
+                path.push(`${point(from.handleOut || from)} ${point(to.handleIn || to)} ${point(to)} c`);
+            } else {
+                path.push(`${point(to)} l`);
+            }
+        }
+        ops.push(`${path.join(' ')} S`);
+    }
+
+    private appendEllipse(x: number, y: number, width: number, height: number, ops: string[]): void {
+        const rx = width / 2;
+        const ry = height / 2;
+        const cx = x + rx;
+        const cy = y + ry;
+        const ox = rx * KAPPA;
+        const oy = ry * KAPPA;
+        const n = pdfNumber;
+        ops.push(
+            `${n(cx + rx)} ${n(cy)} m ` +
+            `${n(cx + rx)} ${n(cy + oy)} ${n(cx + ox)} ${n(cy + ry)} ${n(cx)} ${n(cy + ry)} c ` +
+            `${n(cx - ox)} ${n(cy + ry)} ${n(cx - rx)} ${n(cy + oy)} ${n(cx - rx)} ${n(cy)} c ` +
+            `${n(cx - rx)} ${n(cy - oy)} ${n(cx - ox)} ${n(cy - ry)} ${n(cx)} ${n(cy - ry)} c ` +
+            `${n(cx + ox)} ${n(cy - ry)} ${n(cx + rx)} ${n(cy - oy)} ${n(cx + rx)} ${n(cy)} c h`
+        );
+    }
+
+    private appendRoundedRect(element: CanvasElement, ops: string[]): void {
+        const { x, y, width, height } = element;
+        const r = Math.max(0, Math.min(element.cornerRadius || 0, width / 2, height / 2));
+        const n = pdfNumber;
+        if (r === 0) {
+            ops.push(`${n(x)} ${n(y)} ${n(width)} ${n(height)} re`);
+            return;
+        }
+
+        const o = r * (1 - KAPPA);
+        const right = x + width;
+        const bottom = y + height;
+        ops.push(
+            `${n(x + r)} ${n(y)} m ${n(right - r)} ${n(y)} l ` +
+            `${n(right - o)} ${n(y)} ${n(right)} ${n(y + o)} ${n(right)} ${n(y + r)} c ` +
+            `${n(right)} ${n(bottom - r)} l ` +
+            `${n(right)} ${n(bottom - o)} ${n(right - o)} ${n(bottom)} ${n(right - r)} ${n(bottom)} c ` +
+            `${n(x + r)} ${n(bottom)} l ` +
+            `${n(x + o)} ${n(bottom)} ${n(x)} ${n(bottom - o)} ${n(x)} ${n(bottom - r)} c ` +
+            `${n(x)} ${n(y + r)} l ` +
+            `${n(x)} ${n(y + o)} ${n(x + o)} ${n(y)} ${n(x + r)} ${n(y)} c h`
+        );
+    }
+
+    private drawImageOp(name: string, x: number, y: number, width: number, height: number): string {
+        // The page is flipped, so the image's unit square has to be flipped back
+        return `q ${pdfNumber(width)} 0 0 ${pdfNumber(-height)} ${pdfNumber(x)} ${pdfNumber(y + height)} cm /${name} Do Q`;
+    }
+
+    // JPEG sources are passed through untouched (DCTDecode) instead of being re-encoded. Rotated or
+    // mirrored photos (EXIF Orientation other than 1) go through the pixel path instead, where the
+    // browser has already turned them upright.
+    private async addJpegImage(source: string): Promise<number | null> {
+        const match = /^data:image\/jpeg;base64,(.*)$/.exec(source);
+        if (!match) return null;
+
+        const binary = atob(match[1]);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) {
+            bytes[i] = binary.charCodeAt(i);
+        }
+
+        const info = this.readJpegInfo(bytes);
+        if (!info) return null;
+
+        const colorSpace = info.components === 1 ? '/DeviceGray' : '/DeviceRGB';
+        return this.writer.addStream(
+            `/Type /XObject /Subtype /Image /Width ${info.width} /Height ${info.height} /ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode`,
+            bytes,
+            false
+        );
+    }
+
+    private readJpegInfo(bytes: Uint8Array): { width: number; height: number; components: number } | null {
+        if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+        let offset = 2;
+        while (offset + 9 < bytes.length) {
+            if (bytes[offset] !== 0xff) return null;
+            const marker = bytes[offset + 1];
+            const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+            // APP1 comes before the frame header; DCTDecode would ignore its orientation
+            if (marker === 0xe1 && this.readExifOrientation(bytes.subarray(offset + 4, offset + 2 + length)) !== 1) {
+                return null;
+            }
+            // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+            if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+                const components = bytes[offset + 9];
+                // CMYK JPEGs need Adobe-specific decode handling; let them go through the pixel path
+                if (components !== 1 && components !== 3) return null;
+                return {
+                    height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+                    width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+                    components
+                };
+            }
+            offset += 2 + length;
+        }
+        return null;
+    }
+
+    // Orientation tag (0x0112) from the first IFD of an APP1 Exif segment; 1 when there is none
+    private readExifOrientation(segment: Uint8Array): number {
+        const exifHeader = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+        if (segment.length < 14 || exifHeader.some((byte, i) => segment[i] !== byte)) return 1;
+
+        const tiff = 6;
+        const littleEndian = segment[tiff] === 0x49; // "II", otherwise "MM"
+        const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+        const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+        if (ifd + 2 > segment.length) return 1;
+
+        const entries = view.getUint16(ifd, littleEndian);
+        for (let i = 0; i < entries; i++) {
+            const entry = ifd + 2 + i * 12;
+            if (entry + 12 > segment.length) break;
+            if (view.getUint16(entry, littleEndian) === 0x0112) {
+                return view.getUint16(entry + 8, littleEndian);
+            }
+        }
+        return 1;
+    }
+
+    // Raw RGB pixels with a separate alpha soft mask when the source has transparency
+    private async addPixelImage(source: HTMLImageElement | HTMLCanvasElement): Promise<number | null> {
+        const width = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+        const height = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+
+        let pixels: Uint8ClampedArray;
+        try {
+            const canvas = document.createElement('canvas');
+            canvas.width = width;
+            canvas.height = height;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return null;
+            ctx.drawImage(source, 0, 0);
+            pixels = ctx.getImageData(0, 0, width, height).data;
+        } catch (error) {
+            // Cross-origin images taint the canvas and cannot be read back
+            console.error('[PDF] Could not read image pixels', error);
+            return null;
+        }
+
+        const rgb = new Uint8Array(width * height * 3);
+        const alpha = new Uint8Array(width * height);
+        let hasAlpha = false;
+        for (let i = 0, j = 0; i < pixels.length; i += 4, j++) {
+            rgb[j * 3] = pixels[i];
+            rgb[j * 3 + 1] = pixels[i + 1];
+            rgb[j * 3 + 2] = pixels[i + 2];
+            alpha[j] = pixels[i + 3];
+            if (pixels[i + 3] !== 255) hasAlpha = true;
+        }
+
+        const base = `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /BitsPerComponent 8`;
+        let mask = '';
+        if (hasAlpha) {
+            const maskId = await this.writer.addStream(`${base} /ColorSpace /DeviceGray`, alpha);
+            mask = ` /SMask ${maskId} 0 R`;
+        }
+        return this.writer.addStream(`${base} /ColorSpace /DeviceRGB${mask}`, rgb);
+    }
+
+    private async resolveFont(element: CanvasElement): Promise<ResolvedFont | null> {
+        const family = this.getPrimaryFamily(element.fontFamily);
+        const bold = element.fontWeight === 'bold';
+        const italic = element.fontStyle === 'italic';
+        const text = element.content;
+
+        const embedded = (font: TrueTypeFont): ResolvedFont => ({
+            resource: this.getEmbeddedFontResource(font),
+            syntheticBold: bold && !font.bold,
+            syntheticItalic: italic && !font.italic
+        });
+
+        await this.loadLocalFamily(family);
+        const exact = this.findFont([family], bold, italic, text);
+        if (exact) return embedded(exact);
+
+        if (this.toWinAnsi(text) !== null) {
+            const standard = this.getStandardFont(family, bold, italic);
+            return {
+                resource: this.getStandardFontResource(standard.name, standard.measureFamily),
+                syntheticBold: false,
+                syntheticItalic: false
+            };
+        }
+
+        for (const fallbackFamily of FALLBACK_FAMILIES) {
+            await this.loadLocalFamily(fallbackFamily);
+        }
+        const fallback = this.findFont(FALLBACK_FAMILIES, bold, italic, text)
+            || this.fonts.find(font => font.hasGlyphs(text));
+        return fallback ? embedded(fallback) : null;
+    }
+
+    private findFont(families: string[], bold: boolean, italic: boolean, text: string): TrueTypeFont | null {
+        const wanted = families.map(family => family.toLowerCase());
+        const candidates = this.fonts.filter(font =>
+            font.familyNames.some(name => wanted.includes(name.toLowerCase())) && font.hasGlyphs(text)
+        );
+        return candidates.find(font => font.bold === bold && font.italic === italic)
+            || candidates.find(font => !font.bold && !font.italic)
+            || candidates[0]
+            || null;
+    }
+
+    private getStandardFont(family: string, bold: boolean, italic: boolean): { name: string; measureFamily: string } {
+        const lower = family.toLowerCase();
+        if (lower.includes('courier') || lower.includes('mono')) {
+            const suffix = bold && italic ? '-BoldOblique' : bold ? '-Bold' : italic ? '-Oblique' : '';
+            return { name: `Courier${suffix}`, measureFamily: '"Courier New", Courier, monospace' };
+        }
+        if (lower.includes('times') || lower.includes('georgia') || lower === 'serif') {
+            const suffix = bold && italic ? '-BoldItalic' : bold ? '-Bold' : italic ? '-Italic' : '-Roman';
+            return { name: `Times${suffix}`, measureFamily: '"Times New Roman", Times, serif' };
+        }
+        const suffix = bold && italic ? '-BoldOblique' : bold ? '-Bold' : italic ? '-Oblique' : '';
+        return { name: `Helvetica${suffix}`, measureFamily: 'Arial, Helvetica, sans-serif' };
+    }
+
+    private getStandardFontResource(baseFont: string, measureFamily: string): FontResource {
+        const key = `standard:${baseFont}`;
+        let resource = this.fontResources.get(key);
+        if (!resource) {
+            resource = {
+                name: `F${this.fontResources.size + 1}`,
+                objectId: this.writer.addObject(`<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`),
+                measureFamily,
+                glyphs: new Map()
+            };
+            this.fontResources.set(key, resource);
+        }
+        return resource;
+    }
+
+    private getEmbeddedFontResource(font: TrueTypeFont): FontResource {
+        const key = `embedded:${this.fonts.indexOf(font)}`;
+        let resource = this.fontResources.get(key);
+        if (!resource) {
+            // Written in writeFonts() once every used glyph is known
+            resource = {
+                name: `F${this.fontResources.size + 1}`,
+                objectId: this.writer.allocate(),
+                font,
+                glyphs: new Map()
+            };
+            this.fontResources.set(key, resource);
+        }
+        return resource;
+    }
+
+    private encodeText(resource: FontResource, text: string): string {
+        if (!resource.font) {
+            return pdfByteString(this.toWinAnsi(text) || []);
+        }
+
+        // Identity-H: two-byte glyph ids
+        let hex = '<';
+        for (const char of text) {
+            const glyphId = resource.font.getGlyphId(char.codePointAt(0)!);
+            resource.glyphs.set(glyphId, char);
+            hex += glyphId.toString(16).padStart(4, '0');
+        }
+        return hex + '>';
+    }
+
+    private getPdfTextWidth(resource: FontResource, text: string, element: CanvasElement, fontSize: number): number {
+        const font = resource.font;
+        if (!font) {
+            const style = element.fontStyle === 'italic' ? 'italic ' : '';
+            const weight = element.fontWeight === 'bold' ? 'bold ' : '';
+            this.measureContext.font = `${style}${weight}${fontSize}px ${resource.measureFamily}`;
+            return this.measureContext.measureText(text).width;
+        }
+
+        let units = 0;
+        for (const char of text) {
+            units += font.getAdvanceWidth(font.getGlyphId(char.codePointAt(0)!));
+        }
+        return units / font.unitsPerEm * fontSize;
+    }
+
+    private async writeFonts(): Promise<void> {
+        let subsetIndex = 0;
+        for (const resource of this.fontResources.values()) {
+            const font = resource.font;
+            if (!font) continue;
+
+            const baseFont = `${this.getSubsetTag(subsetIndex++)}+${font.postscriptName}`;
+            const program = font.subset(resource.glyphs.keys());
+            const fontFileId = await this.writer.addStream(`/Length1 ${program.length}`, program);
+
+            const scale = 1000 / font.unitsPerEm;
+            const bbox = font.bbox.map(value => Math.round(value * scale)).join(' ');
+            const descriptorId = this.writer.addObject(
+                `<< /Type /FontDescriptor /FontName /${baseFont} /Flags 4 /FontBBox [${bbox}] ` +
+                `/ItalicAngle ${pdfNumber(font.italicAngle)} /Ascent ${Math.round(font.ascent * scale)} ` +
+                `/Descent ${Math.round(font.descent * scale)} /CapHeight ${Math.round(font.capHeight * scale)} ` +
+                `/StemV 80 /FontFile2 ${fontFileId} 0 R >>`
+            );
+
+            const glyphIds = Array.from(resource.glyphs.keys()).sort((a, b) => a - b);
+            const widths = glyphIds.map(glyphId => `${glyphId} [${Math.round(font.getAdvanceWidth(glyphId) * scale)}]`).join(' ');
+            const cidFontId = this.writer.addObject(
+                `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${baseFont} ` +
+                `/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> ` +
+                `/FontDescriptor ${descriptorId} 0 R /W [${widths}] /CIDToGIDMap /Identity >>`
+            );
+
+            const toUnicodeId = await this.writer.addStream('', this.buildToUnicode(resource.glyphs));
+            this.writer.setObject(
+                resource.objectId,
+                `<< /Type /Font /Subtype /Type0 /BaseFont /${baseFont} /Encoding /Identity-H ` +
+                `/DescendantFonts [${cidFontId} 0 R] /ToUnicode ${toUnicodeId} 0 R >>`
+            );
+        }
+    }
+
+    // Lets viewers copy and search the embedded text
+    private buildToUnicode(glyphs: Map<number, string>): string {
+        const entries = Array.from(glyphs).map(([glyphId, text]) => {
+            let hex = '';
+            for (let i = 0; i < text.length; i++) {
+                hex += text.charCodeAt(i).toString(16).padStart(4, '0');
+            }
+            return `<${glyphId.toString(16).padStart(4, '0')}> <${hex}>`;
+        });
+
+        const blocks: string[] = [];
+        for (let i = 0; i < entries.length; i += 100) {
+            const block = entries.slice(i, i + 100);
+            blocks.push(`${block.length} beginbfchar\n${block.join('\n')}\nendbfchar`);
+        }
+
+        return [
+            '/CIDInit /ProcSet findresource begin',
+            '12 dict begin',
+            'begincmap',
+            '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+            '/CMapName /Adobe-Identity-UCS def',
+            '/CMapType 2 def',
+            '1 begincodespacerange',
+            '<0000> <FFFF>',
+            'endcodespacerange',
+            ...blocks,
+            'endcmap',
+            'CMapName currentdict /CMap defineresource pop',
+            'end',
+            'end'
+        ].join('\n');
+    }
+
+    private async loadLocalFontList(): Promise<void> {
+        if (this.localFonts !== null) return;
+        this.localFonts = [];
+
+        const queryLocalFonts = (window as any).queryLocalFonts;
+        if (typeof queryLocalFonts !== 'function') return;
+        try {
+            this.localFonts = await queryLocalFonts.call(window);
+        } catch (error) {
+            console.log('[PDF] Local font access not granted, using registered and standard fonts', error);
+        }
+    }
+
+    private async loadLocalFamily(family: string): Promise<void> {
+        const key = family.toLowerCase();
+        if (this.loadedLocalFamilies.has(key) || !this.localFonts) return;
+        this.loadedLocalFamilies.add(key);
+
+        for (const fontData of this.localFonts) {
+            if (fontData.family?.toLowerCase() !== key) continue;
+            try {
+                const blob: Blob = await fontData.blob();
+                this.fonts.push(TrueTypeFont.parse(await blob.arrayBuffer(), fontData.postscriptName));
+            } catch (error) {
+                // Typically CFF-based OpenType, which is not embedded
+                console.log(`[PDF] Skipping local font ${fontData.postscriptName}`, error);
+            }
+        }
+    }
+
+    private toWinAnsi(text: string): number[] | null {
+        const bytes: number[] = [];
+        for (const char of text) {
+            const code = char.codePointAt(0)!;
+            if (char === '\n') continue;
+            if (WIN_ANSI_EXTRAS[char] !== undefined) {
+                bytes.push(WIN_ANSI_EXTRAS[char]);
+            } else if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+                bytes.push(code);
+            } else {
+                return null;
+            }
+        }
+        return bytes;
+    }
+
+    private getCssFont(element: CanvasElement): string {
+        const style = element.fontStyle === 'italic' ? 'italic ' : '';
+        const weight = element.fontWeight === 'bold' ? 'bold ' : '';
+        return `${style}${weight}${element.fontSize || 24}px ${element.fontFamily || 'Arial'}`;
+    }
+
+    private getPrimaryFamily(fontFamily?: string): string {
+        return (fontFamily || 'Arial').split(',')[0].trim().replace(/^["']|["']$/g, '');
+    }
+
+    // The renderer positions lines with textBaseline 'middle'; PDF text sits on the alphabetic baseline
+    private getMiddleToBaseline(cssFont: string, fontSize: number): number {
+        this.measureContext.font = cssFont;
+        this.measureContext.textBaseline = 'alphabetic';
+        const metrics = this.measureContext.measureText('Hg');
+        const ascent = metrics.fontBoundingBoxAscent ?? fontSize * 0.8;
+        const descent = metrics.fontBoundingBoxDescent ?? fontSize * 0.2;
+        return (ascent - descent) / 2;
+    }
+
+    // Normalize any CSS color through the canvas and return PDF RGB operands
+    private getRgb(color: string): string {
+        this.measureContext.fillStyle = '#000000';
+        this.measureContext.fillStyle = color;
+        const normalized = this.measureContext.fillStyle as string;
+
+        let r = 0, g = 0, b = 0;
+        if (normalized.startsWith('#')) {
+            r = parseInt(normalized.slice(1, 3), 16);
+            g = parseInt(normalized.slice(3, 5), 16);
+            b = parseInt(normalized.slice(5, 7), 16);
+        } else {
+            const match = /rgba?\(([\d.]+),\s*([\d.]+),\s*([\d.]+)/.exec(normalized);
+            if (match) {
+                [r, g, b] = [Number(match[1]), Number(match[2]), Number(match[3])];
+            }
+        }
+        return [r, g, b].map(value => pdfNumber(value / 255)).join(' ');
+    }
+
+    private intersects(element: CanvasElement, canvas: CanvasData): boolean {
+        return ElementGeometry.intersectsRect(element, {
+            x: canvas.offsetX, y: canvas.offsetY, width: canvas.width, height: canvas.height
+        });
+    }
+
+    // Six uppercase letters, as the PDF spec requires for subset font names
+    private getSubsetTag(index: number): string {
+        let tag = '';
+        let value = index + 1;
+        for (let i = 0; i < 6; i++) {
+            tag = String.fromCharCode(65 + value % 26) + tag;
+            value = Math.floor(value / 26);
+        }
+        return tag;
+    }
+
+    private formatDate(date: Date): string {
+        const pad = (value: number) => value.toString().padStart(2, '0');
+        return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+            `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+    }
+}
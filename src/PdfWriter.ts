@@ -0,0 +1,109 @@
+// Low-level PDF file builder: numbered objects, (optionally deflated) streams, xref table
+export class PdfWriter {
+    private objects: (Uint8Array | null)[] = [];
+    private encoder: TextEncoder = new TextEncoder();
+
+    // Reserve an object number before its body is known (e.g. for forward references)
+    public allocate(): number {
+        this.objects.push(null);
+        return this.objects.length;
+    }
+
+    public setObject(id: number, body: string): void {
+        this.objects[id - 1] = this.encoder.encode(body);
+    }
+
+    public addObject(body: string): number {
+        const id = this.allocate();
+        this.setObject(id, body);
+        return id;
+    }
+
+    // `dict` holds the dictionary entries without << >>; /Length and /Filter are added here
+    public async addStream(dict: string, data: Uint8Array | string, compress: boolean = true, id: number = this.allocate()): Promise<number> {
+        let bytes = typeof data === 'string' ? this.encoder.encode(data) : data;
+        let entries = dict;
+        if (compress) {
+            bytes = await deflate(bytes);
+            entries += ' /Filter /FlateDecode';
+        }
+
+        const head = this.encoder.encode(`<< ${entries.trim()} /Length ${bytes.length} >>\nstream\n`);
+        const tail = this.encoder.encode('\nendstream');
+        const body = new Uint8Array(head.length + bytes.length + tail.length);
+        body.set(head, 0);
+        body.set(bytes, head.length);
+        body.set(tail, head.length + bytes.length);
+        this.objects[id - 1] = body;
+        return id;
+    }
+
+    public toBlob(rootId: number, infoId?: number): Blob {
+        const chunks: Uint8Array[] = [];
+        const offsets: number[] = [];
+        let size = 0;
+        const push = (chunk: Uint8Array | string) => {
+            const bytes = typeof chunk === 'string' ? this.encoder.encode(chunk) : chunk;
+            chunks.push(bytes);
+            size += bytes.length;
+        };
+
+        // Binary comment marks the file as 8-bit for transfer tools
+        push('%PDF-1.7\n');
+        push(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+        this.objects.forEach((body, index) => {
+            if (!body) {
+                throw new Error(`PDF object ${index + 1} was allocated but never written`);
+            }
+            offsets.push(size);
+            push(`${index + 1} 0 obj\n`);
+            push(body);
+            push('\nendobj\n');
+        });
+
+        const xrefOffset = size;
+        push(`xref\n0 ${this.objects.length + 1}\n0000000000 65535 f \n`);
+        offsets.forEach(offset => push(`${offset.toString().padStart(10, '0')} 00000 n \n`));
+        const info = infoId ? ` /Info ${infoId} 0 R` : '';
+        push(`trailer\n<< /Size ${this.objects.length + 1} /Root ${rootId} 0 R${info} >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+        return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+    }
+}
+
+// zlib-wrapped deflate, which is exactly what /FlateDecode expects
+export async function deflate(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Text string (e.g. document title) as UTF-16BE hex with BOM so any script survives
+export function pdfTextString(text: string): string {
+    let hex = 'FEFF';
+    for (let i = 0; i < text.length; i++) {
+        hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+    }
+    return `<${hex}>`;
+}
+
+// Literal string from single-byte codes, escaping delimiters and non-ASCII bytes
+export function pdfByteString(bytes: number[]): string {
+    let result = '(';
+    bytes.forEach(byte => {
+        if (byte === 0x28 || byte === 0x29 || byte === 0x5c) {
+            result += '\\' + String.fromCharCode(byte);
+        } else if (byte < 0x20 || byte > 0x7e) {
+            result += '\\' + byte.toString(8).padStart(3, '0');
+        } else {
+            result += String.fromCharCode(byte);
+        }
+    });
+    return result + ')';
+}
+
+// Compact number formatting for content streams
+export function pdfNumber(value: number): string {
+    const rounded = Math.round(value * 1000) / 1000;
+    return Object.is(rounded, -0) ? '0' : rounded.toString();
+}
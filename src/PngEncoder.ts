@@ -0,0 +1,66 @@
+import { crc32 } from './ZipWriter';
+
+// Streaming RGBA PNG encoder for images too large for a single canvas; rows are fed in strips
+export class PngEncoder {
+    private width: number;
+    private height: number;
+    private rowsWritten: number = 0;
+    private writer: WritableStreamDefaultWriter<BufferSource>;
+    private compressed: Promise<ArrayBuffer>;
+
+    constructor(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+        const stream = new CompressionStream('deflate');
+        this.writer = stream.writable.getWriter();
+        // Drain the output while rows are written so the stream never stalls on backpressure
+        this.compressed = new Response(stream.readable).arrayBuffer();
+    }
+
+    // `pixels` holds whole RGBA rows (e.g. ImageData.data of a full-width strip)
+    public async addRows(pixels: Uint8ClampedArray | Uint8Array): Promise<void> {
+        const rowLength = this.width * 4;
+        const rows = pixels.length / rowLength;
+        const scanlines = new Uint8Array(rows * (rowLength + 1));
+        for (let row = 0; row < rows; row++) {
+            // Filter type 0 (None) precedes every scanline
+            scanlines.set(pixels.subarray(row * rowLength, (row + 1) * rowLength), row * (rowLength + 1) + 1);
+        }
+        this.rowsWritten += rows;
+        await this.writer.write(scanlines);
+    }
+
+    public async finish(): Promise<Blob> {
+        if (this.rowsWritten !== this.height) {
+            throw new Error(`PNG expected ${this.height} rows but got ${this.rowsWritten}`);
+        }
+        await this.writer.close();
+        const data = new Uint8Array(await this.compressed);
+
+        const header = new DataView(new ArrayBuffer(13));
+        header.setUint32(0, this.width);
+        header.setUint32(4, this.height);
+        header.setUint8(8, 8);   // Bit depth
+        header.setUint8(9, 6);   // Color type: RGBA
+        // Compression, filter and interlace methods stay 0
+
+        const parts: Uint8Array[] = [new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])];
+        parts.push(...this.chunk('IHDR', new Uint8Array(header.buffer)));
+        const idatSize = 1 << 23;
+        for (let offset = 0; offset < data.length; offset += idatSize) {
+            parts.push(...this.chunk('IDAT', data.subarray(offset, offset + idatSize)));
+        }
+        parts.push(...this.chunk('IEND', new Uint8Array(0)));
+
+        return new Blob(parts as BlobPart[], { type: 'image/png' });
+    }
+
+    private chunk(type: string, data: Uint8Array): Uint8Array[] {
+        const typeBytes = new Uint8Array([type.charCodeAt(0), type.charCodeAt(1), type.charCodeAt(2), type.charCodeAt(3)]);
+        const length = new DataView(new ArrayBuffer(4));
+        length.setUint32(0, data.length);
+        const crc = new DataView(new ArrayBuffer(4));
+        crc.setUint32(0, crc32(data, crc32(typeBytes)));
+        return [new Uint8Array(length.buffer), typeBytes, data, new Uint8Array(crc.buffer)];
+    }
+}
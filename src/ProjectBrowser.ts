@@ -0,0 +1,123 @@
+import { AutosaveManager } from './AutosaveManager';
+
+// Dialog listing local (IndexedDB) projects with open/rename/delete
+export class ProjectBrowser {
+    private autosave: AutosaveManager;
+    private dialog: HTMLElement;
+    private list: HTMLElement;
+
+    constructor(autosave: AutosaveManager) {
+        this.autosave = autosave;
+        this.dialog = document.getElementById('projectDialog') as HTMLElement;
+        this.list = document.getElementById('projectList') as HTMLElement;
+        this.setupEventListeners();
+    }
+
+    private setupEventListeners(): void {
+        const projectsBtn = document.getElementById('projectsBtn');
+        const closeBtn = document.getElementById('projectDialogClose');
+        const newProjectBtn = document.getElementById('newProjectBtn');
+
+        projectsBtn?.addEventListener('click', () => this.open());
+        closeBtn?.addEventListener('click', () => this.close());
+
+        // Close when clicking the backdrop
+        this.dialog?.addEventListener('click', (e) => {
+            if (e.target === this.dialog) {
+                this.close();
+            }
+        });
+
+        newProjectBtn?.addEventListener('click', async () => {
+            const name = prompt('새 프로젝트 이름', '새 프로젝트');
+            if (name === null) return;
+            await this.autosave.newProject(name.trim() || '새 프로젝트');
+            this.close();
+        });
+    }
+
+    public async open(): Promise<void> {
+        if (!this.dialog) return;
+        this.dialog.style.display = 'flex';
+        await this.renderList();
+    }
+
+    public close(): void {
+        if (this.dialog) {
+            this.dialog.style.display = 'none';
+        }
+    }
+
+    private async renderList(): Promise<void> {
+        this.list.innerHTML = '';
+
+        let projects;
+        try {
+            projects = await this.autosave.listProjects();
+        } catch (error) {
+            console.error('[PROJECTS] Failed to list projects', error);
+            this.list.textContent = '프로젝트 목록을 불러올 수 없습니다.';
+            return;
+        }
+
+        if (projects.length === 0) {
+            this.list.textContent = '저장된 프로젝트가 없습니다.';
+            return;
+        }
+
+        projects.forEach(project => {
+            const row = document.createElement('div');
+            row.className = 'project-row';
+            row.classList.toggle('current', project.id === this.autosave.getProjectId());
+
+            const info = document.createElement('div');
+            info.className = 'project-info';
+            const name = document.createElement('div');
+            name.className = 'project-name';
+            name.textContent = project.name;
+            const updated = document.createElement('div');
+            updated.className = 'project-updated';
+            updated.textContent = new Date(project.updatedAt).toLocaleString('ko-KR');
+            info.appendChild(name);
+            info.appendChild(updated);
+
+            const openBtn = this.createButton('열기', async () => {
+                try {
+                    await this.autosave.openProject(project.id);
+                    this.close();
+                } catch (error) {
+                    console.error('[PROJECTS] Failed to open project', error);
+                    alert(`프로젝트를 열 수 없습니다: ${(error as Error).message}`);
+                }
+            });
+
+            const renameBtn = this.createButton('이름 변경', async () => {
+                const newName = prompt('프로젝트 이름', project.name);
+                if (!newName || !newName.trim()) return;
+                await this.autosave.renameProject(project.id, newName.trim());
+                await this.renderList();
+            });
+
+            const deleteBtn = this.createButton('삭제', async () => {
+                if (!confirm(`"${project.name}" 프로젝트를 삭제하시겠습니까?`)) return;
+                await this.autosave.deleteProject(project.id);
+                await this.renderList();
+            });
+            deleteBtn.classList.add('danger');
+
+            row.appendChild(info);
+            row.appendChild(openBtn);
+            row.appendChild(renameBtn);
+            row.appendChild(deleteBtn);
+            this.list.appendChild(row);
+        });
+    }
+
+    private createButton(label: string, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.className = 'project-action';
+        button.textContent = label;
+        button.addEventListener('click', onClick);
+        return button;
+    }
+}
@@ -0,0 +1,259 @@
+import { ProjectDocument } from './types';
+
+export interface ProjectSummary {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Stored record: the document without image pixels, plus where each image's Blob lives
+interface StoredProject extends ProjectSummary {
+    document: ProjectDocument;
+    imageKeys: { [imageId: string]: string };
+}
+
+interface StoredImage {
+    key: string;       // `${projectId}/${SHA-256 of the blob}`
+    projectId: string;
+    mimeType: string;
+    blob: Blob;
+}
+
+const DB_NAME = 'dynamic-canvas';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+const IMAGE_STORE = 'images';
+
+// IndexedDB persistence for named local projects; images are kept as Blobs, not data URLs
+export class ProjectStorage {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+    // Image id -> digest of the data it had at the last save or load; only ids of the latest document are kept
+    private digestCache: Map<string, { dataUrl: string; digest: string }> = new Map();
+
+    public static isSupported(): boolean {
+        return typeof indexedDB !== 'undefined';
+    }
+
+    public async listProjects(): Promise<ProjectSummary[]> {
+        const db = await this.open();
+        const projects = await this.request<StoredProject[]>(
+            db.transaction(PROJECT_STORE, 'readonly').objectStore(PROJECT_STORE).getAll()
+        );
+        return projects
+            .map(({ id, name, createdAt, updatedAt }) => ({ id, name, createdAt, updatedAt }))
+            .sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    public async getProject(projectId: string): Promise<ProjectSummary | null> {
+        const db = await this.open();
+        const project = await this.request<StoredProject | undefined>(
+            db.transaction(PROJECT_STORE, 'readonly').objectStore(PROJECT_STORE).get(projectId)
+        );
+        if (!project) return null;
+        return { id: project.id, name: project.name, createdAt: project.createdAt, updatedAt: project.updatedAt };
+    }
+
+    public async saveProject(projectId: string, name: string, doc: ProjectDocument): Promise<void> {
+        const db = await this.open();
+
+        // Convert images up front: IndexedDB transactions auto-commit across awaits
+        const imageKeys: { [imageId: string]: string } = {};
+        const newImages: StoredImage[] = [];
+        const existingKeys = new Set(await this.getImageKeys(db, projectId));
+
+        for (const image of doc.images) {
+            // Unchanged images reuse their digest, so they are neither decoded nor rewritten
+            const cached = this.digestCache.get(image.id);
+            let blob: Blob | null = null;
+            let digest: string;
+            if (cached && cached.dataUrl === image.dataUrl) {
+                digest = cached.digest;
+            } else {
+                // Remote sources the serializer could not inline may be offline or blocked; keep
+                // their URL in the document rather than failing the whole save
+                try {
+                    blob = await this.dataUrlToBlob(image.dataUrl);
+                    digest = await this.digest(blob);
+                } catch (error) {
+                    console.warn(`[STORAGE] Keeping image ${image.id} as a URL:`, error);
+                    continue;
+                }
+                this.digestCache.set(image.id, { dataUrl: image.dataUrl, digest });
+            }
+
+            const key = `${projectId}/${digest}`;
+            imageKeys[image.id] = key;
+            if (!existingKeys.has(key) && !newImages.some(stored => stored.key === key)) {
+                newImages.push({
+                    key,
+                    projectId,
+                    mimeType: image.mimeType,
+                    blob: blob ?? await this.dataUrlToBlob(image.dataUrl)
+                });
+            }
+        }
+        this.evictDigests(doc.images.map(image => image.id));
+
+        const existing = await this.request<StoredProject | undefined>(
+            db.transaction(PROJECT_STORE, 'readonly').objectStore(PROJECT_STORE).get(projectId)
+        );
+        const now = Date.now();
+        const record: StoredProject = {
+            id: projectId,
+            name,
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+            document: {
+                ...doc,
+                images: doc.images.map(image => ({ ...image, dataUrl: imageKeys[image.id] ? '' : image.dataUrl }))
+            },
+            imageKeys
+        };
+
+        const referenced = new Set(Object.values(imageKeys));
+        const tx = db.transaction([PROJECT_STORE, IMAGE_STORE], 'readwrite');
+        const imageStore = tx.objectStore(IMAGE_STORE);
+        tx.objectStore(PROJECT_STORE).put(record);
+        newImages.forEach(image => imageStore.put(image));
+        // Drop images no element references any more
+        existingKeys.forEach(key => {
+            if (!referenced.has(key)) imageStore.delete(key);
+        });
+        await this.complete(tx);
+    }
+
+    public async loadProject(projectId: string): Promise<{ summary: ProjectSummary; document: ProjectDocument }> {
+        const db = await this.open();
+        const tx = db.transaction([PROJECT_STORE, IMAGE_STORE], 'readonly');
+        const project = await this.request<StoredProject | undefined>(tx.objectStore(PROJECT_STORE).get(projectId));
+        if (!project) {
+            throw new Error(`Project ${projectId} not found`);
+        }
+
+        const blobs: Map<string, StoredImage> = new Map();
+        for (const key of Object.values(project.imageKeys)) {
+            const image = await this.request<StoredImage | undefined>(tx.objectStore(IMAGE_STORE).get(key));
+            if (image) blobs.set(key, image);
+        }
+
+        const images = [];
+        for (const image of project.document.images) {
+            // Stored without a blob (see saveProject)
+            if (!project.imageKeys[image.id] && image.dataUrl) {
+                images.push(image);
+                continue;
+            }
+            const stored = blobs.get(project.imageKeys[image.id]);
+            if (!stored) {
+                console.error(`[STORAGE] Missing image blob for ${image.id}`);
+                continue;
+            }
+            const dataUrl = await this.blobToDataUrl(stored.blob);
+            this.digestCache.set(image.id, { dataUrl, digest: stored.key.slice(projectId.length + 1) });
+            images.push({ ...image, dataUrl });
+        }
+        this.evictDigests(images.map(image => image.id));
+
+        return {
+            summary: { id: project.id, name: project.name, createdAt: project.createdAt, updatedAt: project.updatedAt },
+            document: { ...project.document, images }
+        };
+    }
+
+    public async renameProject(projectId: string, name: string): Promise<void> {
+        const db = await this.open();
+        const project = await this.request<StoredProject | undefined>(
+            db.transaction(PROJECT_STORE, 'readonly').objectStore(PROJECT_STORE).get(projectId)
+        );
+        if (!project) return;
+
+        const tx = db.transaction(PROJECT_STORE, 'readwrite');
+        tx.objectStore(PROJECT_STORE).put({ ...project, name });
+        await this.complete(tx);
+    }
+
+    public async deleteProject(projectId: string): Promise<void> {
+        const db = await this.open();
+        const keys = await this.getImageKeys(db, projectId);
+
+        const tx = db.transaction([PROJECT_STORE, IMAGE_STORE], 'readwrite');
+        tx.objectStore(PROJECT_STORE).delete(projectId);
+        const imageStore = tx.objectStore(IMAGE_STORE);
+        keys.forEach(key => imageStore.delete(key));
+        await this.complete(tx);
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+                        db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+                    }
+                    if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+                        const images = db.createObjectStore(IMAGE_STORE, { keyPath: 'key' });
+                        images.createIndex('projectId', 'projectId', { unique: false });
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    this.dbPromise = null;
+                    reject(request.error);
+                };
+            });
+        }
+        return this.dbPromise;
+    }
+
+    private async getImageKeys(db: IDBDatabase, projectId: string): Promise<string[]> {
+        const index = db.transaction(IMAGE_STORE, 'readonly').objectStore(IMAGE_STORE).index('projectId');
+        const keys = await this.request<IDBValidKey[]>(index.getAllKeys(projectId));
+        return keys.map(key => key.toString());
+    }
+
+    private request<T>(request: IDBRequest): Promise<T> {
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result as T);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    private complete(tx: IDBTransaction): Promise<void> {
+        return new Promise((resolve, reject) => {
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    }
+
+    // SHA-256 of the image bytes: equal keys mean equal images, so a stored Blob is never mistaken for another
+    private async digest(blob: Blob): Promise<string> {
+        const hash = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+        return Array.from(new Uint8Array(hash)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+    }
+
+    // Forget digests of images that are no longer in the document
+    private evictDigests(imageIds: string[]): void {
+        const current = new Set(imageIds);
+        Array.from(this.digestCache.keys()).forEach(imageId => {
+            if (!current.has(imageId)) this.digestCache.delete(imageId);
+        });
+    }
+
+    private async dataUrlToBlob(dataUrl: string): Promise<Blob> {
+        const response = await fetch(dataUrl);
+        return response.blob();
+    }
+
+    private blobToDataUrl(blob: Blob): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = () => reject(reader.error);
+            reader.readAsDataURL(blob);
+        });
+    }
+}
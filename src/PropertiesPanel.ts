@@ -0,0 +1,205 @@
+import { MultiCanvasManager } from './MultiCanvasManager';
+import { GlobalElementManager } from './GlobalElementManager';
+import { ElementGeometry } from './ElementGeometry';
+import { CanvasElement, SpanMode } from './types';
+
+// Smallest width/height the inspector accepts
+const MIN_SIZE = 1;
+
+// Inspector for the selected element: global and active-canvas position, size (with aspect lock),
+// rotation, opacity and canvas span mode. Every edit goes through GlobalElementManager.updateElement.
+export class PropertiesPanel {
+    private multiCanvasManager: MultiCanvasManager;
+    private globalManager: GlobalElementManager;
+    private panel: HTMLElement;
+    private body: HTMLElement;
+    private empty: HTMLElement;
+    private localLabel: HTMLElement;
+    private inputs: { [key: string]: HTMLInputElement } = {};
+    private opacityValue: HTMLElement;
+    private spanModeSelect: HTMLSelectElement;
+    private aspectButton: HTMLElement;
+    private aspectLocked: boolean = false;
+    private renderScheduled: boolean = false;
+    private adjustingOpacity: boolean = false;
+
+    constructor(multiCanvasManager: MultiCanvasManager) {
+        this.multiCanvasManager = multiCanvasManager;
+        this.globalManager = multiCanvasManager.getGlobalElementManager();
+        this.panel = document.getElementById('propertiesPanel') as HTMLElement;
+        this.body = document.getElementById('propertiesBody') as HTMLElement;
+        this.empty = document.getElementById('propertiesEmpty') as HTMLElement;
+        this.localLabel = document.getElementById('propLocalLabel') as HTMLElement;
+        this.opacityValue = document.getElementById('propOpacityValue') as HTMLElement;
+        this.aspectButton = document.getElementById('propAspectLock') as HTMLElement;
+        this.spanModeSelect = document.getElementById('propSpanMode') as HTMLSelectElement;
+        ['GlobalX', 'GlobalY', 'LocalX', 'LocalY', 'Width', 'Height', 'Rotation', 'Opacity'].forEach(name => {
+            this.inputs[name] = document.getElementById(`prop${name}`) as HTMLInputElement;
+        });
+        this.setupEventListeners();
+        this.render();
+    }
+
+    private setupEventListeners(): void {
+        const propertiesBtn = document.getElementById('propertiesBtn');
+        propertiesBtn?.addEventListener('click', () => {
+            const isHidden = this.panel.style.display === 'none';
+            this.panel.style.display = isHidden ? 'flex' : 'none';
+            propertiesBtn.classList.toggle('active', isHidden);
+            if (isHidden) this.scheduleRender();
+        });
+
+        this.globalManager.subscribe(() => this.scheduleRender());
+        document.addEventListener('selection-changed', () => this.scheduleRender());
+        // Local coordinates depend on the active canvas and its position in the grid
+        document.addEventListener('canvas-clicked', () => this.scheduleRender());
+        document.addEventListener('view-changed', () => this.scheduleRender());
+
+        Object.values(this.inputs).forEach(input => {
+            // Keep Delete/Backspace and arrow keys away from the canvas shortcuts
+            input?.addEventListener('keydown', (e) => e.stopPropagation());
+        });
+        this.spanModeSelect?.addEventListener('keydown', (e) => e.stopPropagation());
+
+        this.onCommit('GlobalX', (element, value) => ({ x: value }));
+        this.onCommit('GlobalY', (element, value) => ({ y: value }));
+        this.onCommit('LocalX', (element, value) => {
+            const canvas = this.multiCanvasManager.getActiveCanvas();
+            return canvas ? { x: canvas.localToGlobal(value, 0).x } : null;
+        });
+        this.onCommit('LocalY', (element, value) => {
+            const canvas = this.multiCanvasManager.getActiveCanvas();
+            return canvas ? { y: canvas.localToGlobal(0, value).y } : null;
+        });
+        this.onCommit('Width', (element, value) => {
+            const width = Math.max(MIN_SIZE, value);
+            return this.aspectLocked && element.width > 0
+                ? { width, height: Math.max(MIN_SIZE, element.height * width / element.width) }
+                : { width };
+        });
+        this.onCommit('Height', (element, value) => {
+            const height = Math.max(MIN_SIZE, value);
+            return this.aspectLocked && element.height > 0
+                ? { height, width: Math.max(MIN_SIZE, element.width * height / element.height) }
+                : { height };
+        });
+        this.onCommit('Rotation', (element, value) => ({ rotation: ((value % 360) + 360) % 360 }));
+
+        this.aspectButton?.addEventListener('click', () => {
+            this.aspectLocked = !this.aspectLocked;
+            this.aspectButton.classList.toggle('active', this.aspectLocked);
+        });
+
+        // The opacity slider is one history entry per drag, like the toolbar sliders
+        const opacity = this.inputs.Opacity;
+        opacity?.addEventListener('input', () => {
+            const element = this.getTarget();
+            if (!element || element.locked) return;
+            if (!this.adjustingOpacity) {
+                this.adjustingOpacity = true;
+                this.globalManager.getHistory().beginTransaction('opacity');
+            }
+            const value = parseInt(opacity.value) / 100;
+            this.globalManager.updateElement(element.id, { opacity: value < 1 ? value : undefined });
+            document.dispatchEvent(new CustomEvent('element-moved')); // Re-render every canvas
+        });
+        opacity?.addEventListener('change', () => {
+            if (this.adjustingOpacity) {
+                this.adjustingOpacity = false;
+                this.globalManager.getHistory().endTransaction();
+            }
+        });
+
+        this.spanModeSelect?.addEventListener('change', () => {
+            const element = this.getTarget();
+            if (!element || element.locked) {
+                this.render();
+                return;
+            }
+            this.globalManager.setSpanMode([element.id], this.spanModeSelect.value as SpanMode);
+            document.dispatchEvent(new CustomEvent('element-moved')); // Re-render every canvas
+        });
+    }
+
+    // Apply a numeric field when it is committed (Enter, blur or the spinner)
+    private onCommit(name: string, toUpdates: (element: CanvasElement, value: number) => Partial<CanvasElement> | null): void {
+        const input = this.inputs[name];
+        input?.addEventListener('change', () => {
+            const element = this.getTarget();
+            const value = parseFloat(input.value);
+            if (!element || element.locked || isNaN(value)) {
+                this.render();
+                return;
+            }
+            const updates = toUpdates(element, value);
+            if (updates) {
+                this.globalManager.updateElement(element.id, updates);
+                document.dispatchEvent(new CustomEvent('element-moved')); // Re-render every canvas
+            }
+            this.render();
+        });
+    }
+
+    // The single selected element; a multi-selection or a closed group has no one set of values
+    private getTarget(): CanvasElement | null {
+        const element = this.globalManager.getSelectedElement();
+        if (!element) return null;
+        const ids = this.globalManager.getSelectionWithGroups();
+        return ids.length <= 1 ? element : null;
+    }
+
+    private scheduleRender(): void {
+        if (this.renderScheduled) return;
+        this.renderScheduled = true;
+        requestAnimationFrame(() => {
+            this.renderScheduled = false;
+            this.render();
+        });
+    }
+
+    private render(): void {
+        if (!this.panel || this.panel.style.display === 'none') return;
+
+        const element = this.getTarget();
+        this.body.style.display = element ? 'flex' : 'none';
+        this.empty.style.display = element ? 'none' : 'block';
+        if (!element) {
+            this.empty.textContent = this.globalManager.getSelectionWithGroups().length > 1
+                ? '여러 요소가 선택되었습니다'
+                : '선택된 요소가 없습니다';
+            return;
+        }
+
+        const canvas = this.multiCanvasManager.getActiveCanvas();
+        const canvasId = this.multiCanvasManager.getActiveCanvasId();
+        const local = canvas ? canvas.globalToLocal(element.x, element.y) : null;
+        const canvasName = canvasId ? this.multiCanvasManager.getCanvasData(canvasId)?.name : null;
+        this.localLabel.textContent = canvasName ? `캔버스 기준 위치 (${canvasName})` : '캔버스 기준 위치';
+
+        const opacity = Math.round(ElementGeometry.getOpacity(element) * 100);
+        this.setValue('GlobalX', element.x);
+        this.setValue('GlobalY', element.y);
+        this.setValue('LocalX', local?.x ?? null);
+        this.setValue('LocalY', local?.y ?? null);
+        this.setValue('Width', element.width);
+        this.setValue('Height', element.height);
+        this.setValue('Rotation', ElementGeometry.getRotation(element));
+        this.setValue('Opacity', opacity);
+        this.opacityValue.textContent = `${opacity}%`;
+
+        Object.values(this.inputs).forEach(input => {
+            if (input) input.disabled = !!element.locked;
+        });
+        if (this.spanModeSelect) {
+            this.spanModeSelect.value = element.spanMode || 'follow';
+            this.spanModeSelect.disabled = !!element.locked;
+        }
+    }
+
+    // Leave a field alone while it is being typed into
+    private setValue(name: string, value: number | null): void {
+        const input = this.inputs[name];
+        if (!input || document.activeElement === input) return;
+        input.value = value === null ? '' : (Math.round(value * 100) / 100).toString();
+    }
+}
@@ -0,0 +1,238 @@
+import { MultiCanvasManager } from './MultiCanvasManager';
+import { GuideManager } from './GuideManager';
+
+// Ruler thickness in screen pixels
+const RULER_SIZE = 20;
+// Label spacings to choose from; the smallest that leaves room for a label at the current zoom wins
+const TICK_STEPS = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000];
+const MIN_LABEL_SPACING = 50;
+
+// One canvas column (or row) as it appears on screen
+interface RulerSegment {
+    screenStart: number;  // Relative to the ruler
+    screenSize: number;
+    size: number;         // Canvas units
+}
+
+// Rulers along the top and left of the canvas area. Every canvas column (row) gets its own
+// scale starting at 0, so margins read the same on each canvas at any zoom.
+// Dragging out of a ruler adds a guide to the canvas under the pointer; hold Shift for a global guide.
+export class RulerManager {
+    private multiCanvasManager: MultiCanvasManager;
+    private guideManager: GuideManager;
+    private container: HTMLElement;
+    private top: HTMLCanvasElement;
+    private left: HTMLCanvasElement;
+    private corner: HTMLElement;
+    private visible: boolean = true;
+    private renderScheduled: boolean = false;
+    private dragAxis: 'x' | 'y' | null = null;  // Axis of the guide being pulled out
+
+    constructor(multiCanvasManager: MultiCanvasManager) {
+        this.multiCanvasManager = multiCanvasManager;
+        this.guideManager = multiCanvasManager.getGuideManager();
+        this.container = document.getElementById('canvasContainer') as HTMLElement;
+        this.top = document.getElementById('rulerTop') as HTMLCanvasElement;
+        this.left = document.getElementById('rulerLeft') as HTMLCanvasElement;
+        this.corner = document.getElementById('rulerCorner') as HTMLElement;
+        this.setupEventListeners();
+        this.scheduleRender();
+    }
+
+    private setupEventListeners(): void {
+        const rulersBtn = document.getElementById('rulersBtn');
+        rulersBtn?.addEventListener('click', () => this.setVisible(!this.visible));
+
+        // Anything that moves canvases on screen moves the scales
+        this.container.addEventListener('scroll', () => this.scheduleRender());
+        window.addEventListener('resize', () => this.scheduleRender());
+        new ResizeObserver(() => this.scheduleRender()).observe(this.container);
+        ['view-changed', 'canvas-structure-changed'].forEach(type => {
+            document.addEventListener(type, () => this.scheduleRender());
+        });
+
+        // The top ruler makes horizontal guides, the left one vertical guides
+        this.top.addEventListener('mousedown', (e) => this.startGuideDrag('y', e));
+        this.left.addEventListener('mousedown', (e) => this.startGuideDrag('x', e));
+        document.addEventListener('mousemove', (e) => {
+            if (this.dragAxis) this.updatePreview(e);
+        });
+        document.addEventListener('mouseup', (e) => {
+            if (this.dragAxis) this.finishGuideDrag(e);
+        });
+    }
+
+    // Rulers, guides and layout grids are shown and hidden together
+    public setVisible(visible: boolean): void {
+        this.visible = visible;
+        [this.top, this.left, this.corner].forEach(el => el.style.display = visible ? 'block' : 'none');
+        document.getElementById('rulersBtn')?.classList.toggle('active', visible);
+        this.guideManager.setVisible(visible);
+        this.scheduleRender();
+    }
+
+    private scheduleRender(): void {
+        if (this.renderScheduled) return;
+        this.renderScheduled = true;
+        requestAnimationFrame(() => {
+            this.renderScheduled = false;
+            this.render();
+        });
+    }
+
+    private render(): void {
+        if (!this.visible) return;
+
+        // Rulers overlay the top and left edges of the (scrolling) canvas container
+        const area = this.container.parentElement as HTMLElement;
+        const areaRect = area.getBoundingClientRect();
+        const rect = this.container.getBoundingClientRect();
+        const left = rect.left - areaRect.left;
+        const top = rect.top - areaRect.top;
+        this.place(this.top, left + RULER_SIZE, top, this.container.clientWidth - RULER_SIZE, RULER_SIZE);
+        this.place(this.left, left, top + RULER_SIZE, RULER_SIZE, this.container.clientHeight - RULER_SIZE);
+        this.place(this.corner, left, top, RULER_SIZE, RULER_SIZE);
+
+        const topRect = this.top.getBoundingClientRect();
+        const leftRect = this.left.getBoundingClientRect();
+        this.drawRuler(this.top, 'x', this.getSegments('x', topRect.left));
+        this.drawRuler(this.left, 'y', this.getSegments('y', leftRect.top));
+    }
+
+    private place(el: HTMLElement, left: number, top: number, width: number, height: number): void {
+        el.style.left = `${left}px`;
+        el.style.top = `${top}px`;
+        el.style.width = `${Math.max(0, width)}px`;
+        el.style.height = `${Math.max(0, height)}px`;
+    }
+
+    // Screen span of every distinct canvas column (axis 'x') or row (axis 'y')
+    private getSegments(axis: 'x' | 'y', origin: number): RulerSegment[] {
+        const segments: Map<string, RulerSegment> = new Map();
+        this.multiCanvasManager.getAllCanvases().forEach(canvasManager => {
+            const canvas = canvasManager.getCanvas();
+            const rect = canvas.getBoundingClientRect();
+            const segment = axis === 'x'
+                ? { screenStart: rect.left - origin, screenSize: rect.width, size: canvas.width }
+                : { screenStart: rect.top - origin, screenSize: rect.height, size: canvas.height };
+            if (segment.screenSize <= 0) return;
+            segments.set(`${Math.round(segment.screenStart)}:${Math.round(segment.screenSize)}`, segment);
+        });
+        return Array.from(segments.values());
+    }
+
+    private drawRuler(ruler: HTMLCanvasElement, axis: 'x' | 'y', segments: RulerSegment[]): void {
+        const ratio = window.devicePixelRatio || 1;
+        const width = ruler.clientWidth;
+        const height = ruler.clientHeight;
+        ruler.width = Math.max(1, Math.round(width * ratio));
+        ruler.height = Math.max(1, Math.round(height * ratio));
+        const ctx = ruler.getContext('2d');
+        if (!ctx) return;
+        ctx.scale(ratio, ratio);
+
+        ctx.fillStyle = '#edf2f7';
+        ctx.fillRect(0, 0, width, height);
+        const length = axis === 'x' ? width : height;
+
+        ctx.strokeStyle = '#718096';
+        ctx.fillStyle = '#4a5568';
+        ctx.font = '10px Arial';
+        ctx.lineWidth = 1;
+        segments.forEach(segment => {
+            if (segment.screenStart > length || segment.screenStart + segment.screenSize < 0) return;
+            ctx.save();
+            ctx.fillStyle = 'white';
+            if (axis === 'x') {
+                ctx.fillRect(segment.screenStart, 0, segment.screenSize, RULER_SIZE);
+            } else {
+                ctx.fillRect(0, segment.screenStart, RULER_SIZE, segment.screenSize);
+            }
+            ctx.restore();
+
+            const scale = segment.screenSize / segment.size;
+            const step = TICK_STEPS.find(s => s * scale >= MIN_LABEL_SPACING) ?? TICK_STEPS[TICK_STEPS.length - 1];
+            const minor = step % 5 === 0 ? step / 5 : step / 2;
+
+            ctx.beginPath();
+            for (let value = 0; value <= segment.size; value += minor) {
+                const screen = Math.round(segment.screenStart + value * scale) + 0.5;
+                if (screen < 0 || screen > length) continue;
+                const major = Math.abs(value / step - Math.round(value / step)) < 1e-6;
+                const tick = major ? RULER_SIZE : RULER_SIZE / 4;
+                if (axis === 'x') {
+                    ctx.moveTo(screen, RULER_SIZE - tick);
+                    ctx.lineTo(screen, RULER_SIZE);
+                } else {
+                    ctx.moveTo(RULER_SIZE - tick, screen);
+                    ctx.lineTo(RULER_SIZE, screen);
+                }
+                if (major) this.drawLabel(ctx, axis, screen, Math.round(value).toString());
+            }
+            ctx.stroke();
+        });
+    }
+
+    private drawLabel(ctx: CanvasRenderingContext2D, axis: 'x' | 'y', screen: number, label: string): void {
+        ctx.save();
+        ctx.textBaseline = 'top';
+        if (axis === 'x') {
+            ctx.fillText(label, screen + 3, 2);
+        } else {
+            // Vertical labels read bottom-to-top
+            ctx.translate(2, screen - 3);
+            ctx.rotate(-Math.PI / 2);
+            ctx.fillText(label, 0, 0);
+        }
+        ctx.restore();
+    }
+
+    private startGuideDrag(axis: 'x' | 'y', e: MouseEvent): void {
+        if (e.button !== 0) return;
+        e.preventDefault();
+        this.dragAxis = axis;
+        document.body.style.cursor = axis === 'y' ? 'row-resize' : 'col-resize';
+    }
+
+    private updatePreview(e: MouseEvent): void {
+        const position = this.getGuidePosition(e);
+        this.guideManager.setPreview(position && {
+            id: 'guide-preview',
+            axis: this.dragAxis!,
+            position: position.position,
+            canvasId: position.canvasId
+        });
+    }
+
+    private finishGuideDrag(e: MouseEvent): void {
+        const position = this.getGuidePosition(e);
+        this.dragAxis = null;
+        document.body.style.cursor = '';
+        const axis = this.guideManager.getPreview()?.axis;
+        this.guideManager.setPreview(null);
+        if (position && axis) {
+            this.guideManager.addGuide(axis, position.position, position.canvasId);
+        }
+    }
+
+    // Where a guide dropped at the pointer would go: the canvas under it, local position,
+    // or a global position when Shift is held. Null off canvas.
+    private getGuidePosition(e: MouseEvent): { position: number; canvasId?: string } | null {
+        if (!this.dragAxis) return null;
+        for (const [canvasId, canvasManager] of this.multiCanvasManager.getAllCanvases()) {
+            const canvas = canvasManager.getCanvas();
+            const rect = canvas.getBoundingClientRect();
+            if (e.clientX < rect.left || e.clientX > rect.right || e.clientY < rect.top || e.clientY > rect.bottom) continue;
+
+            const local = this.dragAxis === 'x'
+                ? (e.clientX - rect.left) * canvas.width / rect.width
+                : (e.clientY - rect.top) * canvas.height / rect.height;
+            if (e.shiftKey) {
+                const offset = canvasManager.getOffset();
+                return { position: Math.round(local + (this.dragAxis === 'x' ? offset.x : offset.y)) };
+            }
+            return { position: Math.round(local), canvasId };
+        }
+        return null;
+    }
+}
@@ -0,0 +1,242 @@
+import type { MultiCanvasManager } from './MultiCanvasManager';
+import { ElementGeometry, Rect } from './ElementGeometry';
+
+// A line in global coordinates: x for vertical lines, y for horizontal ones, with the extent
+// it covers along the other axis. Used both for snap targets and for the guides drawn.
+export interface SnapGuide {
+    axis: 'x' | 'y';
+    position: number;
+    start: number;
+    end: number;
+}
+
+// Equal gaps found next to the moving box, drawn as measured spans
+export interface SpacingIndicator {
+    axis: 'x' | 'y';
+    from: number;
+    to: number;
+    at: number;  // Position on the other axis
+}
+
+export interface SnapResult {
+    dx: number;
+    dy: number;
+}
+
+// Screen pixels within which an edge or center snaps
+const SNAP_DISTANCE = 6;
+
+// Snapping for drags and resizes: element edges and centers, canvas edges and centers, seams between
+// linked canvases, ruler guides and layout grids. Guides from the last snap are kept for rendering.
+export class SnapManager {
+    private multiCanvasManager: MultiCanvasManager;
+    private guides: SnapGuide[] = [];
+    private spacings: SpacingIndicator[] = [];
+
+    constructor(multiCanvasManager: MultiCanvasManager) {
+        this.multiCanvasManager = multiCanvasManager;
+    }
+
+    // Global-unit threshold for a canvas shown at `displayScale` (CSS scale x zoom)
+    public getThreshold(displayScale: number): number {
+        return SNAP_DISTANCE / displayScale;
+    }
+
+    public getGuides(): SnapGuide[] {
+        return this.guides;
+    }
+
+    public getSpacings(): SpacingIndicator[] {
+        return this.spacings;
+    }
+
+    public clear(): void {
+        this.guides = [];
+        this.spacings = [];
+    }
+
+    // Offset that snaps the moving box's edges or center; also records the guides to draw
+    public snapRect(rect: Rect, excludeIds: string[], threshold: number): SnapResult {
+        const targets = this.getTargets(excludeIds);
+        const others = this.getOtherBounds(excludeIds);
+
+        const xs = [rect.x, rect.x + rect.width / 2, rect.x + rect.width];
+        const ys = [rect.y, rect.y + rect.height / 2, rect.y + rect.height];
+        let dx = this.findOffset(xs, targets.filter(t => t.axis === 'x'), threshold);
+        let dy = this.findOffset(ys, targets.filter(t => t.axis === 'y'), threshold);
+
+        // Equal spacing between the nearest neighbours on either side
+        const spacingX = this.findSpacingOffset(rect, others, 'x', threshold);
+        if (spacingX !== null && (dx === null || Math.abs(spacingX) < Math.abs(dx))) dx = spacingX;
+        const spacingY = this.findSpacingOffset(rect, others, 'y', threshold);
+        if (spacingY !== null && (dy === null || Math.abs(spacingY) < Math.abs(dy))) dy = spacingY;
+
+        const result = { dx: dx ?? 0, dy: dy ?? 0 };
+        const snapped = { ...rect, x: rect.x + result.dx, y: rect.y + result.dy };
+        this.guides = this.collectGuides(snapped, targets);
+        this.spacings = [
+            ...this.collectSpacings(snapped, others, 'x'),
+            ...this.collectSpacings(snapped, others, 'y')
+        ];
+        return result;
+    }
+
+    // Offsets that snap single moving edges (resize handles); guides are set separately
+    // with showGuides() once the final box is known
+    public snapEdges(xs: number[], ys: number[], excludeIds: string[], threshold: number): SnapResult {
+        const targets = this.getTargets(excludeIds);
+        return {
+            dx: this.findOffset(xs, targets.filter(t => t.axis === 'x'), threshold) ?? 0,
+            dy: this.findOffset(ys, targets.filter(t => t.axis === 'y'), threshold) ?? 0
+        };
+    }
+
+    public showGuides(rect: Rect, excludeIds: string[]): void {
+        this.guides = this.collectGuides(rect, this.getTargets(excludeIds));
+        this.spacings = [];
+    }
+
+    private findOffset(values: number[], targets: SnapGuide[], threshold: number): number | null {
+        let best: number | null = null;
+        values.forEach(value => {
+            targets.forEach(target => {
+                const offset = target.position - value;
+                if (Math.abs(offset) <= threshold && (best === null || Math.abs(offset) < Math.abs(best))) {
+                    best = offset;
+                }
+            });
+        });
+        return best;
+    }
+
+    private getTargets(excludeIds: string[]): SnapGuide[] {
+        const targets: SnapGuide[] = [];
+        const addRect = (r: Rect) => {
+            [r.x, r.x + r.width / 2, r.x + r.width].forEach(x => targets.push({ axis: 'x', position: x, start: r.y, end: r.y + r.height }));
+            [r.y, r.y + r.height / 2, r.y + r.height].forEach(y => targets.push({ axis: 'y', position: y, start: r.x, end: r.x + r.width }));
+        };
+
+        this.getOtherBounds(excludeIds).forEach(addRect);
+        this.getCanvasRects().forEach(({ rect }) => addRect(rect));
+        targets.push(...this.getSeams());
+        targets.push(...this.multiCanvasManager.getGuideManager().getSnapTargets());
+        return targets;
+    }
+
+    private getOtherBounds(excludeIds: string[]): Rect[] {
+        const excluded = new Set(excludeIds);
+        return this.multiCanvasManager.getGlobalElementManager().getAllElements()
+            .filter(element => !element.hidden && !excluded.has(element.id))
+            .map(element => ElementGeometry.getBounds(element));
+    }
+
+    private getCanvasRects(): { id: string; rect: Rect }[] {
+        return Array.from(this.multiCanvasManager.getAllCanvases()).map(([id, canvasManager]) => {
+            const offset = canvasManager.getOffset();
+            const canvas = canvasManager.getCanvas();
+            return { id, rect: { x: offset.x, y: offset.y, width: canvas.width, height: canvas.height } };
+        });
+    }
+
+    // Shared edges of linked neighbours (right and bottom of each canvas, so each seam appears once)
+    private getSeams(): SnapGuide[] {
+        const gridManager = this.multiCanvasManager.getGridManager();
+        const linkManager = this.multiCanvasManager.getLinkManager();
+        const linked = (a: string, b: string) => linkManager.isLinked(a, b) || linkManager.isLinked(b, a);
+        const rects = new Map(this.getCanvasRects().map(({ id, rect }) => [id, rect]));
+        const seams: SnapGuide[] = [];
+
+        rects.forEach((rect, canvasId) => {
+            const adjacent = gridManager.getAdjacentCanvases(canvasId);
+            const right = adjacent.get('right');
+            const bottom = adjacent.get('bottom');
+            const rightRect = right ? rects.get(right) : undefined;
+            const bottomRect = bottom ? rects.get(bottom) : undefined;
+            if (right && rightRect && linked(canvasId, right)) {
+                seams.push({
+                    axis: 'x',
+                    position: rect.x + rect.width,
+                    start: Math.max(rect.y, rightRect.y),
+                    end: Math.min(rect.y + rect.height, rightRect.y + rightRect.height)
+                });
+            }
+            if (bottom && bottomRect && linked(canvasId, bottom)) {
+                seams.push({
+                    axis: 'y',
+                    position: rect.y + rect.height,
+                    start: Math.max(rect.x, bottomRect.x),
+                    end: Math.min(rect.x + rect.width, bottomRect.x + bottomRect.width)
+                });
+            }
+        });
+        return seams;
+    }
+
+    // Guides for every target the (snapped) box now touches, stretched to cover both
+    private collectGuides(rect: Rect, targets: SnapGuide[]): SnapGuide[] {
+        const edgesX = [rect.x, rect.x + rect.width / 2, rect.x + rect.width];
+        const edgesY = [rect.y, rect.y + rect.height / 2, rect.y + rect.height];
+        const guides: Map<string, SnapGuide> = new Map();
+
+        targets.forEach(target => {
+            const edges = target.axis === 'x' ? edgesX : edgesY;
+            if (!edges.some(edge => Math.abs(edge - target.position) < 0.5)) return;
+
+            const start = Math.min(target.start, target.axis === 'x' ? rect.y : rect.x);
+            const end = Math.max(target.end, target.axis === 'x' ? rect.y + rect.height : rect.x + rect.width);
+            const key = `${target.axis}:${Math.round(target.position * 2)}`;
+            const existing = guides.get(key);
+            guides.set(key, existing
+                ? { ...existing, start: Math.min(existing.start, start), end: Math.max(existing.end, end) }
+                : { axis: target.axis, position: target.position, start, end });
+        });
+        return Array.from(guides.values());
+    }
+
+    // Nearest boxes before and after `rect` on an axis that overlap it on the other one
+    private getNeighbours(rect: Rect, others: Rect[], axis: 'x' | 'y'): { before: Rect | null; after: Rect | null } {
+        const start = (r: Rect) => axis === 'x' ? r.x : r.y;
+        const size = (r: Rect) => axis === 'x' ? r.width : r.height;
+        const crossStart = (r: Rect) => axis === 'x' ? r.y : r.x;
+        const crossSize = (r: Rect) => axis === 'x' ? r.height : r.width;
+        const overlaps = (r: Rect) =>
+            crossStart(r) < crossStart(rect) + crossSize(rect) && crossStart(r) + crossSize(r) > crossStart(rect);
+
+        let before: Rect | null = null;
+        let after: Rect | null = null;
+        others.filter(overlaps).forEach(r => {
+            if (start(r) + size(r) <= start(rect) && (!before || start(r) + size(r) > start(before) + size(before))) before = r;
+            if (start(r) >= start(rect) + size(rect) && (!after || start(r) < start(after))) after = r;
+        });
+        return { before, after };
+    }
+
+    private findSpacingOffset(rect: Rect, others: Rect[], axis: 'x' | 'y', threshold: number): number | null {
+        const { before, after } = this.getNeighbours(rect, others, axis);
+        if (!before || !after) return null;
+        const start = (r: Rect) => axis === 'x' ? r.x : r.y;
+        const size = (r: Rect) => axis === 'x' ? r.width : r.height;
+
+        const centered = (start(before) + size(before) + start(after) - size(rect)) / 2;
+        const offset = centered - start(rect);
+        return Math.abs(offset) <= threshold ? offset : null;
+    }
+
+    private collectSpacings(rect: Rect, others: Rect[], axis: 'x' | 'y'): SpacingIndicator[] {
+        const { before, after } = this.getNeighbours(rect, others, axis);
+        if (!before || !after) return [];
+        const start = (r: Rect) => axis === 'x' ? r.x : r.y;
+        const size = (r: Rect) => axis === 'x' ? r.width : r.height;
+        const cross = (r: Rect) => axis === 'x' ? r.y + r.height / 2 : r.x + r.width / 2;
+
+        const gapBefore = start(rect) - (start(before) + size(before));
+        const gapAfter = start(after) - (start(rect) + size(rect));
+        if (Math.abs(gapBefore - gapAfter) >= 0.5) return [];
+
+        const at = cross(rect);
+        return [
+            { axis, from: start(before) + size(before), to: start(rect), at },
+            { axis, from: start(rect) + size(rect), to: start(after), at }
+        ];
+    }
+}
@@ -0,0 +1,128 @@
+import { HistoryManager } from './HistoryManager';
+import { LinkManager } from './LinkManager';
+import { CanvasLink, Spread } from './types';
+
+// Named groups of canvases that belong together, like the pages of a spread. Making a spread turns
+// on every link between its members and off every link to a canvas outside it, in one undo step.
+// A canvas is in one spread at most, so joining a new spread takes it out of its old one.
+// The rule holds while the spread exists: enforceLinks() re-applies it after the grid changes.
+// Dissolving only forgets the group; the links stay as they are.
+export class SpreadManager {
+    private linkManager: LinkManager;
+    private history: HistoryManager;
+    private spreads: Map<string, Spread> = new Map();
+
+    constructor(linkManager: LinkManager, history: HistoryManager) {
+        this.linkManager = linkManager;
+        this.history = history;
+    }
+
+    public getSpreads(): Spread[] {
+        return Array.from(this.spreads.values()).map(spread => ({ ...spread, canvasIds: [...spread.canvasIds] }));
+    }
+
+    public getSpread(spreadId: string): Spread | null {
+        return this.getSpreads().find(spread => spread.id === spreadId) || null;
+    }
+
+    public getSpreadOf(canvasId: string): Spread | null {
+        return this.getSpreads().find(spread => spread.canvasIds.includes(canvasId)) || null;
+    }
+
+    // Group two or more canvases and set their links; returns the new spread's id
+    public createSpread(canvasIds: string[], name: string): string | null {
+        const members = new Set(canvasIds);
+        if (members.size < 2) return null;
+
+        const before = this.getSpreads();
+        const spread: Spread = { id: `spread-${Date.now()}`, name, canvasIds: Array.from(members) };
+        const after = before
+            .map(other => ({ ...other, canvasIds: other.canvasIds.filter(id => !members.has(id)) }))
+            .filter(other => other.canvasIds.length >= 2);
+        after.push(spread);
+
+        this.history.beginTransaction('create-spread');
+        try {
+            this.linkManager.getLinks().forEach(link => {
+                const enabled = this.getRequiredState(link, after);
+                if (enabled !== null) this.linkManager.setEnabled(link.from, link.to, enabled);
+            });
+            this.applySpreads(after);
+            this.history.record({
+                label: 'create-spread',
+                undo: () => this.applySpreads(before),
+                redo: () => this.applySpreads(after)
+            });
+        } finally {
+            this.history.endTransaction();
+        }
+        console.log(`[SPREAD] Created "${name}" with ${spread.canvasIds.length} canvases`);
+        return spread.id;
+    }
+
+    public renameSpread(spreadId: string, name: string): void {
+        const before = this.getSpreads();
+        if (!this.spreads.has(spreadId)) return;
+        const after = before.map(spread => spread.id === spreadId ? { ...spread, name } : spread);
+        this.applySpreads(after);
+        this.history.record({
+            label: 'rename-spread',
+            undo: () => this.applySpreads(before),
+            redo: () => this.applySpreads(after)
+        });
+    }
+
+    public dissolveSpread(spreadId: string): void {
+        const before = this.getSpreads();
+        if (!this.spreads.has(spreadId)) return;
+        const after = before.filter(spread => spread.id !== spreadId);
+        this.applySpreads(after);
+        this.history.record({
+            label: 'dissolve-spread',
+            undo: () => this.applySpreads(before),
+            redo: () => this.applySpreads(after)
+        });
+    }
+
+    // Put the links back under the spread rule after the grid changed (new neighbours start enabled).
+    // Not recorded: the grid change that called for it snapshots the links for undo.
+    public enforceLinks(): void {
+        const spreads = this.getSpreads();
+        if (spreads.length === 0) return;
+        this.linkManager.applyRule(link => this.getRequiredState(link, spreads));
+    }
+
+    // Replace every spread (document load, or restoring a snapshot on undo)
+    public loadSpreads(spreads: Spread[]): void {
+        this.applySpreads(spreads);
+    }
+
+    // A deleted canvas leaves its spread; a spread left with one canvas is dissolved
+    public removeCanvas(canvasId: string): void {
+        const spread = this.getSpreadOf(canvasId);
+        if (!spread) return;
+        this.applySpreads(this.getSpreads()
+            .map(other => other.id === spread.id ? { ...other, canvasIds: other.canvasIds.filter(id => id !== canvasId) } : other)
+            .filter(other => other.canvasIds.length >= 2));
+    }
+
+    public clear(): void {
+        this.applySpreads([]);
+    }
+
+    // On when both ends are in the same spread, off when the link leaves a spread; null (free) when
+    // neither end is in one
+    private getRequiredState(link: CanvasLink, spreads: Spread[]): boolean | null {
+        const from = spreads.find(spread => spread.canvasIds.includes(link.from));
+        const to = spreads.find(spread => spread.canvasIds.includes(link.to));
+        if (!from && !to) return null;
+        return from === to;
+    }
+
+    private applySpreads(spreads: Spread[]): void {
+        this.spreads.clear();
+        spreads.forEach(spread => this.spreads.set(spread.id, { ...spread, canvasIds: [...spread.canvasIds] }));
+        // Outlines redraw and autosave runs on 'spreads-changed'
+        document.dispatchEvent(new CustomEvent('spreads-changed'));
+    }
+}
@@ -0,0 +1,243 @@
+import { MultiCanvasManager } from './MultiCanvasManager';
+import { CanvasData, CanvasElement, Point } from './types';
+import { ElementGeometry } from './ElementGeometry';
+import { ElementRenderer } from './ElementRenderer';
+
+// Serializes canvases as SVG with live text (<text>/<tspan>), <image> elements and vector shapes
+export class SvgExporter {
+    private multiCanvasManager: MultiCanvasManager;
+    private measureContext: CanvasRenderingContext2D;
+
+    constructor(multiCanvasManager: MultiCanvasManager) {
+        this.multiCanvasManager = multiCanvasManager;
+        const context = document.createElement('canvas').getContext('2d');
+        if (!context) {
+            throw new Error('Failed to get canvas context');
+        }
+        this.measureContext = context;
+    }
+
+    // One canvas; the viewBox sits on the canvas' global offset so elements keep global coordinates
+    public createCanvasSvg(canvasId: string): string {
+        const canvas = this.getCanvasData(canvasId);
+        const defs: string[] = [];
+        const body = [
+            `<rect x="${canvas.offsetX}" y="${canvas.offsetY}" width="${canvas.width}" height="${canvas.height}" fill="#ffffff"/>`,
+            ...this.renderElements(canvas, defs, '')
+        ];
+        return this.wrap(canvas.offsetX, canvas.offsetY, canvas.width, canvas.height, defs, body);
+    }
+
+    // Every canvas in one document, one <g> per canvas clipped to its bounds
+    public createGlobalSvg(canvasIds: string[]): string {
+        const canvases = canvasIds.map(canvasId => this.getCanvasData(canvasId));
+        if (canvases.length === 0) {
+            throw new Error('No canvases to export');
+        }
+
+        const left = Math.min(...canvases.map(c => c.offsetX));
+        const top = Math.min(...canvases.map(c => c.offsetY));
+        const width = Math.max(...canvases.map(c => c.offsetX + c.width)) - left;
+        const height = Math.max(...canvases.map(c => c.offsetY + c.height)) - top;
+
+        const defs: string[] = [];
+        const body: string[] = [];
+        canvases.forEach(canvas => {
+            const clipId = `clip-${this.escapeId(canvas.id)}`;
+            defs.push(`<clipPath id="${clipId}"><rect x="${canvas.offsetX}" y="${canvas.offsetY}" width="${canvas.width}" height="${canvas.height}"/></clipPath>`);
+            body.push(`<g id="${this.escapeId(canvas.id)}" data-name="${this.escape(canvas.name)}" clip-path="url(#${clipId})">`);
+            body.push(`<rect x="${canvas.offsetX}" y="${canvas.offsetY}" width="${canvas.width}" height="${canvas.height}" fill="#ffffff"/>`);
+            body.push(...this.renderElements(canvas, defs, `${this.escapeId(canvas.id)}-`));
+            body.push('</g>');
+        });
+
+        return this.wrap(left, top, width, height, defs, body);
+    }
+
+    private renderElements(canvas: CanvasData, defs: string[], idPrefix: string): string[] {
+        const elements = this.multiCanvasManager.getGlobalElementManager().getElementsForCanvas(
+            canvas.offsetX, canvas.offsetY, canvas.width, canvas.height
+        ).filter(element => this.multiCanvasManager.isElementVisibleOnCanvas(element, canvas.id));
+        // Portal copies share their element's id, so their defs get a prefix of their own
+        const portalCopies = this.multiCanvasManager.getPortalCopies(canvas.id);
+
+        const output: string[] = [];
+        this.multiCanvasManager.orderWithPortalCopies(elements, portalCopies, element => element).forEach(element => {
+            if (element.hidden) return;
+            const prefix = portalCopies.includes(element) ? `${idPrefix}portal-` : idPrefix;
+            let markup = '';
+            if (element.type === 'text') {
+                markup = this.renderText(element);
+            } else if (element.type === 'image' && element.imageElement) {
+                markup = this.renderImage(element, defs, prefix);
+            } else if (ElementGeometry.isShape(element)) {
+                markup = this.renderShape(element, prefix);
+            } else if (element.type === 'path' && element.pathPoints?.length) {
+                markup = this.renderPath(element, prefix);
+            }
+            // Group opacity, so overlapping fill and stroke fade together like on the canvas
+            const opacity = ElementGeometry.getOpacity(element);
+            if (markup && opacity < 1) {
+                markup = `<g opacity="${this.format(opacity)}">${markup}</g>`;
+            }
+            if (markup) output.push(markup);
+        });
+        return output;
+    }
+
+    // Mirrors ElementRenderer.renderText: padded box, line height 1.2, lines centered on their slot
+    private renderText(element: CanvasElement): string {
+        const fontSize = element.fontSize || 24;
+        const lineHeight = fontSize * 1.2;
+        const lines = element.content.split('\n');
+        const style = element.fontStyle === 'italic' ? 'italic ' : '';
+        const weight = element.fontWeight === 'bold' ? 'bold ' : '';
+
+        this.measureContext.font = `${style}${weight}${fontSize}px ${element.fontFamily || 'Arial'}`;
+        const width = Math.max(0, ...lines.map(line => this.measureContext.measureText(line).width)) + 10;
+
+        let x = element.x + 5;
+        let anchor = 'start';
+        if (element.textAlign === 'center') {
+            x = element.x + width / 2;
+            anchor = 'middle';
+        } else if (element.textAlign === 'right') {
+            x = element.x + width - 5;
+            anchor = 'end';
+        }
+
+        const tspans = lines.map((line, index) =>
+            `<tspan x="${this.format(x)}" y="${this.format(element.y + lineHeight * (index + 0.5))}">${this.escape(line)}</tspan>`
+        ).join('');
+
+        return `<text id="${this.escapeId(element.id)}" font-family="${this.escape(element.fontFamily || 'Arial')}" ` +
+            `font-size="${fontSize}" font-weight="${element.fontWeight || 'normal'}" font-style="${element.fontStyle || 'normal'}" ` +
+            `fill="${this.escape(element.color || '#000000')}" text-anchor="${anchor}" dominant-baseline="central" ` +
+            `xml:space="preserve"${this.getTransform(element)}>${tspans}</text>`;
+    }
+
+    // The full image is placed and the crop rectangle becomes a clipPath, as in renderImage
+    private renderImage(element: CanvasElement, defs: string[], idPrefix: string): string {
+        let clip = '';
+        if (element.cropX !== undefined && element.cropY !== undefined &&
+            element.cropWidth !== undefined && element.cropHeight !== undefined) {
+            const clipId = `crop-${idPrefix}${this.escapeId(element.id)}`;
+            defs.push(
+                `<clipPath id="${clipId}"><rect x="${this.format(element.x + element.cropX)}" y="${this.format(element.y + element.cropY)}" ` +
+                `width="${this.format(element.cropWidth)}" height="${this.format(element.cropHeight)}"/></clipPath>`
+            );
+            clip = ` clip-path="url(#${clipId})"`;
+        }
+
+        const href = this.escape(element.content || element.imageElement!.src);
+        return `<image id="${idPrefix}${this.escapeId(element.id)}" x="${this.format(element.x)}" y="${this.format(element.y)}" ` +
+            `width="${this.format(element.width)}" height="${this.format(element.height)}" preserveAspectRatio="none" ` +
+            `href="${href}" xlink:href="${href}"${clip}${this.getTransform(element)}/>`;
+    }
+
+    // Same geometry as ElementRenderer.renderShape; lines with heads become a group
+    private renderShape(element: CanvasElement, idPrefix: string): string {
+        const id = `${idPrefix}${this.escapeId(element.id)}`;
+        const strokeWidth = element.strokeWidth ?? 2;
+        const strokeColor = this.escape(element.strokeColor || '#000000');
+        const dash = ElementRenderer.getDashPattern(element);
+        const stroke = ` stroke="${strokeColor}" stroke-width="${this.format(strokeWidth)}"` +
+            (dash.length > 0 ? ` stroke-dasharray="${dash.map(value => this.format(value)).join(' ')}"` : '') +
+            (element.strokeDash === 'dotted' ? ' stroke-linecap="round"' : '');
+
+        if (ElementGeometry.isLine(element)) {
+            const { start, end } = ElementGeometry.getLineEndpoints(element);
+            const size = ElementGeometry.getArrowSize(element);
+            const parts = [
+                `<line x1="${this.format(start.x)}" y1="${this.format(start.y)}" x2="${this.format(end.x)}" y2="${this.format(end.y)}"${stroke}/>`
+            ];
+            if (element.arrowStart) parts.push(this.renderPolygon(ElementGeometry.getArrowHead(start, end, size), strokeColor));
+            if (element.arrowEnd) parts.push(this.renderPolygon(ElementGeometry.getArrowHead(end, start, size), strokeColor));
+            return `<g id="${id}"${this.getTransform(element)}>${parts.join('')}</g>`;
+        }
+
+        const fill = ` fill="${element.fillColor ? this.escape(element.fillColor) : 'none'}"`;
+        const outline = strokeWidth > 0 ? stroke : '';
+        if (element.type === 'ellipse') {
+            return `<ellipse id="${id}" cx="${this.format(element.x + element.width / 2)}" cy="${this.format(element.y + element.height / 2)}" ` +
+                `rx="${this.format(element.width / 2)}" ry="${this.format(element.height / 2)}"${fill}${outline}${this.getTransform(element)}/>`;
+        }
+
+        const radius = Math.max(0, Math.min(element.cornerRadius || 0, element.width / 2, element.height / 2));
+        return `<rect id="${id}" x="${this.format(element.x)}" y="${this.format(element.y)}" ` +
+            `width="${this.format(element.width)}" height="${this.format(element.height)}"` +
+            (radius > 0 ? ` rx="${this.format(radius)}"` : '') + `${fill}${outline}${this.getTransform(element)}/>`;
+    }
+
+    private renderPath(element: CanvasElement, idPrefix: string): string {
+        const points = element.pathPoints!;
+        const point = (p: Point) => `${this.format(p.x)} ${this.format(p.y)}`;
+        const segments = [`M ${point(points[0])}`];
+        if (points.length === 1) {
+            segments.push(`L ${point(points[0])}`);
+        }
+        for (let i = 1; i < points.length; i++) {
+            const from = points[i - 1];
+            const to = points[i];
+            if (from.handleOut || to.handleIn) {
+                segments.push(`C ${point(from.handleOut || from)} ${point(to.handleIn || to)} ${point(to)}`);
+            } else {
+                segments.push(`L ${point(to)}`);
+            }
+        }
+
+        const dash = ElementRenderer.getDashPattern(element);
+        return `<path id="${idPrefix}${this.escapeId(element.id)}" d="${segments.join(' ')}" fill="none" ` +
+            `stroke="${this.escape(element.strokeColor || '#000000')}" stroke-width="${this.format(element.strokeWidth ?? 2)}" ` +
+            `stroke-linecap="round" stroke-linejoin="round"` +
+            (dash.length > 0 ? ` stroke-dasharray="${dash.map(value => this.format(value)).join(' ')}"` : '') +
+            `${this.getTransform(element)}/>`;
+    }
+
+    private renderPolygon(points: Point[], fill: string): string {
+        return `<polygon points="${points.map(p => `${this.format(p.x)},${this.format(p.y)}`).join(' ')}" fill="${fill}"/>`;
+    }
+
+    // The crop clipPath is resolved in the element's user space, so it rotates along with the image
+    private getTransform(element: CanvasElement): string {
+        const rotation = ElementGeometry.getRotation(element);
+        if (!rotation) return '';
+        const center = ElementGeometry.getCenter(element);
+        return ` transform="rotate(${this.format(rotation)} ${this.format(center.x)} ${this.format(center.y)})"`;
+    }
+
+    private wrap(x: number, y: number, width: number, height: number, defs: string[], body: string[]): string {
+        return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+            `width="${width}" height="${height}" viewBox="${x} ${y} ${width} ${height}">`,
+            defs.length > 0 ? `<defs>${defs.join('')}</defs>` : '',
+            ...body,
+            '</svg>'
+        ].filter(line => line !== '').join('\n');
+    }
+
+    private getCanvasData(canvasId: string): CanvasData {
+        const canvas = this.multiCanvasManager.getCanvasData(canvasId);
+        if (!canvas) {
+            throw new Error(`Canvas ${canvasId} not found`);
+        }
+        return canvas;
+    }
+
+    private escape(value: string): string {
+        return value
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+
+    private escapeId(value: string): string {
+        return value.replace(/[^A-Za-z0-9_-]/g, '_');
+    }
+
+    private format(value: number): string {
+        return (Math.round(value * 100) / 100).toString();
+    }
+}
@@ -0,0 +1,378 @@
+// Reader for TrueType-outline fonts (.ttf/.ttc) with glyph subsetting for PDF embedding
+interface TableRecord {
+    offset: number;
+    length: number;
+}
+
+// Tables a PDF FontFile2 needs; everything else (cmap, name, GSUB...) is dropped
+const SUBSET_TABLES = ['cvt ', 'fpgm', 'glyf', 'head', 'hhea', 'hmtx', 'loca', 'maxp', 'prep'];
+
+export class TrueTypeFont {
+    public postscriptName: string = '';
+    public familyNames: string[] = [];
+    public bold: boolean = false;
+    public italic: boolean = false;
+    public unitsPerEm: number = 1000;
+    public ascent: number = 0;
+    public descent: number = 0;
+    public capHeight: number = 0;
+    public italicAngle: number = 0;
+    public bbox: [number, number, number, number] = [0, 0, 0, 0];
+
+    private bytes: Uint8Array;
+    private view: DataView;
+    private tables: Map<string, TableRecord> = new Map();
+    private numGlyphs: number = 0;
+    private numberOfHMetrics: number = 0;
+    private longLoca: boolean = false;
+    private cmapOffset: number = -1;
+    private cmapFormat: number = 0;
+
+    // Parse a font file; for collections pick the face whose PostScript name matches
+    public static parse(buffer: ArrayBuffer, postscriptName?: string): TrueTypeFont {
+        const view = new DataView(buffer);
+        if (view.getUint32(0) === 0x74746366) { // 'ttcf'
+            const count = view.getUint32(8);
+            let fallback: TrueTypeFont | null = null;
+            for (let i = 0; i < count; i++) {
+                const font = new TrueTypeFont(buffer, view.getUint32(12 + i * 4));
+                if (!postscriptName || font.postscriptName === postscriptName) return font;
+                fallback = fallback || font;
+            }
+            if (fallback) return fallback;
+            throw new Error('Empty font collection');
+        }
+        return new TrueTypeFont(buffer, 0);
+    }
+
+    private constructor(buffer: ArrayBuffer, directoryOffset: number) {
+        this.bytes = new Uint8Array(buffer);
+        this.view = new DataView(buffer);
+
+        const version = this.view.getUint32(directoryOffset);
+        if (version !== 0x00010000 && version !== 0x74727565) { // 1.0 or 'true'
+            throw new Error('Only TrueType-outline fonts can be embedded');
+        }
+
+        const numTables = this.view.getUint16(directoryOffset + 4);
+        for (let i = 0; i < numTables; i++) {
+            const record = directoryOffset + 12 + i * 16;
+            this.tables.set(this.readTag(record), {
+                offset: this.view.getUint32(record + 8),
+                length: this.view.getUint32(record + 12)
+            });
+        }
+
+        ['head', 'hhea', 'hmtx', 'maxp', 'loca', 'glyf', 'cmap'].forEach(tag => {
+            if (!this.tables.has(tag)) {
+                throw new Error(`Font is missing the ${tag} table`);
+            }
+        });
+
+        this.readHead();
+        this.readMetrics();
+        this.readNames();
+        this.readCmap();
+    }
+
+    public getGlyphId(codePoint: number): number {
+        if (this.cmapOffset < 0) return 0;
+        const base = this.cmapOffset;
+
+        if (this.cmapFormat === 4) {
+            const segCount = this.view.getUint16(base + 6) / 2;
+            const endCodes = base + 14;
+            const startCodes = endCodes + segCount * 2 + 2;
+            const idDeltas = startCodes + segCount * 2;
+            const idRangeOffsets = idDeltas + segCount * 2;
+            for (let i = 0; i < segCount; i++) {
+                if (this.view.getUint16(endCodes + i * 2) < codePoint) continue;
+                const start = this.view.getUint16(startCodes + i * 2);
+                if (start > codePoint) return 0;
+                const delta = this.view.getUint16(idDeltas + i * 2);
+                const rangeOffset = this.view.getUint16(idRangeOffsets + i * 2);
+                if (rangeOffset === 0) {
+                    return (codePoint + delta) & 0xffff;
+                }
+                const glyph = this.view.getUint16(idRangeOffsets + i * 2 + rangeOffset + (codePoint - start) * 2);
+                return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+            }
+            return 0;
+        }
+
+        // Format 12: sequential map groups
+        const groups = this.view.getUint32(base + 12);
+        let low = 0;
+        let high = groups - 1;
+        while (low <= high) {
+            const mid = (low + high) >> 1;
+            const group = base + 16 + mid * 12;
+            const startChar = this.view.getUint32(group);
+            const endChar = this.view.getUint32(group + 4);
+            if (codePoint < startChar) {
+                high = mid - 1;
+            } else if (codePoint > endChar) {
+                low = mid + 1;
+            } else {
+                return this.view.getUint32(group + 8) + codePoint - startChar;
+            }
+        }
+        return 0;
+    }
+
+    public hasGlyphs(text: string): boolean {
+        for (const char of text) {
+            if (char === '\n') continue;
+            if (this.getGlyphId(char.codePointAt(0)!) === 0) return false;
+        }
+        return true;
+    }
+
+    // Advance width in font units
+    public getAdvanceWidth(glyphId: number): number {
+        const hmtx = this.tables.get('hmtx')!.offset;
+        const index = Math.min(glyphId, this.numberOfHMetrics - 1);
+        return this.view.getUint16(hmtx + index * 4);
+    }
+
+    // Build a font program that keeps glyph ids but only carries outlines for the used glyphs
+    public subset(glyphIds: Iterable<number>): Uint8Array {
+        const used = new Set<number>();
+        const pending = [0, ...Array.from(glyphIds)];  // .notdef is always required
+        while (pending.length > 0) {
+            const glyphId = pending.pop()!;
+            if (glyphId >= this.numGlyphs || used.has(glyphId)) continue;
+            used.add(glyphId);
+            // Composite glyphs reference other glyphs that must come along
+            this.getComponentGlyphs(glyphId).forEach(component => {
+                if (!used.has(component)) pending.push(component);
+            });
+        }
+
+        const glyphChunks: Uint8Array[] = [];
+        const loca = new DataView(new ArrayBuffer((this.numGlyphs + 1) * 4));
+        let glyfLength = 0;
+        for (let glyphId = 0; glyphId < this.numGlyphs; glyphId++) {
+            loca.setUint32(glyphId * 4, glyfLength);
+            if (!used.has(glyphId)) continue;
+            const glyph = this.getGlyphData(glyphId);
+            const padded = new Uint8Array((glyph.length + 3) & ~3);
+            padded.set(glyph);
+            glyphChunks.push(padded);
+            glyfLength += padded.length;
+        }
+        loca.setUint32(this.numGlyphs * 4, glyfLength);
+
+        const glyf = new Uint8Array(glyfLength);
+        let position = 0;
+        glyphChunks.forEach(chunk => {
+            glyf.set(chunk, position);
+            position += chunk.length;
+        });
+
+        const head = this.getTableData('head').slice();
+        const headView = new DataView(head.buffer);
+        headView.setUint32(8, 0);    // checkSumAdjustment
+        headView.setInt16(50, 1);    // indexToLocFormat: long offsets
+
+        const tables = new Map<string, Uint8Array>();
+        SUBSET_TABLES.forEach(tag => {
+            if (tag === 'glyf') tables.set(tag, glyf);
+            else if (tag === 'loca') tables.set(tag, new Uint8Array(loca.buffer));
+            else if (tag === 'head') tables.set(tag, head);
+            else if (this.tables.has(tag)) tables.set(tag, this.getTableData(tag));
+        });
+        return this.writeFont(tables);
+    }
+
+    private readHead(): void {
+        const head = this.tables.get('head')!.offset;
+        this.unitsPerEm = this.view.getUint16(head + 18);
+        this.bbox = [
+            this.view.getInt16(head + 36),
+            this.view.getInt16(head + 38),
+            this.view.getInt16(head + 40),
+            this.view.getInt16(head + 42)
+        ];
+        const macStyle = this.view.getUint16(head + 44);
+        this.bold = (macStyle & 1) !== 0;
+        this.italic = (macStyle & 2) !== 0;
+        this.longLoca = this.view.getInt16(head + 50) === 1;
+    }
+
+    private readMetrics(): void {
+        const hhea = this.tables.get('hhea')!.offset;
+        this.ascent = this.view.getInt16(hhea + 4);
+        this.descent = this.view.getInt16(hhea + 6);
+        this.numberOfHMetrics = this.view.getUint16(hhea + 34);
+        this.numGlyphs = this.view.getUint16(this.tables.get('maxp')!.offset + 4);
+        this.capHeight = this.ascent;
+
+        const os2 = this.tables.get('OS/2');
+        if (os2) {
+            const version = this.view.getUint16(os2.offset);
+            const fsSelection = this.view.getUint16(os2.offset + 62);
+            this.bold = this.bold || (fsSelection & 0x20) !== 0 || this.view.getUint16(os2.offset + 4) >= 600;
+            this.italic = this.italic || (fsSelection & 1) !== 0;
+            if (version >= 2 && os2.length >= 90) {
+                this.capHeight = this.view.getInt16(os2.offset + 88) || this.ascent;
+            }
+        }
+
+        const post = this.tables.get('post');
+        if (post) {
+            this.italicAngle = this.view.getInt32(post.offset + 4) / 65536;
+        }
+    }
+
+    private readNames(): void {
+        const name = this.tables.get('name');
+        if (!name) return;
+
+        const base = name.offset;
+        const count = this.view.getUint16(base + 2);
+        const storage = base + this.view.getUint16(base + 4);
+        const families = new Set<string>();
+
+        for (let i = 0; i < count; i++) {
+            const record = base + 6 + i * 12;
+            const platformId = this.view.getUint16(record);
+            const nameId = this.view.getUint16(record + 6);
+            const length = this.view.getUint16(record + 8);
+            const offset = storage + this.view.getUint16(record + 10);
+            if (nameId !== 1 && nameId !== 6 && nameId !== 16) continue;
+
+            let value = '';
+            if (platformId === 3 || platformId === 0) {
+                for (let j = 0; j + 1 < length; j += 2) {
+                    value += String.fromCharCode(this.view.getUint16(offset + j));
+                }
+            } else if (platformId === 1) {
+                for (let j = 0; j < length; j++) {
+                    value += String.fromCharCode(this.bytes[offset + j]);
+                }
+            } else {
+                continue;
+            }
+
+            if (nameId === 6) {
+                this.postscriptName = this.postscriptName || value;
+            } else {
+                families.add(value);
+            }
+        }
+
+        this.familyNames = Array.from(families);
+        // PostScript names must be plain ASCII without spaces
+        this.postscriptName = (this.postscriptName || this.familyNames[0] || 'Font').replace(/[^\x21-\x7e]|[\[\](){}<>\/%]/g, '');
+    }
+
+    private readCmap(): void {
+        const cmap = this.tables.get('cmap')!.offset;
+        const count = this.view.getUint16(cmap + 2);
+        let best = -1;
+        let bestScore = 0;
+
+        for (let i = 0; i < count; i++) {
+            const record = cmap + 4 + i * 8;
+            const platformId = this.view.getUint16(record);
+            const encodingId = this.view.getUint16(record + 2);
+            const offset = cmap + this.view.getUint32(record + 4);
+            const format = this.view.getUint16(offset);
+
+            // Prefer full-Unicode format 12 over BMP-only format 4
+            let score = 0;
+            if (format === 12 && (platformId === 3 && encodingId === 10 || platformId === 0)) score = 2;
+            else if (format === 4 && (platformId === 3 && encodingId === 1 || platformId === 0)) score = 1;
+            if (score > bestScore) {
+                bestScore = score;
+                best = offset;
+            }
+        }
+
+        if (best >= 0) {
+            this.cmapOffset = best;
+            this.cmapFormat = this.view.getUint16(best);
+        }
+    }
+
+    private getGlyphData(glyphId: number): Uint8Array {
+        const loca = this.tables.get('loca')!.offset;
+        const glyf = this.tables.get('glyf')!.offset;
+        const start = this.longLoca ? this.view.getUint32(loca + glyphId * 4) : this.view.getUint16(loca + glyphId * 2) * 2;
+        const end = this.longLoca ? this.view.getUint32(loca + glyphId * 4 + 4) : this.view.getUint16(loca + glyphId * 2 + 2) * 2;
+        return this.bytes.subarray(glyf + start, glyf + Math.max(start, end));
+    }
+
+    private getComponentGlyphs(glyphId: number): number[] {
+        const glyph = this.getGlyphData(glyphId);
+        if (glyph.length < 10) return [];
+        const view = new DataView(glyph.buffer, glyph.byteOffset, glyph.byteLength);
+        if (view.getInt16(0) >= 0) return [];
+
+        const components: number[] = [];
+        let offset = 10;
+        let flags = 0;
+        do {
+            flags = view.getUint16(offset);
+            components.push(view.getUint16(offset + 2));
+            offset += 4;
+            offset += flags & 0x0001 ? 4 : 2;    // ARG_1_AND_2_ARE_WORDS
+            if (flags & 0x0008) offset += 2;       // WE_HAVE_A_SCALE
+            else if (flags & 0x0040) offset += 4;  // WE_HAVE_AN_X_AND_Y_SCALE
+            else if (flags & 0x0080) offset += 8;  // WE_HAVE_A_TWO_BY_TWO
+        } while (flags & 0x0020 && offset + 4 <= glyph.length); // MORE_COMPONENTS
+        return components;
+    }
+
+    private getTableData(tag: string): Uint8Array {
+        const table = this.tables.get(tag)!;
+        return this.bytes.subarray(table.offset, table.offset + table.length);
+    }
+
+    private readTag(offset: number): string {
+        return String.fromCharCode(this.bytes[offset], this.bytes[offset + 1], this.bytes[offset + 2], this.bytes[offset + 3]);
+    }
+
+    private writeFont(tables: Map<string, Uint8Array>): Uint8Array {
+        const tags = Array.from(tables.keys()).sort();
+        const headerSize = 12 + tags.length * 16;
+        let totalSize = headerSize;
+        tags.forEach(tag => totalSize += (tables.get(tag)!.length + 3) & ~3);
+
+        const output = new Uint8Array(totalSize);
+        const view = new DataView(output.buffer);
+        const entrySelector = Math.floor(Math.log2(tags.length));
+        const searchRange = Math.pow(2, entrySelector) * 16;
+        view.setUint32(0, 0x00010000);
+        view.setUint16(4, tags.length);
+        view.setUint16(6, searchRange);
+        view.setUint16(8, entrySelector);
+        view.setUint16(10, tags.length * 16 - searchRange);
+
+        let offset = headerSize;
+        tags.forEach((tag, index) => {
+            const data = tables.get(tag)!;
+            const record = 12 + index * 16;
+            for (let i = 0; i < 4; i++) {
+                view.setUint8(record + i, tag.charCodeAt(i));
+            }
+            output.set(data, offset);
+            view.setUint32(record + 4, this.checksum(output, offset, data.length));
+            view.setUint32(record + 8, offset);
+            view.setUint32(record + 12, data.length);
+            offset += (data.length + 3) & ~3;
+        });
+        return output;
+    }
+
+    private checksum(data: Uint8Array, offset: number, length: number): number {
+        const view = new DataView(data.buffer, data.byteOffset);
+        let sum = 0;
+        const end = offset + ((length + 3) & ~3);
+        for (let i = offset; i < end; i += 4) {
+            sum = (sum + view.getUint32(i)) >>> 0;
+        }
+        return sum;
+    }
+}
@@ -0,0 +1,105 @@
+// Minimal ZIP archive writer (stored, uncompressed entries) for batch downloads
+interface ZipEntry {
+    name: Uint8Array;
+    data: Uint8Array;
+    crc: number;
+    offset: number;
+}
+
+const CRC_TABLE: Uint32Array = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+// Pass the previous result to continue a checksum across several buffers
+export function crc32(data: Uint8Array, previous: number = 0): number {
+    let crc = (previous ^ 0xffffffff) >>> 0;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+export class ZipWriter {
+    private entries: ZipEntry[] = [];
+    private chunks: Uint8Array[] = [];
+    private size: number = 0;
+    private encoder: TextEncoder = new TextEncoder();
+
+    public addFile(name: string, data: Uint8Array): void {
+        const entry: ZipEntry = {
+            name: this.encoder.encode(name),
+            data,
+            crc: crc32(data),
+            offset: this.size
+        };
+
+        const header = new DataView(new ArrayBuffer(30));
+        header.setUint32(0, 0x04034b50, true);  // Local file header signature
+        this.writeCommonFields(header, 4, entry);
+        this.push(new Uint8Array(header.buffer));
+        this.push(entry.name);
+        this.push(data);
+
+        this.entries.push(entry);
+    }
+
+    public toBlob(): Blob {
+        const directoryOffset = this.size;
+
+        this.entries.forEach(entry => {
+            const header = new DataView(new ArrayBuffer(46));
+            header.setUint32(0, 0x02014b50, true);  // Central directory header signature
+            header.setUint16(4, 20, true);          // Version made by
+            this.writeCommonFields(header, 6, entry);
+            // Comment length, disk number, internal/external attributes stay zero
+            header.setUint32(42, entry.offset, true);
+            this.push(new Uint8Array(header.buffer));
+            this.push(entry.name);
+        });
+
+        const directorySize = this.size - directoryOffset;
+        const end = new DataView(new ArrayBuffer(22));
+        end.setUint32(0, 0x06054b50, true);  // End of central directory signature
+        end.setUint16(8, this.entries.length, true);
+        end.setUint16(10, this.entries.length, true);
+        end.setUint32(12, directorySize, true);
+        end.setUint32(16, directoryOffset, true);
+        this.push(new Uint8Array(end.buffer));
+
+        return new Blob(this.chunks as BlobPart[], { type: 'application/zip' });
+    }
+
+    // Fields shared by the local header and the central directory record
+    private writeCommonFields(view: DataView, offset: number, entry: ZipEntry): void {
+        const { time, date } = this.getDosDateTime(new Date());
+        view.setUint16(offset, 20, true);           // Version needed to extract
+        view.setUint16(offset + 2, 0x0800, true);   // UTF-8 file names
+        view.setUint16(offset + 4, 0, true);        // Method: stored
+        view.setUint16(offset + 6, time, true);
+        view.setUint16(offset + 8, date, true);
+        view.setUint32(offset + 10, entry.crc, true);
+        view.setUint32(offset + 14, entry.data.length, true);
+        view.setUint32(offset + 18, entry.data.length, true);
+        view.setUint16(offset + 22, entry.name.length, true);
+    }
+
+    private getDosDateTime(date: Date): { time: number; date: number } {
+        return {
+            time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+            date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+        };
+    }
+
+    private push(chunk: Uint8Array): void {
+        this.chunks.push(chunk);
+        this.size += chunk.length;
+    }
+}
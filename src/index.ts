@@ -1,14 +1,39 @@
 import './styles.css';
 import { MultiCanvasManager } from './MultiCanvasManager';
+import { AutosaveManager } from './AutosaveManager';
+import { ProjectBrowser } from './ProjectBrowser';
+import { ProjectStorage } from './ProjectStorage';
+import { ExportManager } from './ExportManager';
+import { ExportDialog } from './ExportDialog';
+import { LayersPanel } from './LayersPanel';
+import { AlignmentToolbar } from './AlignmentToolbar';
+import { RulerManager } from './RulerManager';
+import { LayoutGridDialog } from './LayoutGridDialog';
+import { PropertiesPanel } from './PropertiesPanel';
+import { CanvasReorderManager } from './CanvasReorderManager';
+import { CanvasMenu } from './CanvasMenu';
+import { ShapeType } from './types';
 
 class App {
     private multiCanvasManager: MultiCanvasManager;
+    private autosaveManager: AutosaveManager | null = null;
 
     constructor() {
         this.multiCanvasManager = new MultiCanvasManager();
         // Make multiCanvasManager globally accessible for canvases
         (window as any).multiCanvasManager = this.multiCanvasManager;
         this.setupEventListeners();
+        this.setupAutosave();
+        
+        const exportManager = new ExportManager(this.multiCanvasManager);
+        new ExportDialog(exportManager, () => this.autosaveManager?.getProjectName() || 'canvases');
+        new LayersPanel(this.multiCanvasManager);
+        new AlignmentToolbar(this.multiCanvasManager);
+        new RulerManager(this.multiCanvasManager);
+        new LayoutGridDialog(this.multiCanvasManager);
+        new PropertiesPanel(this.multiCanvasManager);
+        new CanvasReorderManager(this.multiCanvasManager);
+        new CanvasMenu(this.multiCanvasManager);
         
         // Update thumbnails periodically
         setInterval(() => {
@@ -24,6 +49,7 @@ class App {
         const canvasWidth = document.getElementById('canvasWidth') as HTMLInputElement;
         const canvasHeight = document.getElementById('canvasHeight') as HTMLInputElement;
         const resolutionPreset = document.getElementById('resolutionPreset') as HTMLSelectElement;
+        const resolutionScope = document.getElementById('resolutionScope') as HTMLSelectElement;
         const zoomSlider = document.getElementById('zoomSlider') as HTMLInputElement;
         const zoomValue = document.getElementById('zoomValue') as HTMLSpanElement;
         const thumbnailBar = document.getElementById('thumbnailBar') as HTMLElement;
@@ -36,6 +62,18 @@ class App {
             }
         });
 
+        const shapeButtons: [string, ShapeType][] = [
+            ['addRectBtn', 'rect'],
+            ['addEllipseBtn', 'ellipse'],
+            ['addLineBtn', 'line'],
+            ['addArrowBtn', 'arrow']
+        ];
+        shapeButtons.forEach(([buttonId, type]) => {
+            document.getElementById(buttonId)?.addEventListener('click', () => {
+                this.multiCanvasManager.getActiveCanvas()?.addShape(type);
+            });
+        });
+
         imageUpload?.addEventListener('change', (e) => {
             const target = e.target as HTMLInputElement;
             const file = target.files?.[0];
@@ -64,22 +102,67 @@ class App {
             }
         });
 
+        // Project save/load
+        const saveProjectBtn = document.getElementById('saveProjectBtn');
+        const openProjectInput = document.getElementById('openProjectInput') as HTMLInputElement;
+
+        saveProjectBtn?.addEventListener('click', () => {
+            const doc = this.multiCanvasManager.exportDocument();
+            const blob = new Blob([JSON.stringify(doc)], { type: 'application/json' });
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = 'project.dcanvas.json';
+            link.click();
+            // Same delay as ExportManager.download: revoking at once can cancel the download
+            setTimeout(() => URL.revokeObjectURL(url), 1000);
+        });
+
+        openProjectInput?.addEventListener('change', () => {
+            const file = openProjectInput.files?.[0];
+            if (!file) return;
+            const reader = new FileReader();
+            reader.onload = async (event) => {
+                try {
+                    const doc = JSON.parse(event.target?.result as string);
+                    if (this.autosaveManager) {
+                        // Opened files become their own local project instead of overwriting the current one
+                        const name = file.name.replace(/\.dcanvas\.json$|\.json$/i, '');
+                        await this.autosaveManager.importProject(doc, name);
+                    } else {
+                        await this.multiCanvasManager.importDocument(doc);
+                        this.syncControlsWithProject();
+                    }
+                } catch (error) {
+                    console.error('[APP] Failed to open project', error);
+                    alert(`프로젝트를 열 수 없습니다: ${(error as Error).message}`);
+                }
+            };
+            reader.readAsText(file);
+            // Allow re-opening the same file
+            openProjectInput.value = '';
+        });
+
         // Resolution change handlers
         const applyResolution = () => {
             const width = parseInt(canvasWidth.value);
             const height = parseInt(canvasHeight.value);
-            if (width > 0 && height > 0) {
-                // Set resolution for all canvases to maintain consistency
+            if (!(width > 0 && height > 0)) return;
+            if (resolutionScope?.value === 'all') {
                 this.multiCanvasManager.setResolutionForAll(width, height);
+            } else {
+                const canvasId = this.multiCanvasManager.getActiveCanvasId();
+                if (canvasId) this.multiCanvasManager.setResolutionForCanvas(canvasId, width, height);
             }
         };
 
-        canvasWidth?.addEventListener('input', () => {
+        // Applied on commit (Enter/blur), not per keystroke: a resize can move neighbouring canvases
+        canvasWidth?.addEventListener('change', () => {
             resolutionPreset.value = 'custom';
             applyResolution();
         });
         
-        canvasHeight?.addEventListener('input', () => {
+        canvasHeight?.addEventListener('change', () => {
             resolutionPreset.value = 'custom';
             applyResolution();
         });
@@ -122,6 +205,9 @@ class App {
             }
         });
 
+        // Resolution controls show (and edit) the active canvas
+        document.addEventListener('active-canvas-changed', () => this.syncControlsWithProject());
+
         // Show/hide crop button when image is selected
         document.addEventListener('selection-changed', (e) => {
             const customEvent = e as CustomEvent;
@@ -149,6 +235,8 @@ class App {
 
         // Drag and drop for images
         canvasContainer?.addEventListener('dragover', (e) => {
+            // Canvas titles dragged to rearrange the grid are handled by CanvasReorderManager
+            if (!e.dataTransfer?.types.includes('Files')) return;
             e.preventDefault();
             e.stopPropagation();
             canvasContainer.classList.add('dragging');
@@ -229,6 +317,81 @@ class App {
         });
     }
 
+    private setupAutosave(): void {
+        const projectsBtn = document.getElementById('projectsBtn');
+        const autosaveStatus = document.getElementById('autosaveStatus');
+
+        if (!ProjectStorage.isSupported()) {
+            console.error('[APP] IndexedDB not available, autosave disabled');
+            if (projectsBtn) projectsBtn.style.display = 'none';
+            return;
+        }
+
+        const autosaveManager = new AutosaveManager(this.multiCanvasManager);
+        this.autosaveManager = autosaveManager;
+        new ProjectBrowser(autosaveManager);
+
+        document.addEventListener('autosave-status', (e) => {
+            const detail = (e as CustomEvent).detail;
+            if (detail.status === 'loaded') {
+                this.syncControlsWithProject();
+            }
+            if (autosaveStatus) {
+                const time = new Date(detail.time).toLocaleTimeString('ko-KR');
+                autosaveStatus.classList.toggle('error', detail.status === 'error');
+                if (detail.status === 'saved') {
+                    autosaveStatus.textContent = `${detail.projectName} · ${time} 저장됨`;
+                } else if (detail.status === 'error') {
+                    autosaveStatus.textContent = `${detail.projectName} · 자동 저장 실패`;
+                } else {
+                    autosaveStatus.textContent = detail.projectName;
+                }
+            }
+        });
+
+        this.restoreLastSession(autosaveManager);
+    }
+
+    // Offer to reopen the project from the previous session (e.g. after a crash or closed tab)
+    private async restoreLastSession(autosaveManager: AutosaveManager): Promise<void> {
+        try {
+            const last = await autosaveManager.getRecoverableProject();
+            const updated = last ? new Date(last.updatedAt).toLocaleString('ko-KR') : '';
+            if (last && confirm(`이전 세션의 "${last.name}" 프로젝트(${updated})를 복구하시겠습니까?`)) {
+                await autosaveManager.openProject(last.id);
+            } else {
+                autosaveManager.startFresh();
+            }
+        } catch (error) {
+            console.error('[APP] Failed to restore last session', error);
+            alert(`이전 프로젝트를 복구할 수 없습니다: ${(error as Error).message}`);
+            autosaveManager.startFresh();
+        }
+        autosaveManager.start();
+    }
+
+    // Reflect the loaded project's zoom and resolution in the toolbar controls
+    private syncControlsWithProject(): void {
+        const zoomSlider = document.getElementById('zoomSlider') as HTMLInputElement;
+        const zoomValue = document.getElementById('zoomValue') as HTMLSpanElement;
+        const canvasWidth = document.getElementById('canvasWidth') as HTMLInputElement;
+        const canvasHeight = document.getElementById('canvasHeight') as HTMLInputElement;
+        const resolutionPreset = document.getElementById('resolutionPreset') as HTMLSelectElement;
+
+        const zoom = Math.round(this.multiCanvasManager.getZoom() * 100);
+        if (zoomSlider) zoomSlider.value = zoom.toString();
+        if (zoomValue) zoomValue.textContent = `${zoom}%`;
+
+        const resolution = this.multiCanvasManager.getActiveCanvasResolution();
+        if (resolution && canvasWidth && canvasHeight && resolutionPreset) {
+            canvasWidth.value = resolution.width.toString();
+            canvasHeight.value = resolution.height.toString();
+            const preset = `${resolution.width}x${resolution.height}`;
+            const hasPreset = Array.from(resolutionPreset.options).some(option => option.value === preset);
+            resolutionPreset.value = hasPreset ? preset : 'custom';
+        }
+    }
+
     private setupPanFunctionality(container: HTMLElement | null): void {
         if (!container) return;
 
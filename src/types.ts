@@ -1,6 +1,14 @@
+export type ShapeType = 'rect' | 'ellipse' | 'line' | 'arrow';
+
+export type StrokeDash = 'solid' | 'dashed' | 'dotted';
+
+// How an element shows on canvases other than its owner (`canvasId`): 'follow' obeys the canvas
+// links, 'clip' never leaves the owner, 'span' shows on every canvas it overlaps
+export type SpanMode = 'follow' | 'clip' | 'span';
+
 export interface CanvasElement {
     id: string;
-    type: 'text' | 'image';
+    type: 'text' | 'image' | ShapeType | 'path';
     x: number;  // Global X position (relative to all canvases)
     y: number;  // Global Y position
     width: number;
@@ -13,8 +21,26 @@ export interface CanvasElement {
     textAlign?: 'left' | 'center' | 'right';
     color?: string;
     imageElement?: HTMLImageElement;
+    // Shape styling. Lines and arrows run through the vertical middle of their box;
+    // their direction comes from `rotation`.
+    fillColor?: string;      // No fill when unset
+    strokeColor?: string;
+    strokeWidth?: number;
+    strokeDash?: StrokeDash;
+    cornerRadius?: number;   // Rectangles only
+    arrowStart?: boolean;    // Lines and arrows
+    arrowEnd?: boolean;
+    // Freehand/vector paths: anchors in global coordinates. The box always wraps the drawn
+    // curve, and moving or resizing the box carries the points along (see GlobalElementManager).
+    pathPoints?: PathPoint[];
     rotation?: number;
+    opacity?: number;   // 0-1, fully opaque when unset
     canvasId?: string; // Original canvas where element was created
+    spanMode?: SpanMode;  // 'follow' when unset
+    name?: string;      // User-given layer name; the panel falls back to a content preview
+    hidden?: boolean;   // Skipped when rendering and exporting
+    locked?: boolean;   // Ignored by hit testing and marquee selection
+    groupId?: string;   // Elements sharing a groupId select, move, resize, rotate and reorder as one unit
     // Crop properties for images
     cropX?: number;
     cropY?: number;
@@ -41,6 +67,25 @@ export interface CanvasData {
     offsetX: number; // Canvas position in the global coordinate system
     offsetY: number;
     thumbnail?: string;
+    layoutGrid?: LayoutGrid;  // Column/row guide overlay; none when unset
+}
+
+// Column/row layout grid inside a canvas: `margin` insets the grid from every edge and
+// `gutter` separates neighbouring columns and rows. A count of 0 leaves that axis out.
+export interface LayoutGrid {
+    columns: number;
+    rows: number;
+    gutter: number;
+    margin: number;
+}
+
+// Ruler guide. Per-canvas guides (`canvasId` set) store a position local to that canvas so they
+// follow it around the grid; global guides store a global position and span every canvas.
+export interface Guide {
+    id: string;
+    axis: 'x' | 'y';  // 'x' = vertical line at x, 'y' = horizontal line at y
+    position: number;
+    canvasId?: string;
 }
 
 export interface Point {
@@ -48,6 +93,12 @@ export interface Point {
     y: number;
 }
 
+// Path anchor with optional Bezier handles (absent handle = straight segment end)
+export interface PathPoint extends Point {
+    handleIn?: Point;
+    handleOut?: Point;
+}
+
 export interface DragState {
     isDragging: boolean;
     element: CanvasElement | null;
@@ -68,4 +119,114 @@ export interface ResizeState {
         width: number;
         height: number;
     };
-}
\ No newline at end of file
+}
+
+export interface RotateState {
+    isRotating: boolean;
+    element: CanvasElement | null;
+    center: Point;          // Global pivot (element box center)
+    startAngle: number;     // Pointer angle at mousedown, degrees
+    originalRotation: number;
+}
+
+// Freehand stroke being drawn with the pen; samples are raw global pointer positions
+export interface PenState {
+    isDrawing: boolean;
+    elementId: string | null;
+    samples: Point[];
+}
+
+export type PathPart = 'anchor' | 'handleIn' | 'handleOut';
+
+export type Alignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+// What alignment and distribution measure against
+export type AlignReference = 'selection' | 'canvas' | 'grid';
+
+// Anchor or Bezier handle being dragged while a path is in edit mode
+export interface AnchorDragState {
+    isDragging: boolean;
+    part: PathPart | null;
+    index: number;
+    original: CanvasElement | null;  // Snapshot at mousedown; every move is applied to it
+    startPoint: Point;               // Pointer at mousedown, in the original element's frame
+}
+
+// Resize or rotate of a whole group; members are scaled/rotated from their state at mousedown
+export interface GroupTransformState {
+    mode: 'resize' | 'rotate' | null;
+    groupId: string | null;
+    handle: ResizeHandle | null;
+    startPoint: Point;
+    startAngle: number;
+    bounds: { x: number; y: number; width: number; height: number };  // Group box at mousedown
+    originals: Map<string, CanvasElement>;  // Member snapshots at mousedown
+}
+// ---- Project document format (save/load) ----
+
+// Bump whenever the serialized shape changes; DocumentSerializer migrates older documents
+export const DOCUMENT_SCHEMA_VERSION = 2;
+
+// Image pixels are stored once per distinct source as a base64 data URL and referenced by id
+export interface SerializedImage {
+    id: string;
+    mimeType: string;
+    dataUrl: string;
+}
+
+// CanvasElement without runtime-only HTMLImageElement handles.
+// For images, `content` is left empty and `imageId` points into ProjectDocument.images.
+export type SerializedElement = Omit<CanvasElement, 'imageElement' | 'originalImageElement'> & {
+    imageId?: string;
+    originalImageId?: string;
+};
+
+export interface SerializedCanvas {
+    id: string;
+    name: string;
+    width: number;
+    height: number;
+    row: number;  // Grid cell
+    col: number;
+    layoutGrid?: LayoutGrid;
+}
+
+// How two linked canvases meet: 'edge' neighbours share a side, 'corner' neighbours touch diagonally,
+// 'portal' joins a side of one canvas to the opposite side of any other, wherever it sits in the grid
+export type LinkKind = 'edge' | 'corner' | 'portal';
+
+export type CanvasSide = 'left' | 'right' | 'top' | 'bottom';
+
+// Directed link between canvases: while enabled, elements owned by `from` show on `to`
+// and can be dragged into it. Each neighbour pair has one link per direction; a portal
+// is a pair of links too, one leaving each canvas.
+export interface CanvasLink {
+    from: string;
+    to: string;
+    kind: LinkKind;
+    enabled: boolean;
+    side?: CanvasSide;  // Portals only: the side of `from` that leads into `to`
+}
+
+// Named group of canvases laid out as one spread (SpreadManager)
+export interface Spread {
+    id: string;
+    name: string;
+    canvasIds: string[];
+}
+
+export interface ProjectDocument {
+    schemaVersion: number;
+    canvases: SerializedCanvas[];
+    activeCanvasId: string | null;
+    elements: SerializedElement[];  // Back-to-front render order
+    images: SerializedImage[];
+    links: CanvasLink[];
+    spreads: Spread[];
+    guides: Guide[];
+    view: {
+        zoom: number;
+        panX: number;
+        panY: number;
+    };
+}